@@ -0,0 +1,45 @@
+/**
+ * Backfill script for user badges
+ * Awards badges that existing users already qualify for, e.g. after adding
+ * a badge definition or changing its rule. Dry run by default.
+ *
+ * Run with: bun run src/db/backfill-badges.ts [--apply] [badgeKey...]
+ */
+
+import { closeDatabase } from "./index";
+import { backfillBadges } from "../services/badges";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = !args.includes("--apply");
+  const badgeKeys = args.filter(arg => !arg.startsWith("--"));
+
+  try {
+    console.log(
+      dryRun
+        ? "Backfilling badges (dry run, pass --apply to award)..."
+        : "Backfilling badges..."
+    );
+
+    const report = await backfillBadges({
+      dryRun,
+      badgeKeys: badgeKeys.length > 0 ? badgeKeys : undefined,
+    });
+
+    for (const { userId, badgeKey } of report.awarded) {
+      console.log(
+        `  ${dryRun ? "Would award" : "Awarded"} ${badgeKey} to ${userId}`
+      );
+    }
+    console.log(
+      `Badge backfill complete: ${report.awarded.length} badges across ${report.usersScanned} users`
+    );
+  } catch (error) {
+    console.error("Error backfilling badges:", error);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main();
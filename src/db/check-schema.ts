@@ -0,0 +1,34 @@
+/**
+ * Schema check
+ * Compares the live database with schema.ts and lists every difference
+ * (missing or extra tables and columns, type or nullability mismatches).
+ * Exits with status 1 if they differ, so it can gate deploys.
+ *
+ * Run with: bun run db:check-schema
+ */
+
+import { closeDatabase } from "./index";
+import { checkSchema } from "./migrator";
+import { formatSchemaDifference } from "../lib/schema-diff";
+
+async function main() {
+  try {
+    const differences = await checkSchema();
+    if (differences.length === 0) {
+      console.log("Database matches schema.ts");
+      return;
+    }
+    console.log(`Database differs from schema.ts (${differences.length}):`);
+    for (const difference of differences) {
+      console.log(`  ${formatSchemaDifference(difference)}`);
+    }
+    process.exitCode = 1;
+  } catch (error) {
+    console.error("Error checking schema:", error);
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main();
@@ -0,0 +1,46 @@
+/**
+ * Retention job for access tracking
+ * Folds legacy access_logs rows into daily access_counters and purges
+ * counters older than ACCESS_COUNTER_RETENTION_DAYS (default 90), then drops
+ * idle rate limit buckets and expired solver cache rows.
+ * Safe to run repeatedly, e.g. daily from cron.
+ *
+ * Run with: bun run src/db/compact-access-logs.ts
+ */
+
+import { closeDatabase } from "./index";
+import { compactAccessLogs } from "../services/access";
+import { purgeIdleRateLimitBuckets } from "../services/rate-limit-store";
+import { purgeExpiredSolverCache } from "../services/solver-cache";
+import { getEnv } from "../lib/env-helper";
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+async function main() {
+  const retentionDays = parseInt(
+    getEnv("ACCESS_COUNTER_RETENTION_DAYS", String(DEFAULT_RETENTION_DAYS))!
+  );
+
+  try {
+    console.log(
+      `Compacting access logs (keeping ${retentionDays} days of counters)...`
+    );
+    const result = await compactAccessLogs(retentionDays);
+    console.log(
+      `Access log compaction complete: ${result.compactedLogs} log rows compacted, ${result.purgedCounters} counters purged`
+    );
+
+    const purgedBuckets = await purgeIdleRateLimitBuckets();
+    console.log(`Purged ${purgedBuckets} idle rate limit buckets`);
+
+    const purgedCacheRows = await purgeExpiredSolverCache();
+    console.log(`Purged ${purgedCacheRows} expired solver cache rows`);
+  } catch (error) {
+    console.error("Error compacting access logs:", error);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main();
@@ -0,0 +1,66 @@
+/**
+ * Migration command
+ * Applies or reverts schema migrations, or lists their status.
+ *
+ * Run with:
+ *   bun run db:migrate             # apply all pending migrations
+ *   bun run db:migrate 3           # apply pending migrations up to version 3
+ *   bun run db:rollback            # revert the last applied migration
+ *   bun run db:rollback 2          # revert the last two
+ *   bun run db:migrate-status      # list applied and pending migrations
+ */
+
+import { closeDatabase } from "./index";
+import { getMigrationStatus, migrate, rollback } from "./migrator";
+
+function parseCount(value: string | undefined, name: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+async function main() {
+  const [command = "up", arg] = process.argv.slice(2);
+
+  if (command === "up") {
+    const applied = await migrate(parseCount(arg, "Target version"));
+    console.log(
+      applied.length > 0
+        ? `Applied ${applied.length} migration(s)`
+        : "Database is up to date"
+    );
+  } else if (command === "down") {
+    const reverted = await rollback(parseCount(arg, "Steps") ?? 1);
+    console.log(`Reverted ${reverted.length} migration(s)`);
+  } else if (command === "status") {
+    const { applied, pending } = await getMigrationStatus();
+    for (const migration of applied) {
+      console.log(
+        `  applied  ${migration.version} ${migration.name} (${migration.appliedAt.toISOString()})`
+      );
+    }
+    for (const migration of pending) {
+      console.log(`  pending  ${migration.version} ${migration.name}`);
+    }
+  } else {
+    throw new Error(
+      `Unknown command "${command}" (expected up, down or status)`
+    );
+  }
+}
+
+main()
+  .then(async () => {
+    await closeDatabase();
+    process.exit(0);
+  })
+  .catch(async error => {
+    console.error("Migration failed:", error);
+    await closeDatabase();
+    process.exit(1);
+  });
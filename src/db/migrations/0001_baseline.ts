@@ -0,0 +1,558 @@
+/**
+ * Baseline: the schema and seed data previously created by initDatabase and
+ * initGamificationTables on every boot.
+ *
+ * Every statement is idempotent so databases created by those functions can
+ * adopt the migration history: tables use CREATE TABLE IF NOT EXISTS, columns
+ * added over time use ADD COLUMN IF NOT EXISTS, and seeds only fill rows
+ * that are still empty.
+ *
+ * It cannot be rolled back: undoing it would mean dropping every table.
+ */
+
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 1,
+  name: "baseline",
+  // Reverting the baseline would drop every table and all user data
+  irreversible: true,
+
+  async up(sql) {
+    await sql`
+      CREATE TABLE IF NOT EXISTS levels (
+        level INTEGER PRIMARY KEY,
+        title VARCHAR(255) NOT NULL,
+        text TEXT,
+        requires_subscription BOOLEAN DEFAULT false,
+        entitlement VARCHAR(255),
+        offer_id VARCHAR(255),
+        percentage REAL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Strategies table (must be created before techniques FK migration)
+    await sql`
+      CREATE TABLE IF NOT EXISTS strategies (
+        strategy SERIAL PRIMARY KEY,
+        difficulty INTEGER UNIQUE NOT NULL,
+        stub VARCHAR(255) UNIQUE NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS techniques (
+        technique INTEGER PRIMARY KEY,
+        level INTEGER REFERENCES levels(level) ON DELETE CASCADE,
+        title VARCHAR(255) NOT NULL,
+        path VARCHAR(255),
+        dependencies TEXT,
+        text TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Migration: add columns that may be missing from older schema
+    await sql`
+      ALTER TABLE techniques ADD COLUMN IF NOT EXISTS path VARCHAR(255)
+    `;
+    await sql`
+      ALTER TABLE techniques ADD COLUMN IF NOT EXISTS dependencies TEXT
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS techniques_path_idx ON techniques(path)
+    `;
+
+    // Migration: add entitlement column to levels for tiered access control
+    await sql`
+      ALTER TABLE levels ADD COLUMN IF NOT EXISTS entitlement VARCHAR(255)
+    `;
+    // Seed entitlement values for existing levels (idempotent: only updates null rows)
+    await sql`
+      UPDATE levels SET entitlement = 'blue_belt,red_belt' WHERE level >= 8 AND level <= 10 AND entitlement IS NULL
+    `;
+    await sql`
+      UPDATE levels SET entitlement = 'red_belt' WHERE level >= 11 AND level <= 12 AND entitlement IS NULL
+    `;
+
+    // Migration: add offer_id column to levels for linking to RevenueCat offerings
+    await sql`
+      ALTER TABLE levels ADD COLUMN IF NOT EXISTS offer_id VARCHAR(255)
+    `;
+    // Seed offer_id values for existing levels (idempotent: only updates null rows)
+    await sql`
+      UPDATE levels SET offer_id = '1_blue_belt' WHERE level >= 8 AND level <= 10 AND offer_id IS NULL
+    `;
+    await sql`
+      UPDATE levels SET offer_id = '8_red_belt' WHERE level >= 11 AND level <= 12 AND offer_id IS NULL
+    `;
+
+    // Migration: add percentage column to levels for pre-computed board stats (ratio 0-1)
+    await sql`
+      ALTER TABLE levels ADD COLUMN IF NOT EXISTS percentage REAL
+    `;
+    // Migration: convert percentage from INTEGER to REAL if needed
+    await sql`
+      ALTER TABLE levels ALTER COLUMN percentage TYPE REAL
+    `;
+
+    // Migration: add percentage column to techniques for pre-computed board stats (ratio 0-1)
+    await sql`
+      ALTER TABLE techniques ADD COLUMN IF NOT EXISTS percentage REAL
+    `;
+    // Migration: convert percentage from INTEGER to REAL if needed
+    await sql`
+      ALTER TABLE techniques ALTER COLUMN percentage TYPE REAL
+    `;
+
+    // Migration: add strategy_id FK column to techniques
+    await sql`
+      ALTER TABLE techniques ADD COLUMN IF NOT EXISTS strategy_id INTEGER REFERENCES strategies(strategy) ON DELETE SET NULL
+    `;
+
+    // Seed strategies (idempotent)
+    await sql`
+      INSERT INTO strategies (difficulty, stub) VALUES
+        (1, 'naked-subsets'),
+        (2, 'hidden-subsets'),
+        (3, 'locked-candidates'),
+        (4, 'basic-fish'),
+        (5, 'finned-sashimi-fish'),
+        (6, 'franken-fish'),
+        (7, 'single-digit-patterns'),
+        (8, 'wings'),
+        (9, 'unique-rectangles'),
+        (10, 'coloring'),
+        (11, 'remote-pairs'),
+        (12, 'almost-locked-sets'),
+        (13, 'bug-plus-one'),
+        (14, 'firework'),
+        (15, 'single-digit-chains'),
+        (16, 'multi-digit-chains'),
+        (17, 'forcing')
+      ON CONFLICT (stub) DO NOTHING
+    `;
+
+    // Seed technique → strategy mappings (idempotent: only updates null rows)
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'naked-subsets') WHERE technique IN (3, 5, 8, 10) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'hidden-subsets') WHERE technique IN (1, 2, 4, 7, 9) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'locked-candidates') WHERE technique IN (6) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'basic-fish') WHERE technique IN (11, 12, 13, 16) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'finned-sashimi-fish') WHERE technique IN (15, 17, 18, 22, 51, 52, 53) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'franken-fish') WHERE technique IN (57, 58, 59) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'single-digit-patterns') WHERE technique IN (24, 25, 26, 38) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'wings') WHERE technique IN (14, 19, 20, 28, 44, 45, 46, 47) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'unique-rectangles') WHERE technique IN (30, 31, 39, 40, 41, 50, 54) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'coloring') WHERE technique IN (27, 37) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'remote-pairs') WHERE technique IN (29) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'almost-locked-sets') WHERE technique IN (21, 23, 33, 34, 56) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'bug-plus-one') WHERE technique IN (32) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'firework') WHERE technique IN (55) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'single-digit-chains') WHERE technique IN (35, 42, 60) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'multi-digit-chains') WHERE technique IN (43, 48) AND strategy_id IS NULL`;
+    await sql`UPDATE techniques SET strategy_id = (SELECT strategy FROM strategies WHERE stub = 'forcing') WHERE technique IN (36, 49) AND strategy_id IS NULL`;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS learning (
+        uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        technique INTEGER REFERENCES techniques(technique) ON DELETE CASCADE,
+        index INTEGER NOT NULL,
+        language_code VARCHAR(10) NOT NULL DEFAULT 'en',
+        text TEXT,
+        image_url TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS boards (
+        uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        level INTEGER REFERENCES levels(level) ON DELETE SET NULL,
+        symmetrical BOOLEAN DEFAULT false,
+        board VARCHAR(81) NOT NULL,
+        solution VARCHAR(81) NOT NULL,
+        techniques INTEGER DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS dailies (
+        uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        date DATE NOT NULL,
+        board_uuid UUID REFERENCES boards(uuid) ON DELETE SET NULL,
+        level INTEGER REFERENCES levels(level) ON DELETE SET NULL,
+        techniques INTEGER DEFAULT 0,
+        board VARCHAR(81) NOT NULL,
+        solution VARCHAR(81) NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS challenges (
+        uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        board_uuid UUID REFERENCES boards(uuid) ON DELETE SET NULL,
+        level INTEGER REFERENCES levels(level) ON DELETE SET NULL,
+        difficulty INTEGER DEFAULT 1,
+        board VARCHAR(81) NOT NULL,
+        solution VARCHAR(81) NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS access_logs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR(128) NOT NULL,
+        endpoint VARCHAR(50) NOT NULL,
+        access_date DATE NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS access_counters (
+        user_id VARCHAR(128) NOT NULL,
+        endpoint VARCHAR(50) NOT NULL,
+        access_date DATE NOT NULL,
+        count INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (user_id, endpoint, access_date)
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_access_counters_date ON access_counters(access_date)
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS access_quotas (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tier VARCHAR(100) NOT NULL,
+        endpoint VARCHAR(50) NOT NULL,
+        daily_limit INTEGER,
+        updated_at TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT access_quotas_tier_endpoint_key UNIQUE (tier, endpoint)
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        key VARCHAR(255) PRIMARY KEY,
+        tokens DOUBLE PRECISION NOT NULL,
+        updated_at TIMESTAMP NOT NULL
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS technique_examples (
+        uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        board VARCHAR(81) NOT NULL,
+        pencilmarks TEXT,
+        solution VARCHAR(81) NOT NULL,
+        techniques_bitfield INTEGER NOT NULL,
+        primary_technique INTEGER NOT NULL,
+        hint_data TEXT,
+        source_board_uuid UUID REFERENCES boards(uuid) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS technique_practices (
+        uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        technique INTEGER REFERENCES techniques(technique) ON DELETE CASCADE,
+        board VARCHAR(81) NOT NULL,
+        pencilmarks TEXT,
+        solution VARCHAR(81) NOT NULL,
+        hint_data TEXT,
+        source_example_uuid UUID REFERENCES technique_examples(uuid) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Migration: soft delete for puzzle content (purged after a grace period)
+    await sql`
+      ALTER TABLE boards ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP
+    `;
+    await sql`
+      ALTER TABLE dailies ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP
+    `;
+    await sql`
+      ALTER TABLE challenges ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP
+    `;
+    await sql`
+      ALTER TABLE technique_examples ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP
+    `;
+    await sql`
+      ALTER TABLE technique_practices ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP
+    `;
+
+    // Migration: dates only need to be unique among live dailies
+    await sql`
+      ALTER TABLE dailies DROP CONSTRAINT IF EXISTS dailies_date_key
+    `;
+    await sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS dailies_date_active_key ON dailies(date) WHERE deleted_at IS NULL
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS communities (
+        uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        language_code VARCHAR(10) NOT NULL,
+        name VARCHAR(500) NOT NULL,
+        name_english VARCHAR(500),
+        description TEXT NOT NULL,
+        url TEXT NOT NULL,
+        platform VARCHAR(50) NOT NULL,
+        sort_order INTEGER DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS communities_language_code_idx ON communities(language_code)
+    `;
+
+    // Migration: add icon_url column to communities
+    await sql`
+      ALTER TABLE communities ADD COLUMN IF NOT EXISTS icon_url TEXT
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        key_prefix VARCHAR(16) NOT NULL,
+        key_hash VARCHAR(64) NOT NULL UNIQUE,
+        scopes JSONB NOT NULL,
+        owner_id VARCHAR(128) NOT NULL,
+        expires_at TIMESTAMP,
+        last_used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS admin_roles (
+        name VARCHAR(50) PRIMARY KEY,
+        description TEXT,
+        permissions JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS user_roles (
+        user_id VARCHAR(128) NOT NULL,
+        role VARCHAR(50) NOT NULL REFERENCES admin_roles(name) ON DELETE CASCADE ON UPDATE CASCADE,
+        granted_by VARCHAR(128),
+        created_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (user_id, role)
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS admin_audit_log (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        actor_id VARCHAR(128) NOT NULL,
+        api_key_id UUID,
+        method VARCHAR(10) NOT NULL,
+        route VARCHAR(255) NOT NULL,
+        entity_type VARCHAR(50) NOT NULL,
+        entity_id VARCHAR(128),
+        before JSONB,
+        after JSONB,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at)
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_admin_audit_log_entity ON admin_audit_log(entity_type, entity_id)
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log(actor_id)
+    `;
+
+    // Gamification tables
+    // User stats table
+    await sql`
+      CREATE TABLE IF NOT EXISTS user_stats (
+        user_id VARCHAR(128) PRIMARY KEY,
+        total_points BIGINT NOT NULL DEFAULT 0,
+        user_level INTEGER NOT NULL DEFAULT 0,
+        games_completed INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Migration: add status column to user_stats for account deletion
+    await sql`
+      ALTER TABLE user_stats ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active'
+    `;
+
+    // Migration: add daily streak tracking to user_stats
+    await sql`
+      ALTER TABLE user_stats ADD COLUMN IF NOT EXISTS current_streak INTEGER NOT NULL DEFAULT 0
+    `;
+    await sql`
+      ALTER TABLE user_stats ADD COLUMN IF NOT EXISTS longest_streak INTEGER NOT NULL DEFAULT 0
+    `;
+    await sql`
+      ALTER TABLE user_stats ADD COLUMN IF NOT EXISTS last_streak_date DATE
+    `;
+    await sql`
+      ALTER TABLE user_stats ADD COLUMN IF NOT EXISTS timezone VARCHAR(64)
+    `;
+    await sql`
+      ALTER TABLE user_stats ADD COLUMN IF NOT EXISTS hint_free_streak INTEGER NOT NULL DEFAULT 0
+    `;
+
+    // Badge definitions table
+    await sql`
+      CREATE TABLE IF NOT EXISTS badge_definitions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        badge_type VARCHAR(50) NOT NULL,
+        badge_key VARCHAR(100) UNIQUE NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        description TEXT,
+        icon_url VARCHAR(500),
+        requirement_value INTEGER,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Migration: add declarative earning rules to badge definitions
+    await sql`
+      ALTER TABLE badge_definitions ADD COLUMN IF NOT EXISTS rule JSONB
+    `;
+
+    // User badges table
+    await sql`
+      CREATE TABLE IF NOT EXISTS user_badges (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR(128) NOT NULL,
+        badge_key VARCHAR(100) NOT NULL REFERENCES badge_definitions(badge_key),
+        earned_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(user_id, badge_key)
+      )
+    `;
+
+    // Game sessions table (one open session per user and puzzle)
+    await sql`
+      CREATE TABLE IF NOT EXISTS game_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR(128) NOT NULL,
+        board VARCHAR(81) NOT NULL,
+        solution VARCHAR(81) NOT NULL,
+        level INTEGER NOT NULL,
+        techniques BIGINT DEFAULT 0,
+        hint_used BOOLEAN NOT NULL DEFAULT FALSE,
+        hints_count INTEGER NOT NULL DEFAULT 0,
+        hint_points_earned INTEGER NOT NULL DEFAULT 0,
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        puzzle_type VARCHAR(20) NOT NULL,
+        puzzle_id VARCHAR(100)
+      )
+    `;
+
+    // Migration: store synced progress on game sessions
+    await sql`
+      ALTER TABLE game_sessions ADD COLUMN IF NOT EXISTS user_input VARCHAR(81)
+    `;
+    await sql`
+      ALTER TABLE game_sessions ADD COLUMN IF NOT EXISTS pencilmarks TEXT
+    `;
+    await sql`
+      ALTER TABLE game_sessions ADD COLUMN IF NOT EXISTS active_seconds INTEGER NOT NULL DEFAULT 0
+    `;
+    await sql`
+      ALTER TABLE game_sessions ADD COLUMN IF NOT EXISTS progress_updated_at TIMESTAMP
+    `;
+    await sql`
+      ALTER TABLE game_sessions ADD COLUMN IF NOT EXISTS pause_intervals JSONB NOT NULL DEFAULT '[]'
+    `;
+
+    // Migration: allow concurrent sessions keyed by (user, puzzle type, puzzle id)
+    await sql`
+      ALTER TABLE game_sessions DROP CONSTRAINT IF EXISTS game_sessions_user_id_key
+    `;
+    await sql`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint WHERE conname = 'game_sessions_user_puzzle_key'
+        ) THEN
+          ALTER TABLE game_sessions ADD CONSTRAINT game_sessions_user_puzzle_key
+            UNIQUE (user_id, puzzle_type, puzzle_id);
+        END IF;
+      END $$
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_game_sessions_user_id ON game_sessions(user_id)
+    `;
+
+    // Point transactions table (audit trail)
+    await sql`
+      CREATE TABLE IF NOT EXISTS point_transactions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR(128) NOT NULL,
+        points INTEGER NOT NULL,
+        transaction_type VARCHAR(50) NOT NULL,
+        metadata JSONB,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Daily completions table (daily leaderboard)
+    await sql`
+      CREATE TABLE IF NOT EXISTS daily_completions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR(128) NOT NULL,
+        date DATE NOT NULL,
+        verified_seconds INTEGER NOT NULL,
+        hint_used BOOLEAN NOT NULL,
+        hints_count INTEGER NOT NULL DEFAULT 0,
+        completed_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(user_id, date)
+      )
+    `;
+
+    // Create indexes for better query performance
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_user_badges_user_id ON user_badges(user_id)
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_point_transactions_user_id ON point_transactions(user_id)
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_point_transactions_created_at ON point_transactions(created_at)
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_daily_completions_date ON daily_completions(date, hint_used, verified_seconds)
+    `;
+  },
+
+  async down() {
+    throw new Error("The baseline migration cannot be rolled back");
+  },
+};
+
+export default migration;
@@ -0,0 +1,39 @@
+/**
+ * Widen technique bitfields to BIGINT, as declared in schema.ts.
+ *
+ * Technique IDs go up to 60 (bit = 1 << id), which does not fit the INTEGER
+ * columns the baseline created.
+ */
+
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 2,
+  name: "bigint_technique_bitfields",
+
+  async up(sql) {
+    await sql`
+      ALTER TABLE boards ALTER COLUMN techniques TYPE BIGINT
+    `;
+    await sql`
+      ALTER TABLE dailies ALTER COLUMN techniques TYPE BIGINT
+    `;
+    await sql`
+      ALTER TABLE technique_examples ALTER COLUMN techniques_bitfield TYPE BIGINT
+    `;
+  },
+
+  async down(sql) {
+    await sql`
+      ALTER TABLE technique_examples ALTER COLUMN techniques_bitfield TYPE INTEGER
+    `;
+    await sql`
+      ALTER TABLE dailies ALTER COLUMN techniques TYPE INTEGER
+    `;
+    await sql`
+      ALTER TABLE boards ALTER COLUMN techniques TYPE INTEGER
+    `;
+  },
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+/**
+ * Add the solver_cache table, the shared layer of the solver response cache.
+ */
+
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 3,
+  name: "solver_cache",
+
+  async up(sql) {
+    await sql`
+      CREATE TABLE solver_cache (
+        key VARCHAR(64) PRIMARY KEY,
+        endpoint VARCHAR(32) NOT NULL,
+        original TEXT,
+        response JSONB NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMP NOT NULL
+      )
+    `;
+    await sql`
+      CREATE INDEX idx_solver_cache_original ON solver_cache(original)
+    `;
+    await sql`
+      CREATE INDEX idx_solver_cache_expires_at ON solver_cache(expires_at)
+    `;
+  },
+
+  async down(sql) {
+    await sql`
+      DROP TABLE solver_cache
+    `;
+  },
+};
+
+export default migration;
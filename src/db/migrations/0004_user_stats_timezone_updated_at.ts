@@ -0,0 +1,25 @@
+/**
+ * Record when a user's timezone last changed, so changes can be limited
+ * (see canChangeTimezone in lib/streak.ts).
+ */
+
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 4,
+  name: "user_stats_timezone_updated_at",
+
+  async up(sql) {
+    await sql`
+      ALTER TABLE user_stats ADD COLUMN timezone_updated_at TIMESTAMP
+    `;
+  },
+
+  async down(sql) {
+    await sql`
+      ALTER TABLE user_stats DROP COLUMN timezone_updated_at
+    `;
+  },
+};
+
+export default migration;
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Versioned schema migrations
+ *
+ * Each migration has a version (applied in ascending order), an `up` that
+ * applies it and a `down` that reverts it. Both run inside a transaction.
+ * Migrations marked `irreversible` (the baseline, whose `down` would drop
+ * every table) are never rolled back.
+ * Applied versions are recorded in the schema_migrations table.
+ *
+ * To change the schema: add `NNNN_<name>.ts` exporting a Migration with the
+ * next version, append it to MIGRATIONS, and update schema.ts to match
+ * (bun run db:check-schema compares the two).
+ *
+ * @see ../migrator.ts for running them
+ */
+
+import type { TransactionSql } from "postgres";
+import baseline from "./0001_baseline";
+import bigintTechniqueBitfields from "./0002_bigint_technique_bitfields";
+import solverCache from "./0003_solver_cache";
+import userStatsTimezoneUpdatedAt from "./0004_user_stats_timezone_updated_at";
+
+export interface Migration {
+  version: number;
+  /** Short snake_case description, recorded with the version */
+  name: string;
+  /** Refuse to roll back this migration (see planRollback) */
+  irreversible?: boolean;
+  up(sql: TransactionSql): Promise<void>;
+  down(sql: TransactionSql): Promise<void>;
+}
+
+/** All migrations, in version order */
+export const MIGRATIONS: Migration[] = [
+  baseline,
+  bigintTechniqueBitfields,
+  solverCache,
+  userStatsTimezoneUpdatedAt,
+];
@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Migration runner and schema check
+ *
+ * Applies and reverts the migrations in ./migrations, recording applied
+ * versions in schema_migrations. Each migration runs in its own transaction
+ * holding an advisory lock, so instances starting together apply it once.
+ *
+ * @see migrations/index.ts for writing migrations
+ */
+
+import { is } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import { getClient } from "./index";
+import * as schema from "./schema";
+import { MIGRATIONS, type Migration } from "./migrations";
+import {
+  planMigrations,
+  planRollback,
+  validateMigrations,
+} from "../lib/migrations";
+import {
+  diffSchema,
+  type SchemaDifference,
+  type SchemaShape,
+} from "../lib/schema-diff";
+import { logger } from "../lib/logger";
+
+/** Table recording applied migration versions */
+export const MIGRATIONS_TABLE = "schema_migrations";
+
+/** Advisory lock key held while a migration runs (arbitrary, app-wide) */
+const MIGRATION_LOCK_KEY = 727_001;
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+}
+
+async function ensureMigrationsTable(): Promise<void> {
+  await getClient()`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `;
+}
+
+async function getAppliedMigrations(): Promise<AppliedMigration[]> {
+  await ensureMigrationsTable();
+  const rows = await getClient()<
+    { version: number; name: string; applied_at: Date }[]
+  >`
+    SELECT version, name, applied_at FROM schema_migrations ORDER BY version
+  `;
+  return rows.map(row => ({
+    version: row.version,
+    name: row.name,
+    appliedAt: row.applied_at,
+  }));
+}
+
+/**
+ * Get the applied and pending migrations.
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  validateMigrations(MIGRATIONS);
+  const applied = await getAppliedMigrations();
+  const pending = planMigrations(
+    MIGRATIONS,
+    applied.map(migration => migration.version)
+  );
+  return { applied, pending };
+}
+
+/**
+ * Apply pending migrations up to `target` (default: all).
+ * @returns The migrations applied by this call
+ */
+export async function migrate(target?: number): Promise<Migration[]> {
+  const { applied } = await getMigrationStatus();
+  const plan = planMigrations(
+    MIGRATIONS,
+    applied.map(migration => migration.version),
+    target
+  );
+
+  const ran: Migration[] = [];
+  for (const migration of plan) {
+    const didRun = await getClient().begin(async sql => {
+      await sql`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY})`;
+      const existing = await sql`
+        SELECT 1 FROM schema_migrations WHERE version = ${migration.version}
+      `;
+      if (existing.length > 0) {
+        // Applied by another instance while we waited for the lock
+        return false;
+      }
+      await migration.up(sql);
+      await sql`
+        INSERT INTO schema_migrations (version, name)
+        VALUES (${migration.version}, ${migration.name})
+      `;
+      return true;
+    });
+    if (didRun) {
+      logger.info("Applied migration", {
+        version: migration.version,
+        name: migration.name,
+      });
+      ran.push(migration);
+    }
+  }
+  return ran;
+}
+
+/**
+ * Revert the last `steps` applied migrations, newest first.
+ * @returns The migrations reverted by this call
+ */
+export async function rollback(steps = 1): Promise<Migration[]> {
+  const { applied } = await getMigrationStatus();
+  const plan = planRollback(
+    MIGRATIONS,
+    applied.map(migration => migration.version),
+    steps
+  );
+
+  const reverted: Migration[] = [];
+  for (const migration of plan) {
+    const didRun = await getClient().begin(async sql => {
+      await sql`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY})`;
+      const deleted = await sql`
+        DELETE FROM schema_migrations WHERE version = ${migration.version}
+        RETURNING version
+      `;
+      if (deleted.length === 0) {
+        // Reverted by another instance while we waited for the lock
+        return false;
+      }
+      await migration.down(sql);
+      return true;
+    });
+    if (didRun) {
+      logger.info("Reverted migration", {
+        version: migration.version,
+        name: migration.name,
+      });
+      reverted.push(migration);
+    }
+  }
+  return reverted;
+}
+
+/**
+ * Fail if the database is missing migrations (used when startup must not
+ * change the schema).
+ * @throws Error listing the pending migrations
+ */
+export async function assertNoPendingMigrations(): Promise<void> {
+  const { pending } = await getMigrationStatus();
+  if (pending.length > 0) {
+    throw new Error(
+      `Database has ${pending.length} pending migration(s): ${pending
+        .map(migration => `${migration.version} (${migration.name})`)
+        .join(", ")}. Run: bun run db:migrate`
+    );
+  }
+}
+
+/** Tables and columns declared in schema.ts */
+function getDeclaredSchema(): SchemaShape {
+  const shape: SchemaShape = {};
+  for (const value of Object.values(schema)) {
+    if (!is(value, PgTable)) {
+      continue;
+    }
+    const config = getTableConfig(value);
+    const primaryKeyColumns = new Set(
+      config.primaryKeys.flatMap(key => key.columns.map(column => column.name))
+    );
+    shape[config.name] = Object.fromEntries(
+      config.columns.map(column => [
+        column.name,
+        {
+          type: column.getSQLType(),
+          notNull: column.notNull || primaryKeyColumns.has(column.name),
+        },
+      ])
+    );
+  }
+  return shape;
+}
+
+/** Tables and columns of the live database (current schema only) */
+async function getLiveSchema(): Promise<SchemaShape> {
+  const rows = await getClient()<
+    {
+      table_name: string;
+      column_name: string;
+      type: string;
+      not_null: boolean;
+    }[]
+  >`
+    SELECT c.relname AS table_name, a.attname AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS type, a.attnotnull AS not_null
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = current_schema() AND c.relkind = 'r'
+      AND a.attnum > 0 AND NOT a.attisdropped
+  `;
+
+  const shape: SchemaShape = {};
+  for (const row of rows) {
+    shape[row.table_name] ??= {};
+    shape[row.table_name]![row.column_name] = {
+      type: row.type,
+      notNull: row.not_null,
+    };
+  }
+  return shape;
+}
+
+/**
+ * Compare the live database with schema.ts.
+ * @returns Differences; empty when they match
+ */
+export async function checkSchema(): Promise<SchemaDifference[]> {
+  return diffSchema(getDeclaredSchema(), await getLiveSchema(), [
+    MIGRATIONS_TABLE,
+  ]);
+}
@@ -0,0 +1,36 @@
+/**
+ * Purge job for soft-deleted puzzle content
+ * Permanently removes boards, dailies, challenges, examples and practices
+ * deleted more than SOFT_DELETE_GRACE_DAYS (default 30) days ago.
+ * Safe to run repeatedly, e.g. daily from cron.
+ *
+ * Run with: bun run src/db/purge-deleted.ts
+ */
+
+import { closeDatabase } from "./index";
+import {
+  DEFAULT_SOFT_DELETE_GRACE_DAYS,
+  purgeSoftDeleted,
+} from "../services/soft-delete";
+import { getEnv } from "../lib/env-helper";
+
+async function main() {
+  const graceDays = parseInt(
+    getEnv("SOFT_DELETE_GRACE_DAYS", String(DEFAULT_SOFT_DELETE_GRACE_DAYS))!
+  );
+
+  try {
+    console.log(`Purging content deleted more than ${graceDays} days ago...`);
+    const result = await purgeSoftDeleted(graceDays);
+    console.log(
+      `Purge complete: ${result.boards} boards, ${result.dailies} dailies, ${result.challenges} challenges, ${result.examples} examples, ${result.practices} practices`
+    );
+  } catch (error) {
+    console.error("Error purging deleted content:", error);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main();
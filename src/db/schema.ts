@@ -12,7 +12,14 @@ import {
   unique,
   index,
   real,
+  doublePrecision,
+  primaryKey,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import type { BadgeRule } from "../lib/badge-rules";
+import type { ApiKeyScope } from "../lib/api-keys";
+import type { Permission } from "../lib/permissions";
 
 export const levels = pgTable("levels", {
   level: integer("level").primaryKey(),
@@ -83,23 +90,34 @@ export const boards = pgTable("boards", {
   techniques: bigint("techniques", { mode: "number" }).default(0),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
+  deleted_at: timestamp("deleted_at"), // soft delete; purged after the grace period
 });
 
-export const dailies = pgTable("dailies", {
-  uuid: uuid("uuid").primaryKey().defaultRandom(),
-  date: date("date").unique().notNull(),
-  board_uuid: uuid("board_uuid").references(() => boards.uuid, {
-    onDelete: "set null",
-  }),
-  level: integer("level").references(() => levels.level, {
-    onDelete: "set null",
-  }),
-  techniques: bigint("techniques", { mode: "number" }).default(0),
-  board: varchar("board", { length: 81 }).notNull(),
-  solution: varchar("solution", { length: 81 }).notNull(),
-  created_at: timestamp("created_at").defaultNow(),
-  updated_at: timestamp("updated_at").defaultNow(),
-});
+export const dailies = pgTable(
+  "dailies",
+  {
+    uuid: uuid("uuid").primaryKey().defaultRandom(),
+    date: date("date").notNull(),
+    board_uuid: uuid("board_uuid").references(() => boards.uuid, {
+      onDelete: "set null",
+    }),
+    level: integer("level").references(() => levels.level, {
+      onDelete: "set null",
+    }),
+    techniques: bigint("techniques", { mode: "number" }).default(0),
+    board: varchar("board", { length: 81 }).notNull(),
+    solution: varchar("solution", { length: 81 }).notNull(),
+    created_at: timestamp("created_at").defaultNow(),
+    updated_at: timestamp("updated_at").defaultNow(),
+    deleted_at: timestamp("deleted_at"), // soft delete; purged after the grace period
+  },
+  table => ({
+    // One live daily per date; soft-deleted dailies do not block the date
+    activeDateIdx: uniqueIndex("dailies_date_active_key")
+      .on(table.date)
+      .where(sql`deleted_at IS NULL`),
+  })
+);
 
 export const challenges = pgTable("challenges", {
   uuid: uuid("uuid").primaryKey().defaultRandom(),
@@ -114,8 +132,10 @@ export const challenges = pgTable("challenges", {
   solution: varchar("solution", { length: 81 }).notNull(),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
+  deleted_at: timestamp("deleted_at"), // soft delete; purged after the grace period
 });
 
+/** Legacy per-access log, superseded by access_counters (compacted by the retention job) */
 export const accessLogs = pgTable("access_logs", {
   id: uuid("id").primaryKey().defaultRandom(),
   user_id: varchar("user_id", { length: 128 }).notNull(),
@@ -124,6 +144,65 @@ export const accessLogs = pgTable("access_logs", {
   created_at: timestamp("created_at").defaultNow(),
 });
 
+/** Daily access counters - one row per caller, endpoint and day */
+export const accessCounters = pgTable(
+  "access_counters",
+  {
+    user_id: varchar("user_id", { length: 128 }).notNull(), // Firebase UID or "anon:<ip>"
+    endpoint: varchar("endpoint", { length: 50 }).notNull(),
+    access_date: date("access_date").notNull(),
+    count: integer("count").notNull().default(0),
+  },
+  table => ({
+    pk: primaryKey({
+      columns: [table.user_id, table.endpoint, table.access_date],
+    }),
+    dateIdx: index("idx_access_counters_date").on(table.access_date),
+  })
+);
+
+/** Daily access quotas per access tier and endpoint (null daily_limit = unlimited) */
+export const accessQuotas = pgTable(
+  "access_quotas",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tier: varchar("tier", { length: 100 }).notNull(), // 'anonymous', 'signed_in' or an entitlement
+    endpoint: varchar("endpoint", { length: 50 }).notNull(),
+    dailyLimit: integer("daily_limit"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  table => ({
+    uniqueTierEndpoint: unique("access_quotas_tier_endpoint_key").on(
+      table.tier,
+      table.endpoint
+    ),
+  })
+);
+
+/** Rate limiter token buckets - one row per route group and caller */
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: varchar("key", { length: 255 }).primaryKey(), // "<group>:<identity>:<subject>"
+  tokens: doublePrecision("tokens").notNull(),
+  updatedAt: timestamp("updated_at").notNull(),
+});
+
+/** Cached responses of pure solver endpoints (solve, validate) */
+export const solverCache = pgTable(
+  "solver_cache",
+  {
+    key: varchar("key", { length: 64 }).primaryKey(), // SHA-256 of endpoint + normalized params
+    endpoint: varchar("endpoint", { length: 32 }).notNull(),
+    original: text("original"), // Puzzle, for invalidating one board
+    response: jsonb("response").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  table => ({
+    originalIdx: index("idx_solver_cache_original").on(table.original),
+    expiresIdx: index("idx_solver_cache_expires_at").on(table.expiresAt),
+  })
+);
+
 // =============================================================================
 // Technique Examples Table (for tutorials)
 // =============================================================================
@@ -149,6 +228,7 @@ export const techniqueExamples = pgTable("technique_examples", {
     onDelete: "set null",
   }),
   created_at: timestamp("created_at").defaultNow(),
+  deleted_at: timestamp("deleted_at"), // soft delete; purged after the grace period
 });
 
 // =============================================================================
@@ -177,19 +257,26 @@ export const techniquePractices = pgTable("technique_practices", {
     }
   ),
   created_at: timestamp("created_at").defaultNow(),
+  deleted_at: timestamp("deleted_at"), // soft delete; purged after the grace period
 });
 
 // =============================================================================
 // Gamification Tables
 // =============================================================================
 
-/** User gamification stats - total points, level, games completed */
+/** User gamification stats - total points, level, games completed, daily streak */
 export const userStats = pgTable("user_stats", {
   userId: varchar("user_id", { length: 128 }).primaryKey(),
   totalPoints: bigint("total_points", { mode: "number" }).notNull().default(0),
   userLevel: integer("user_level").notNull().default(0),
   gamesCompleted: integer("games_completed").notNull().default(0),
   status: varchar("status", { length: 20 }).notNull().default("active"),
+  currentStreak: integer("current_streak").notNull().default(0), // consecutive days with a completed daily
+  longestStreak: integer("longest_streak").notNull().default(0),
+  lastStreakDate: date("last_streak_date"), // user-local date of the last counted daily
+  hintFreeStreak: integer("hint_free_streak").notNull().default(0), // consecutive games completed without hints
+  timezone: varchar("timezone", { length: 64 }), // IANA timezone reported by the client
+  timezoneUpdatedAt: timestamp("timezone_updated_at"), // last change of timezone (changes are limited)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -203,6 +290,7 @@ export const badgeDefinitions = pgTable("badge_definitions", {
   description: text("description"),
   iconUrl: varchar("icon_url", { length: 500 }),
   requirementValue: integer("requirement_value"), // e.g., level 5, or 100 games
+  rule: jsonb("rule").$type<BadgeRule>(), // declarative earning rule; null falls back to badgeType + requirementValue
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -222,21 +310,63 @@ export const userBadges = pgTable(
   })
 );
 
-/** Active game session - one per user, tracks current game state */
-export const gameSessions = pgTable("game_sessions", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id", { length: 128 }).unique().notNull(), // UNIQUE enforces one active session per user
-  board: varchar("board", { length: 81 }).notNull(),
-  solution: varchar("solution", { length: 81 }).notNull(),
-  level: integer("level").notNull(),
-  techniques: bigint("techniques", { mode: "number" }).default(0),
-  hintUsed: boolean("hint_used").notNull().default(false),
-  hintsCount: integer("hints_count").notNull().default(0),
-  hintPointsEarned: integer("hint_points_earned").notNull().default(0),
-  startedAt: timestamp("started_at").notNull().defaultNow(),
-  puzzleType: varchar("puzzle_type", { length: 20 }).notNull(), // 'daily', 'level'
-  puzzleId: varchar("puzzle_id", { length: 100 }), // date for daily, uuid for level
-});
+/** Open game sessions - one per user and puzzle, tracks game state and synced progress */
+export const gameSessions = pgTable(
+  "game_sessions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: varchar("user_id", { length: 128 }).notNull(),
+    board: varchar("board", { length: 81 }).notNull(),
+    solution: varchar("solution", { length: 81 }).notNull(),
+    level: integer("level").notNull(),
+    techniques: bigint("techniques", { mode: "number" }).default(0),
+    hintUsed: boolean("hint_used").notNull().default(false),
+    hintsCount: integer("hints_count").notNull().default(0),
+    hintPointsEarned: integer("hint_points_earned").notNull().default(0),
+    startedAt: timestamp("started_at").notNull().defaultNow(),
+    puzzleType: varchar("puzzle_type", { length: 20 }).notNull(), // 'daily', 'level'
+    puzzleId: varchar("puzzle_id", { length: 100 }), // date for daily, uuid for level
+    userInput: varchar("user_input", { length: 81 }), // latest synced user entries
+    pencilmarks: text("pencilmarks"), // latest synced pencilmarks (comma-delimited)
+    activeSeconds: integer("active_seconds").notNull().default(0), // accumulated play time across devices
+    pauseIntervals: jsonb("pause_intervals")
+      .$type<{ pausedAt: string; resumedAt: string | null }[]>()
+      .notNull()
+      .default([]), // recorded via /play/pause and /play/resume
+    progressUpdatedAt: timestamp("progress_updated_at"),
+  },
+  table => ({
+    // One open session per user and puzzle; the number of open sessions is capped in play routes
+    uniqueUserPuzzle: unique("game_sessions_user_puzzle_key").on(
+      table.userId,
+      table.puzzleType,
+      table.puzzleId
+    ),
+    userIdx: index("idx_game_sessions_user_id").on(table.userId),
+  })
+);
+
+/** First completion of each daily puzzle per user - source of the daily leaderboard */
+export const dailyCompletions = pgTable(
+  "daily_completions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: varchar("user_id", { length: 128 }).notNull(),
+    date: date("date").notNull(),
+    verifiedSeconds: integer("verified_seconds").notNull(), // server time minus recorded pauses
+    hintUsed: boolean("hint_used").notNull(),
+    hintsCount: integer("hints_count").notNull().default(0),
+    completedAt: timestamp("completed_at").defaultNow(),
+  },
+  table => ({
+    uniqueUserDate: unique().on(table.userId, table.date),
+    dateIdx: index("idx_daily_completions_date").on(
+      table.date,
+      table.hintUsed,
+      table.verifiedSeconds
+    ),
+  })
+);
 
 // =============================================================================
 // Communities Table
@@ -272,3 +402,82 @@ export const pointTransactions = pgTable("point_transactions", {
   metadata: jsonb("metadata"), // {level, puzzle_type, multipliers, etc.}
   createdAt: timestamp("created_at").defaultNow(),
 });
+
+// =============================================================================
+// API Keys Table
+// =============================================================================
+
+/** Scoped API keys for scripts and tools (only the SHA-256 hash is stored) */
+export const apiKeys = pgTable("api_keys", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: varchar("name", { length: 255 }).notNull(),
+  keyPrefix: varchar("key_prefix", { length: 16 }).notNull(), // "sjk_" + 8 chars, for display
+  keyHash: varchar("key_hash", { length: 64 }).notNull().unique(),
+  scopes: jsonb("scopes").$type<ApiKeyScope[]>().notNull(), // ['boards:write', 'solver:read']
+  ownerId: varchar("owner_id", { length: 128 }).notNull(), // Firebase UID of the responsible admin
+  expiresAt: timestamp("expires_at"), // null = never expires
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// =============================================================================
+// Admin Roles Tables
+// =============================================================================
+
+/** Admin roles - named sets of permissions (e.g., 'content_editor') */
+export const adminRoles = pgTable("admin_roles", {
+  name: varchar("name", { length: 50 }).primaryKey(),
+  description: text("description"),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull(), // ['boards:read', 'boards:write']
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/** Admin role assignments - one row per user and role */
+export const userRoles = pgTable(
+  "user_roles",
+  {
+    userId: varchar("user_id", { length: 128 }).notNull(), // Firebase UID
+    role: varchar("role", { length: 50 })
+      .notNull()
+      .references(() => adminRoles.name, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+    grantedBy: varchar("granted_by", { length: 128 }), // Firebase UID of the granting admin
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.userId, table.role] }),
+  })
+);
+
+// =============================================================================
+// Admin Audit Log Table
+// =============================================================================
+
+/** Admin audit log - one row per admin mutation, with before/after snapshots */
+export const adminAuditLog = pgTable(
+  "admin_audit_log",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    actorId: varchar("actor_id", { length: 128 }).notNull(), // Firebase UID (API key owner for key requests)
+    apiKeyId: uuid("api_key_id"), // set when the request used an API key
+    method: varchar("method", { length: 10 }).notNull(),
+    route: varchar("route", { length: 255 }).notNull(), // request path
+    entityType: varchar("entity_type", { length: 50 }).notNull(), // 'board', 'level', 'badge', ...
+    entityId: varchar("entity_id", { length: 128 }), // null for bulk operations
+    before: jsonb("before"), // null for creations
+    after: jsonb("after"), // null for deletions
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  table => ({
+    createdAtIdx: index("idx_admin_audit_log_created_at").on(table.createdAt),
+    entityIdx: index("idx_admin_audit_log_entity").on(
+      table.entityType,
+      table.entityId
+    ),
+    actorIdx: index("idx_admin_audit_log_actor").on(table.actorId),
+  })
+);
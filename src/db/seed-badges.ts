@@ -41,6 +41,49 @@ const GAMES_MILESTONES: Array<{
   { count: 10000, title: "Immortal", description: "Complete 10000 puzzles" },
 ];
 
+// Daily streak milestone names
+const STREAK_MILESTONES: Array<{
+  days: number;
+  title: string;
+  description: string;
+}> = [
+  {
+    days: 3,
+    title: "On a Roll",
+    description: "Complete the daily puzzle 3 days in a row",
+  },
+  {
+    days: 7,
+    title: "Week Warrior",
+    description: "Complete the daily puzzle 7 days in a row",
+  },
+  {
+    days: 14,
+    title: "Fortnight Focus",
+    description: "Complete the daily puzzle 14 days in a row",
+  },
+  {
+    days: 30,
+    title: "Monthly Devotee",
+    description: "Complete the daily puzzle 30 days in a row",
+  },
+  {
+    days: 60,
+    title: "Unstoppable",
+    description: "Complete the daily puzzle 60 days in a row",
+  },
+  {
+    days: 100,
+    title: "Centenarian",
+    description: "Complete the daily puzzle 100 days in a row",
+  },
+  {
+    days: 365,
+    title: "Year of Sudoku",
+    description: "Complete the daily puzzle 365 days in a row",
+  },
+];
+
 async function seedBadges() {
   const db = getDb();
 
@@ -58,6 +101,7 @@ async function seedBadges() {
           title: beltName,
           description: `Complete a Level ${level} puzzle without hints or interruptions`,
           requirementValue: level,
+          rule: { type: "level_perfect", level },
         })
         .onConflictDoNothing();
       console.log(`  Created badge: level_${level} (${beltName})`);
@@ -77,6 +121,7 @@ async function seedBadges() {
           title: milestone.title,
           description: milestone.description,
           requirementValue: milestone.count,
+          rule: { type: "games_completed", count: milestone.count },
         })
         .onConflictDoNothing();
       console.log(
@@ -89,6 +134,30 @@ async function seedBadges() {
     }
   }
 
+  // Daily streak badges
+  for (const milestone of STREAK_MILESTONES) {
+    try {
+      await db
+        .insert(badgeDefinitions)
+        .values({
+          badgeType: "daily_streak",
+          badgeKey: `streak_${milestone.days}`,
+          title: milestone.title,
+          description: milestone.description,
+          requirementValue: milestone.days,
+          rule: { type: "daily_streak", days: milestone.days },
+        })
+        .onConflictDoNothing();
+      console.log(
+        `  Created badge: streak_${milestone.days} (${milestone.title})`
+      );
+    } catch (_error) {
+      console.log(
+        `  Badge streak_${milestone.days} already exists, skipping...`
+      );
+    }
+  }
+
   console.log("Badge seeding complete!");
 }
 
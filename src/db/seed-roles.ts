@@ -0,0 +1,44 @@
+/**
+ * Seed script for the built-in admin roles
+ * Existing roles are left unchanged, so edits made via the admin API survive.
+ *
+ * Run with: bun run src/db/seed-roles.ts
+ */
+
+import { getDb, closeDatabase } from "./index";
+import { adminRoles } from "./schema";
+import { DEFAULT_ROLES } from "../services/roles";
+
+async function seedRoles() {
+  const db = getDb();
+
+  console.log("Seeding admin roles...");
+
+  for (const role of DEFAULT_ROLES) {
+    const created = await db
+      .insert(adminRoles)
+      .values(role)
+      .onConflictDoNothing()
+      .returning({ name: adminRoles.name });
+    console.log(
+      created.length > 0
+        ? `  Created role: ${role.name}`
+        : `  Role ${role.name} already exists, skipping...`
+    );
+  }
+
+  console.log("Role seeding complete!");
+}
+
+async function main() {
+  try {
+    await seedRoles();
+  } catch (error) {
+    console.error("Error seeding roles:", error);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main();
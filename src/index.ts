@@ -1,39 +1,39 @@
 /**
  * @fileoverview Sudojo API entry point
  *
- * Sets up the Hono application with middleware, health checks, API routes,
- * global error handling, and graceful shutdown. Initializes the database
- * before accepting requests.
+ * Sets up the Hono application with middleware, health checks, metrics, API routes,
+ * global error handling, and graceful shutdown. Refuses to start while
+ * database migrations are pending (run them with `bun run db:migrate` as a
+ * deploy step), unless MIGRATE_ON_START=true makes it apply them itself.
  */
 
 import { Hono } from "hono";
 import { cors } from "hono/cors";
-import { logger } from "hono/logger";
-import { initDatabase, initGamificationTables, closeDatabase } from "./db";
+import { closeDatabase } from "./db";
+import { assertNoPendingMigrations, migrate } from "./db/migrator";
 import routes from "./routes";
-import {
-  successResponse,
-  errorResponse,
-  type HealthCheckData,
-} from "@sudobility/sudojo_types";
+import healthRouter, { healthResponse } from "./routes/health";
+import metricsRouter from "./routes/metrics";
+import { successResponse, errorResponse } from "@sudobility/sudojo_types";
 import { getEnv } from "./lib/env-helper";
 import { encryptSolutionsMiddleware } from "./middleware/encryptSolutions";
+import { requestContextMiddleware } from "./middleware/requestContext";
+import { httpMetricsMiddleware } from "./middleware/metrics";
+import { logger } from "./lib/logger";
 
 const app = new Hono();
 
 // Middleware
-app.use("*", logger());
+app.use("*", requestContextMiddleware);
+app.use("*", httpMetricsMiddleware);
 app.use("*", cors());
 
 // Health check endpoints
-const healthResponse: HealthCheckData = {
-  name: "Sudojo API",
-  version: "1.0.0",
-  status: "healthy",
-};
-
 app.get("/", c => c.json(successResponse(healthResponse)));
-app.get("/health", c => c.json(successResponse(healthResponse)));
+app.route("/health", healthRouter);
+
+// Prometheus metrics
+app.route("/metrics", metricsRouter);
 
 // Encrypt solution fields in GET responses
 app.use("/api/v1/*", encryptSolutionsMiddleware);
@@ -47,7 +47,7 @@ app.route("/api/v1", routes);
  * and returns a consistent 500 response.
  */
 app.onError((err, c) => {
-  console.error("Unhandled error:", err);
+  logger.error("Unhandled error", { error: err });
   return c.json(errorResponse("Internal server error"), 500);
 });
 
@@ -61,13 +61,14 @@ app.notFound(c => {
 // Initialize database and start server
 const port = parseInt(getEnv("PORT", "3000")!);
 
-initDatabase()
-  .then(() => initGamificationTables())
+const migrateOnStart = getEnv("MIGRATE_ON_START", "false") === "true";
+
+(migrateOnStart ? migrate() : assertNoPendingMigrations())
   .then(() => {
-    console.log(`Server running on http://localhost:${port}`);
+    logger.info("Server running", { port });
   })
   .catch(err => {
-    console.error("Failed to initialize database:", err);
+    logger.error("Failed to initialize database", { error: err });
     process.exit(1);
   });
 
@@ -76,14 +77,14 @@ initDatabase()
  * Closes the database connection when the process receives SIGTERM or SIGINT.
  */
 function handleShutdown(signal: string) {
-  console.log(`Received ${signal}. Shutting down gracefully...`);
+  logger.info("Shutting down gracefully", { signal });
   closeDatabase()
     .then(() => {
-      console.log("Database connection closed.");
+      logger.info("Database connection closed");
       process.exit(0);
     })
     .catch(err => {
-      console.error("Error during shutdown:", err);
+      logger.error("Error during shutdown", { error: err });
       process.exit(1);
     });
 }
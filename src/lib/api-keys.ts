@@ -0,0 +1,48 @@
+/**
+ * @fileoverview API key format, hashing and scopes.
+ *
+ * Keys look like `sjk_<43 base64url chars>`. Only the SHA-256 hash is stored;
+ * the first characters are kept as a prefix so admins can tell keys apart.
+ *
+ * Scopes are permissions (see permissions.ts): the route modules the key
+ * may read or write (e.g., `boards:write` for POST /api/v1/boards).
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { PERMISSIONS, type Permission } from "./permissions";
+
+/** Prefix of every API key */
+export const API_KEY_PREFIX = "sjk_";
+
+/** Characters of the key kept in clear for display */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+/** API key scopes are permissions (e.g., `boards:write`) */
+export type ApiKeyScope = Permission;
+
+/** Every grantable scope */
+export const API_KEY_SCOPES = PERMISSIONS;
+
+/**
+ * Generate a new random API key.
+ * @returns The raw key (shown once), its hash and its display prefix
+ */
+export function generateApiKey(): {
+  key: string;
+  hash: string;
+  prefix: string;
+} {
+  const key = API_KEY_PREFIX + randomBytes(32).toString("base64url");
+  return {
+    key,
+    hash: hashApiKey(key),
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+/**
+ * Hash a raw API key for storage and lookup (hex SHA-256).
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Retry backoff.
+ *
+ * Exponential backoff with full jitter: the delay before retry n is drawn
+ * uniformly from [0, min(maxDelayMs, baseDelayMs * 2^(n-1))], so clients
+ * retrying after the same failure spread out instead of arriving together.
+ */
+
+export interface BackoffConfig {
+  /** Upper bound of the first retry's delay (ms) */
+  baseDelayMs: number;
+  /** Upper bound of any delay (ms) */
+  maxDelayMs: number;
+}
+
+/**
+ * Delay before a retry.
+ * @param retry - Retry number, starting at 1
+ * @param random - Source of uniform numbers in [0, 1) (for tests)
+ * @returns Delay in ms
+ */
+export function backoffDelay(
+  retry: number,
+  config: BackoffConfig,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(
+    config.maxDelayMs,
+    config.baseDelayMs * 2 ** Math.max(0, retry - 1)
+  );
+  return Math.round(random() * ceiling);
+}
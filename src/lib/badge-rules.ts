@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Declarative badge rules.
+ *
+ * Each badge definition carries a rule (badge_definitions.rule) describing
+ * when it is earned. Rules are evaluated against a snapshot of the user's
+ * progress, optionally including the game that was just completed, so new
+ * badges can be added through the admin API without code changes.
+ */
+
+/** Badge earning rules, discriminated by `type` */
+export type BadgeRule =
+  /** Total points reaches a threshold */
+  | { type: "points_threshold"; points: number }
+  /** Number of completed games reaches a threshold */
+  | { type: "games_completed"; count: number }
+  /** A puzzle of the given level completed without hints or interruptions */
+  | { type: "level_perfect"; level: number }
+  /** Consecutive days with a completed daily puzzle */
+  | { type: "daily_streak"; days: number }
+  /** Consecutive completed games without hints */
+  | { type: "hint_free_streak"; count: number }
+  /** Hint-free completions of puzzles requiring a technique */
+  | { type: "technique_mastery"; technique: number; count: number }
+  /** A puzzle of the given level solved in under `seconds` (verified time) */
+  | { type: "solve_time"; level: number; seconds: number };
+
+export type BadgeRuleType = BadgeRule["type"];
+
+/** The game just completed, for rules about a single game */
+export interface CompletedGame {
+  level: number;
+  hintUsed: boolean;
+  /** No hints and no interruptions */
+  perfectPlay: boolean;
+  /** Server-verified solve time, excluding pauses */
+  verifiedSeconds: number;
+}
+
+/** Snapshot of a user's progress that rules are evaluated against */
+export interface BadgeProgress {
+  totalPoints: number;
+  gamesCompleted: number;
+  currentStreak: number;
+  hintFreeStreak: number;
+  /** Hint-free completions per technique (only techniques rules refer to) */
+  techniqueSolves: Map<number, number>;
+  /** The game just completed, if any */
+  game?: CompletedGame;
+}
+
+/** Badge types seeded before rules existed, mapped from requirement_value */
+const LEGACY_RULES: Record<string, (value: number) => BadgeRule> = {
+  level_mastery: value => ({ type: "level_perfect", level: value }),
+  games_played: value => ({ type: "games_completed", count: value }),
+  daily_streak: value => ({ type: "daily_streak", days: value }),
+};
+
+/**
+ * Get the rule of a badge definition.
+ * Definitions without a rule fall back to their legacy badge type.
+ * @returns The rule, or null if the badge cannot be earned automatically
+ */
+export function resolveBadgeRule(definition: {
+  badgeType: string;
+  requirementValue: number | null;
+  rule: BadgeRule | null;
+}): BadgeRule | null {
+  if (definition.rule) {
+    return definition.rule;
+  }
+  const legacy = LEGACY_RULES[definition.badgeType];
+  if (!legacy || definition.requirementValue === null) {
+    return null;
+  }
+  return legacy(definition.requirementValue);
+}
+
+/** Check whether a rule is satisfied by a user's progress */
+export function isRuleSatisfied(
+  rule: BadgeRule,
+  progress: BadgeProgress
+): boolean {
+  const game = progress.game;
+  switch (rule.type) {
+    case "points_threshold":
+      return progress.totalPoints >= rule.points;
+    case "games_completed":
+      return progress.gamesCompleted >= rule.count;
+    case "level_perfect":
+      return !!game && game.perfectPlay && game.level === rule.level;
+    case "daily_streak":
+      return progress.currentStreak >= rule.days;
+    case "hint_free_streak":
+      return progress.hintFreeStreak >= rule.count;
+    case "technique_mastery":
+      return (progress.techniqueSolves.get(rule.technique) ?? 0) >= rule.count;
+    case "solve_time":
+      return (
+        !!game &&
+        game.level === rule.level &&
+        game.verifiedSeconds < rule.seconds
+      );
+  }
+}
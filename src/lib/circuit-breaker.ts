@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Circuit breaker state for an unreliable dependency.
+ *
+ * A circuit is closed while the dependency works. After `failureThreshold`
+ * consecutive failures it opens and requests fail fast for `cooldownMs`.
+ * Once the cooldown has passed it is half-open: requests go through again,
+ * the first success closes it and a failure reopens it for another cooldown.
+ */
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit rejects requests (ms) */
+  cooldownMs: number;
+}
+
+export interface CircuitState {
+  consecutiveFailures: number;
+  /** When the circuit last opened (ms since epoch), or null when closed */
+  openedAt: number | null;
+}
+
+export type CircuitStatus = "closed" | "open" | "half_open";
+
+/** State of a new (closed) circuit */
+export const CLOSED_CIRCUIT: CircuitState = {
+  consecutiveFailures: 0,
+  openedAt: null,
+};
+
+/**
+ * Get the status of a circuit.
+ * @param now - Current time (ms since epoch)
+ */
+export function getCircuitStatus(
+  state: CircuitState,
+  config: CircuitBreakerConfig,
+  now: number
+): CircuitStatus {
+  if (state.openedAt === null) {
+    return "closed";
+  }
+  return now - state.openedAt < config.cooldownMs ? "open" : "half_open";
+}
+
+/**
+ * Whether a request may be sent (the circuit is not open).
+ */
+export function isRequestAllowed(
+  state: CircuitState,
+  config: CircuitBreakerConfig,
+  now: number
+): boolean {
+  return getCircuitStatus(state, config, now) !== "open";
+}
+
+/**
+ * Record a successful request: closes the circuit.
+ */
+export function recordSuccess(): CircuitState {
+  return CLOSED_CIRCUIT;
+}
+
+/**
+ * Record a failed request: opens the circuit at the threshold, or reopens
+ * a half-open one.
+ */
+export function recordFailure(
+  state: CircuitState,
+  config: CircuitBreakerConfig,
+  now: number
+): CircuitState {
+  const consecutiveFailures = state.consecutiveFailures + 1;
+  const status = getCircuitStatus(state, config, now);
+  if (status === "open") {
+    // A request sent before the circuit opened; keep the original cooldown
+    return { consecutiveFailures, openedAt: state.openedAt };
+  }
+  const opens =
+    status === "half_open" || consecutiveFailures >= config.failureThreshold;
+  return { consecutiveFailures, openedAt: opens ? now : null };
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Client IP resolution behind reverse proxies.
+ *
+ * Each proxy appends the address it received the request from to
+ * X-Forwarded-For, so only the rightmost entries (one per trusted proxy)
+ * are reliable; anything to their left was sent by the client and can be
+ * spoofed. With n trusted proxies, the client IP is the n-th address
+ * counting from the socket address through X-Forwarded-For right to left.
+ */
+
+/**
+ * Resolve the client IP.
+ * @param forwardedFor - X-Forwarded-For header value, if any
+ * @param socketAddress - Address of the peer that opened the connection
+ * @param trustedProxies - Number of proxies in front of the server (0 when
+ *   clients connect directly)
+ * @returns The client IP, or "unknown" if no address is available
+ */
+export function resolveClientIp(
+  forwardedFor: string | undefined,
+  socketAddress: string | undefined,
+  trustedProxies: number
+): string {
+  const forwarded = (forwardedFor ?? "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+  // Nearest hop first: the socket peer, then X-Forwarded-For right to left
+  const hops = [socketAddress ?? "", ...forwarded.reverse()];
+  const index = Math.min(Math.max(0, trustedProxies), hops.length - 1);
+  return hops[index] || "unknown";
+}
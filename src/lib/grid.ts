@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Helpers for 81-character Sudoku grid strings.
+ *
+ * Grids are stored row-major as 81 characters. Digits 1-9 are filled cells;
+ * any other character (typically "0") is an empty cell.
+ */
+
+/** Number of cells in a Sudoku grid */
+export const GRID_CELLS = 81;
+
+/** Whether a grid cell holds a placed digit */
+function isFilled(cell: string): boolean {
+  return cell >= "1" && cell <= "9";
+}
+
+/**
+ * Check that a user grid does not overwrite any given of the original board.
+ * Cells that are given in `board` must be empty or identical in `user`.
+ */
+export function preservesGivens(board: string, user: string): boolean {
+  if (board.length !== GRID_CELLS || user.length !== GRID_CELLS) {
+    return false;
+  }
+  for (let i = 0; i < GRID_CELLS; i++) {
+    if (isFilled(board[i]!) && isFilled(user[i]!) && board[i] !== user[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Merge user input into the original board.
+ * Givens take precedence; empty cells in both remain "0".
+ */
+export function mergeGrid(board: string, user: string): string {
+  let merged = "";
+  for (let i = 0; i < GRID_CELLS; i++) {
+    const given = board[i] ?? "0";
+    const entry = user[i] ?? "0";
+    if (isFilled(given)) {
+      merged += given;
+    } else if (isFilled(entry)) {
+      merged += entry;
+    } else {
+      merged += "0";
+    }
+  }
+  return merged;
+}
+
+/**
+ * Check whether a grid is completely filled and equal to the solution.
+ */
+export function isSolvedGrid(grid: string, solution: string): boolean {
+  return grid.length === GRID_CELLS && grid === solution;
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Dependency checks for the readiness endpoint.
+ *
+ * Each check is timed and bounded by a timeout. An instance is ready when
+ * every critical dependency is up; a failing non-critical dependency only
+ * degrades it (the endpoints depending on it fail, the rest still work).
+ */
+
+/** Result of one dependency check */
+export interface DependencyCheck {
+  status: "up" | "down" | "not_configured";
+  /** Whether the instance is not ready without this dependency */
+  critical: boolean;
+  latencyMs: number;
+  /** Why the check failed */
+  error?: string;
+}
+
+export type ReadinessStatus = "ready" | "degraded" | "not_ready";
+
+/**
+ * Run a dependency check with a timeout.
+ * @param check - Resolves "up", or "not_configured" for an optional
+ *   dependency that is not set up; rejects if the dependency is down
+ */
+export async function runDependencyCheck(
+  check: () => Promise<"up" | "not_configured">,
+  options: { critical: boolean; timeoutMs: number }
+): Promise<DependencyCheck> {
+  const startedAt = Date.now();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`Timed out after ${options.timeoutMs}ms`)),
+      options.timeoutMs
+    );
+  });
+
+  try {
+    const status = await Promise.race([check(), timeout]);
+    return {
+      status,
+      critical: options.critical,
+      latencyMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      status: "down",
+      critical: options.critical,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Overall readiness: not_ready if a critical dependency is down, degraded
+ * if only non-critical ones are, ready otherwise. Unconfigured optional
+ * dependencies do not count as down.
+ */
+export function getReadinessStatus(
+  checks: Record<string, DependencyCheck>
+): ReadinessStatus {
+  const down = Object.values(checks).filter(check => check.status === "down");
+  if (down.some(check => check.critical)) {
+    return "not_ready";
+  }
+  return down.length > 0 ? "degraded" : "ready";
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Structured JSON logger.
+ *
+ * Each entry is one JSON line: `{ time, level, msg, ...context, ...fields }`.
+ * The context (request ID, method, path, user ID) is carried through the
+ * request with AsyncLocalStorage, so services log it without it being
+ * passed around. Entries below LOG_LEVEL (default "info") are dropped.
+ *
+ * Puzzle payloads (boards, solutions, pencilmarks, images) and credentials
+ * are redacted from fields and URL query strings.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { getEnv } from "./env-helper";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Logger adding `fields` to every entry */
+  child(fields: LogFields): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/** Field and query parameter names whose values are never logged */
+const REDACTED_KEYS = new Set([
+  "board",
+  "solution",
+  "original",
+  "user",
+  "userinput",
+  "pencilmarks",
+  "image",
+  "token",
+  "idtoken",
+  "authorization",
+  "apikey",
+  "x-api-key",
+  "api_key",
+  "password",
+  "privatekey",
+]);
+
+const REDACTED = "[REDACTED]";
+
+/** Nesting depth beyond which values are not serialized */
+const MAX_DEPTH = 6;
+
+function isRedactedKey(key: string): boolean {
+  return REDACTED_KEYS.has(key.toLowerCase());
+}
+
+/**
+ * Copy a value for logging: redacts sensitive keys at any depth and turns
+ * errors into `{ name, message, stack }`.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[Truncated]";
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = isRedactedKey(key) ? REDACTED : redact(item, depth + 1);
+  }
+  return copy;
+}
+
+/**
+ * Redact sensitive query parameters of a URL (absolute or relative).
+ */
+export function redactUrl(url: string): string {
+  const queryStart = url.indexOf("?");
+  if (queryStart === -1) {
+    return url;
+  }
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  for (const key of [...params.keys()]) {
+    if (isRedactedKey(key)) {
+      params.set(key, REDACTED);
+    }
+  }
+  return `${url.slice(0, queryStart)}?${params.toString()}`;
+}
+
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run `fn` with `fields` added to every entry logged during it (including
+ * from async work it starts).
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/**
+ * Add fields (e.g., the authenticated user ID) to the current context.
+ * No-op outside withLogContext.
+ */
+export function addLogContext(fields: LogFields): void {
+  const store = logContext.getStore();
+  if (store) {
+    Object.assign(store, fields);
+  }
+}
+
+/**
+ * Fields of the current context (e.g., to forward the request ID to
+ * another service). Empty outside withLogContext.
+ */
+export function getLogContext(): LogFields {
+  return { ...logContext.getStore() };
+}
+
+function parseLevel(value: string | undefined): LogLevel {
+  const level = value?.toLowerCase();
+  return level && level in LEVEL_ORDER ? (level as LogLevel) : "info";
+}
+
+/**
+ * Create a logger.
+ * @param options.level - Minimum level written (default: LOG_LEVEL or "info")
+ * @param options.write - Output for one JSON line (default: stdout, stderr for errors)
+ */
+export function createLogger(
+  options: {
+    level?: LogLevel;
+    write?: (line: string, level: LogLevel) => void;
+    fields?: LogFields;
+  } = {}
+): Logger {
+  const minLevel =
+    LEVEL_ORDER[options.level ?? parseLevel(getEnv("LOG_LEVEL"))];
+  const write =
+    options.write ??
+    ((line: string, level: LogLevel) =>
+      level === "error" ? console.error(line) : console.log(line));
+  const baseFields = options.fields ?? {};
+
+  const log = (level: LogLevel, msg: string, fields?: LogFields) => {
+    if (LEVEL_ORDER[level] < minLevel) {
+      return;
+    }
+    const entry = redact({
+      ...logContext.getStore(),
+      ...baseFields,
+      ...fields,
+    }) as LogFields;
+    write(
+      JSON.stringify({ time: new Date().toISOString(), level, msg, ...entry }),
+      level
+    );
+  };
+
+  return {
+    debug: (msg, fields) => log("debug", msg, fields),
+    info: (msg, fields) => log("info", msg, fields),
+    warn: (msg, fields) => log("warn", msg, fields),
+    error: (msg, fields) => log("error", msg, fields),
+    child: fields =>
+      createLogger({
+        level: options.level,
+        write: options.write,
+        fields: { ...baseFields, ...fields },
+      }),
+  };
+}
+
+/** Application logger */
+export const logger = createLogger();
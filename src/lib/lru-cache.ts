@@ -0,0 +1,91 @@
+/**
+ * @fileoverview In-memory LRU cache with per-entry expiry.
+ *
+ * Entries live in a Map, whose insertion order doubles as recency order:
+ * a read moves the entry to the end, and when the cache is full the first
+ * (least recently used) entry is evicted. Expired entries are dropped when
+ * read.
+ */
+
+export interface LruCache<V> {
+  /**
+   * Get a live entry and mark it recently used.
+   * @param now - Current time (ms since epoch)
+   */
+  get(key: string, now: number): V | undefined;
+  /**
+   * Add or replace an entry, evicting the least recently used if full.
+   * @param expiresAt - When the entry expires (ms since epoch)
+   */
+  set(key: string, value: V, expiresAt: number): void;
+  delete(key: string): boolean;
+  /**
+   * Delete the entries whose value matches.
+   * @returns Number of entries deleted
+   */
+  deleteWhere(predicate: (value: V) => boolean): number;
+  /** @returns Number of entries deleted */
+  clear(): number;
+  /** Number of entries, including expired ones not yet dropped */
+  readonly size: number;
+}
+
+/**
+ * Create an empty cache.
+ * @param maxEntries - Capacity (at least 1)
+ */
+export function createLruCache<V>(maxEntries: number): LruCache<V> {
+  const capacity = Math.max(1, maxEntries);
+  const entries = new Map<string, { value: V; expiresAt: number }>();
+
+  return {
+    get(key, now) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      entries.delete(key);
+      if (entry.expiresAt <= now) {
+        return undefined;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, expiresAt) {
+      entries.delete(key);
+      if (entries.size >= capacity) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) {
+          entries.delete(oldest);
+        }
+      }
+      entries.set(key, { value, expiresAt });
+    },
+
+    delete(key) {
+      return entries.delete(key);
+    },
+
+    deleteWhere(predicate) {
+      let deleted = 0;
+      for (const [key, entry] of entries) {
+        if (predicate(entry.value)) {
+          entries.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+
+    clear() {
+      const deleted = entries.size;
+      entries.clear();
+      return deleted;
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
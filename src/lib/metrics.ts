@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Prometheus metrics registry.
+ *
+ * Counters, gauges and histograms kept in memory and rendered in the
+ * Prometheus text exposition format (version 0.0.4). Each series is
+ * identified by its label values; keep labels to small, fixed sets (route
+ * patterns, not raw paths) so the number of series stays bounded.
+ */
+
+export type Labels = Record<string, string | number>;
+
+export interface Counter {
+  /** Add `value` (default 1, must not be negative) */
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels | undefined, value: number): void;
+  /** Remove every series (e.g., before refreshing them all) */
+  reset(): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels | undefined, value: number): void;
+  /**
+   * Start a timer.
+   * @returns Function observing the elapsed seconds, with its labels
+   */
+  startTimer(): (labels?: Labels) => number;
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string, labelNames?: string[]): Counter;
+  gauge(name: string, help: string, labelNames?: string[]): Gauge;
+  histogram(
+    name: string,
+    help: string,
+    labelNames?: string[],
+    buckets?: number[]
+  ): Histogram;
+  /** Register a function refreshing gauges before each render */
+  addCollector(collect: () => Promise<void> | void): void;
+  /** Run the collectors and render every metric */
+  render(): Promise<string>;
+}
+
+/** Content type of the text exposition format */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Histogram buckets for request latencies, in seconds */
+export const DEFAULT_LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/** Prometheus spelling of a sample value */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (value === Infinity) {
+    return "+Inf";
+  }
+  if (value === -Infinity) {
+    return "-Inf";
+  }
+  return String(value);
+}
+
+/** `{a="1",b="2"}`, or "" without labels */
+function formatLabels(names: string[], values: string[]): string {
+  if (names.length === 0) {
+    return "";
+  }
+  const pairs = names.map(
+    (name, i) => `${name}="${escapeLabelValue(values[i]!)}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+/**
+ * Label values in `labelNames` order.
+ * @throws Error if a label is missing or not declared
+ */
+function labelValues(
+  metric: string,
+  labelNames: string[],
+  labels: Labels = {}
+): string[] {
+  for (const name of Object.keys(labels)) {
+    if (!labelNames.includes(name)) {
+      throw new Error(`Metric ${metric} has no label "${name}"`);
+    }
+  }
+  return labelNames.map(name => {
+    const value = labels[name];
+    if (value === undefined) {
+      throw new Error(`Metric ${metric} is missing label "${name}"`);
+    }
+    return String(value);
+  });
+}
+
+function validateNames(name: string, labelNames: string[]): void {
+  if (!METRIC_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid metric name: ${name}`);
+  }
+  for (const label of labelNames) {
+    if (!LABEL_NAME_PATTERN.test(label) || label === "le") {
+      throw new Error(`Invalid label name for ${name}: ${label}`);
+    }
+  }
+}
+
+interface HistogramSeries {
+  labels: string[];
+  /** Observations per bucket (not cumulative) */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Create an empty registry.
+ */
+export function createMetricsRegistry(): MetricsRegistry {
+  const renderers: (() => string)[] = [];
+  const collectors: (() => Promise<void> | void)[] = [];
+  const names = new Set<string>();
+
+  const register = (name: string, labelNames: string[]) => {
+    validateNames(name, labelNames);
+    if (names.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    names.add(name);
+  };
+
+  const header = (name: string, help: string, type: string) =>
+    `# HELP ${name} ${escapeHelp(help)}\n# TYPE ${name} ${type}\n`;
+
+  const simpleMetric = (
+    name: string,
+    help: string,
+    type: "counter" | "gauge",
+    labelNames: string[]
+  ) => {
+    register(name, labelNames);
+    const series = new Map<string, { labels: string[]; value: number }>();
+    renderers.push(() => {
+      let text = header(name, help, type);
+      for (const { labels, value } of series.values()) {
+        text += `${name}${formatLabels(labelNames, labels)} ${formatValue(value)}\n`;
+      }
+      return text;
+    });
+    const get = (labels: Labels | undefined) => {
+      const values = labelValues(name, labelNames, labels);
+      const key = JSON.stringify(values);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels: values, value: 0 };
+        series.set(key, entry);
+      }
+      return entry;
+    };
+    return { series, get };
+  };
+
+  return {
+    counter(name, help, labelNames = []) {
+      const { get } = simpleMetric(name, help, "counter", labelNames);
+      return {
+        inc(labels, value = 1) {
+          if (value < 0) {
+            throw new Error(`Counter ${name} cannot decrease`);
+          }
+          get(labels).value += value;
+        },
+      };
+    },
+
+    gauge(name, help, labelNames = []) {
+      const { series, get } = simpleMetric(name, help, "gauge", labelNames);
+      return {
+        set(labels, value) {
+          get(labels).value = value;
+        },
+        reset() {
+          series.clear();
+        },
+      };
+    },
+
+    histogram(name, help, labelNames = [], buckets = DEFAULT_LATENCY_BUCKETS) {
+      register(name, labelNames);
+      const bounds = [...new Set(buckets)].sort((a, b) => a - b);
+      const series = new Map<string, HistogramSeries>();
+
+      renderers.push(() => {
+        let text = header(name, help, "histogram");
+        for (const entry of series.values()) {
+          let cumulative = 0;
+          bounds.forEach((bound, i) => {
+            cumulative += entry.counts[i]!;
+            text += `${name}_bucket${formatLabels(
+              [...labelNames, "le"],
+              [...entry.labels, formatValue(bound)]
+            )} ${cumulative}\n`;
+          });
+          text += `${name}_bucket${formatLabels(
+            [...labelNames, "le"],
+            [...entry.labels, "+Inf"]
+          )} ${entry.count}\n`;
+          const labels = formatLabels(labelNames, entry.labels);
+          text += `${name}_sum${labels} ${formatValue(entry.sum)}\n`;
+          text += `${name}_count${labels} ${entry.count}\n`;
+        }
+        return text;
+      });
+
+      const observe = (labels: Labels | undefined, value: number) => {
+        const values = labelValues(name, labelNames, labels);
+        const key = JSON.stringify(values);
+        let entry = series.get(key);
+        if (!entry) {
+          entry = {
+            labels: values,
+            counts: bounds.map(() => 0),
+            sum: 0,
+            count: 0,
+          };
+          series.set(key, entry);
+        }
+        const bucket = bounds.findIndex(bound => value <= bound);
+        if (bucket !== -1) {
+          entry.counts[bucket]! += 1;
+        }
+        entry.sum += value;
+        entry.count += 1;
+      };
+
+      return {
+        observe,
+        startTimer() {
+          const startedAt = performance.now();
+          return labels => {
+            const seconds = (performance.now() - startedAt) / 1000;
+            observe(labels, seconds);
+            return seconds;
+          };
+        },
+      };
+    },
+
+    addCollector(collect) {
+      collectors.push(collect);
+    },
+
+    async render() {
+      await Promise.all(collectors.map(collect => collect()));
+      return renderers.map(render => render()).join("");
+    },
+  };
+}
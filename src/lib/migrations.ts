@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Migration planning.
+ *
+ * Migrations are numbered from 1 and applied in order; the versions already
+ * applied are recorded in the schema_migrations table. These helpers decide
+ * which migrations to run (up) or revert (down) without touching the
+ * database.
+ */
+
+/** Anything with a migration version number */
+export interface Versioned {
+  version: number;
+  /** Set on migrations that cannot be reverted (e.g., the baseline) */
+  irreversible?: boolean;
+}
+
+/**
+ * Check that migration versions are positive, unique and ascending.
+ * @throws Error naming the first offending version
+ */
+export function validateMigrations(migrations: Versioned[]): void {
+  let previous = 0;
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= 0) {
+      throw new Error(`Invalid migration version: ${migration.version}`);
+    }
+    if (migration.version <= previous) {
+      throw new Error(
+        `Migration ${migration.version} is out of order or duplicated`
+      );
+    }
+    previous = migration.version;
+  }
+}
+
+/**
+ * Migrations to apply, in order, to reach `target` (default: the latest).
+ * @param applied - Versions already applied
+ * @throws Error if an applied version is unknown (e.g., a newer release
+ *   migrated the database)
+ */
+export function planMigrations<T extends Versioned>(
+  migrations: T[],
+  applied: number[],
+  target?: number
+): T[] {
+  assertKnown(migrations, applied);
+  const done = new Set(applied);
+  return migrations.filter(
+    migration =>
+      !done.has(migration.version) &&
+      (target === undefined || migration.version <= target)
+  );
+}
+
+/**
+ * Migrations to revert, newest first, to undo the last `steps` applied.
+ * @param applied - Versions already applied
+ * @throws Error if the rollback would reach an irreversible migration; the
+ *   check happens before anything is reverted
+ */
+export function planRollback<T extends Versioned>(
+  migrations: T[],
+  applied: number[],
+  steps: number
+): T[] {
+  assertKnown(migrations, applied);
+  const done = new Set(applied);
+  const plan = migrations
+    .filter(migration => done.has(migration.version))
+    .reverse()
+    .slice(0, Math.max(0, steps));
+  const blocked = plan.find(migration => migration.irreversible);
+  if (blocked) {
+    throw new Error(
+      `Migration ${blocked.version} cannot be rolled back; revert at most ${plan.indexOf(blocked)} migration(s)`
+    );
+  }
+  return plan;
+}
+
+function assertKnown(migrations: Versioned[], applied: number[]): void {
+  const known = new Set(migrations.map(migration => migration.version));
+  const unknown = applied.filter(version => !known.has(version));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database has migrations this release does not know about: ${unknown.join(", ")}`
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Admin permissions.
+ *
+ * Permissions are `<resource>:<read|write>`, where the resource is a route
+ * module (e.g., `boards:write` allows POST/PUT/DELETE under /api/v1/boards).
+ * Admin roles and API key scopes are both lists of permissions.
+ */
+
+/** Route modules that permissions can be granted on */
+export const PERMISSION_RESOURCES = [
+  "levels",
+  "techniques",
+  "strategies",
+  "learning",
+  "boards",
+  "dailies",
+  "challenges",
+  "examples",
+  "practices",
+  "gamification",
+  "communities",
+  "access",
+  "solver",
+] as const;
+
+export type PermissionResource = (typeof PERMISSION_RESOURCES)[number];
+
+export type Permission = `${PermissionResource}:${"read" | "write"}`;
+
+/** Every grantable permission */
+export const PERMISSIONS: readonly Permission[] = PERMISSION_RESOURCES.flatMap(
+  resource => [`${resource}:read`, `${resource}:write`] as const
+);
+
+/**
+ * Get the permission needed to call a route: its route module and whether
+ * the method reads or writes.
+ * @param path - Request path (e.g., "/api/v1/boards/123")
+ * @param method - HTTP method
+ * @returns The permission, or null if the path is not a grantable route
+ *   module (only super admins may call it)
+ */
+export function permissionForRequest(
+  path: string,
+  method: string
+): Permission | null {
+  const resource = path.replace(/^\/api\/v1\//, "").split("/")[0];
+  if (!PERMISSION_RESOURCES.includes(resource as PermissionResource)) {
+    return null;
+  }
+  const access = ["GET", "HEAD"].includes(method.toUpperCase())
+    ? "read"
+    : "write";
+  return `${resource as PermissionResource}:${access}`;
+}
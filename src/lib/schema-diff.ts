@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Comparison of the live database schema with schema.ts.
+ *
+ * Both sides are reduced to tables of columns with a normalized SQL type
+ * and nullability, so Drizzle's type names (`varchar(255)`, `timestamp`,
+ * `serial`) compare equal to what Postgres reports (`character varying(255)`,
+ * `timestamp without time zone`, `integer`).
+ */
+
+export interface ColumnShape {
+  /** SQL type, in either Drizzle or Postgres spelling */
+  type: string;
+  notNull: boolean;
+}
+
+/** Columns by name, by table name */
+export type SchemaShape = Record<string, Record<string, ColumnShape>>;
+
+export interface SchemaDifference {
+  table: string;
+  column?: string;
+  issue:
+    | "missing_table"
+    | "extra_table"
+    | "missing_column"
+    | "extra_column"
+    | "type"
+    | "nullability";
+  /** What schema.ts declares */
+  expected?: string;
+  /** What the database has */
+  actual?: string;
+}
+
+const TYPE_ALIASES: Record<string, string> = {
+  "timestamp without time zone": "timestamp",
+  "timestamp with time zone": "timestamptz",
+  "time without time zone": "time",
+  float8: "double precision",
+  float4: "real",
+  int4: "integer",
+  int8: "bigint",
+  int: "integer",
+  serial: "integer",
+  bigserial: "bigint",
+  bool: "boolean",
+};
+
+/**
+ * Normalize a SQL type name (e.g., `character varying(81)` -> `varchar(81)`).
+ */
+export function normalizeSqlType(type: string): string {
+  const lower = type.trim().toLowerCase().replace(/\s+/g, " ");
+  const varchar = /^(?:character varying|varchar)\s*\((\d+)\)$/.exec(lower);
+  if (varchar) {
+    return `varchar(${varchar[1]})`;
+  }
+  if (lower === "character varying") {
+    return "varchar";
+  }
+  return TYPE_ALIASES[lower] ?? lower;
+}
+
+/**
+ * List the differences between the schema declared in code and the live
+ * database, sorted by table and column.
+ * @param ignoreTables - Live tables not declared in code (e.g., schema_migrations)
+ */
+export function diffSchema(
+  expected: SchemaShape,
+  actual: SchemaShape,
+  ignoreTables: string[] = []
+): SchemaDifference[] {
+  const differences: SchemaDifference[] = [];
+
+  for (const [table, columns] of Object.entries(expected)) {
+    const liveColumns = actual[table];
+    if (!liveColumns) {
+      differences.push({ table, issue: "missing_table" });
+      continue;
+    }
+
+    for (const [column, shape] of Object.entries(columns)) {
+      const live = liveColumns[column];
+      if (!live) {
+        differences.push({ table, column, issue: "missing_column" });
+        continue;
+      }
+      const expectedType = normalizeSqlType(shape.type);
+      const actualType = normalizeSqlType(live.type);
+      if (expectedType !== actualType) {
+        differences.push({
+          table,
+          column,
+          issue: "type",
+          expected: expectedType,
+          actual: actualType,
+        });
+      }
+      if (shape.notNull !== live.notNull) {
+        differences.push({
+          table,
+          column,
+          issue: "nullability",
+          expected: shape.notNull ? "NOT NULL" : "NULL",
+          actual: live.notNull ? "NOT NULL" : "NULL",
+        });
+      }
+    }
+
+    for (const column of Object.keys(liveColumns)) {
+      if (!columns[column]) {
+        differences.push({ table, column, issue: "extra_column" });
+      }
+    }
+  }
+
+  for (const table of Object.keys(actual)) {
+    if (!expected[table] && !ignoreTables.includes(table)) {
+      differences.push({ table, issue: "extra_table" });
+    }
+  }
+
+  return differences.sort(
+    (a, b) =>
+      a.table.localeCompare(b.table) ||
+      (a.column ?? "").localeCompare(b.column ?? "")
+  );
+}
+
+/**
+ * Describe a difference on one line (e.g., `boards.techniques: type is
+ * integer, schema.ts declares bigint`).
+ */
+export function formatSchemaDifference(difference: SchemaDifference): string {
+  const target = difference.column
+    ? `${difference.table}.${difference.column}`
+    : difference.table;
+  switch (difference.issue) {
+    case "missing_table":
+      return `${target}: table is missing from the database`;
+    case "extra_table":
+      return `${target}: table is not declared in schema.ts`;
+    case "missing_column":
+      return `${target}: column is missing from the database`;
+    case "extra_column":
+      return `${target}: column is not declared in schema.ts`;
+    case "type":
+    case "nullability":
+      return `${target}: ${difference.issue} is ${difference.actual}, schema.ts declares ${difference.expected}`;
+  }
+}
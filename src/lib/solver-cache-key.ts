@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Cache keys for solver requests.
+ *
+ * The solve and validate endpoints are pure functions of their query
+ * parameters, so a response can be cached under a hash of the endpoint and
+ * its normalized parameters. Normalization only removes differences the
+ * solver ignores: parameter order and the case of boolean values. JSON
+ * bodies (POST) are keyed as the equivalent query string, so GET and POST
+ * requests with the same parameters share entries.
+ */
+
+import { createHash } from "crypto";
+
+/** Locale-independent order, so every instance computes the same key */
+function compareCodeUnits(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Normalize a query string: parameters sorted by name (then value), and
+ * boolean values lowercased.
+ */
+export function normalizeSolverParams(queryString: string): string {
+  const params = [...new URLSearchParams(queryString)].map(
+    ([name, value]) =>
+      [name, /^(true|false)$/i.test(value) ? value.toLowerCase() : value] as [
+        string,
+        string,
+      ]
+  );
+  params.sort(
+    ([nameA, valueA], [nameB, valueB]) =>
+      compareCodeUnits(nameA, nameB) || compareCodeUnits(valueA, valueB)
+  );
+  return new URLSearchParams(params).toString();
+}
+
+/**
+ * Content-addressed cache key: SHA-256 (hex) of the endpoint and its
+ * normalized parameters.
+ */
+export function solverCacheKey(endpoint: string, queryString: string): string {
+  return createHash("sha256")
+    .update(`${endpoint}?${normalizeSolverParams(queryString)}`)
+    .digest("hex");
+}
+
+/**
+ * Query string equivalent of a JSON body (undefined values left out).
+ */
+export function solverBodyToQueryString(
+  body: Record<string, string | number | boolean | undefined>
+): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(body)) {
+    if (value !== undefined) {
+      params.append(name, String(value));
+    }
+  }
+  return params.toString();
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Daily streak calculation.
+ *
+ * A streak counts consecutive calendar days on which the user completed the
+ * daily puzzle. Days are evaluated in the user's own timezone so that a
+ * player finishing late in the evening is not split across UTC dates.
+ */
+
+/** Timezone used when the user has not reported one */
+export const DEFAULT_TIMEZONE = "UTC";
+
+/**
+ * Minimum time between changes of a user's timezone. Moving the day
+ * boundary at will would let a player gain or save a streak day.
+ */
+export const TIMEZONE_CHANGE_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Streak fields stored on user_stats */
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  /** Local date (YYYY-MM-DD) of the last daily counted towards the streak */
+  lastStreakDate: string | null;
+}
+
+/** Whether a string is a timezone identifier understood by Intl */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a user's stored timezone may be replaced by a newly reported one:
+ * always when none is stored, otherwise at most once per
+ * TIMEZONE_CHANGE_INTERVAL_MS.
+ */
+export function canChangeTimezone(
+  stored: { timezone: string | null; timezoneUpdatedAt: Date | null },
+  now: Date
+): boolean {
+  return (
+    stored.timezone === null ||
+    stored.timezoneUpdatedAt === null ||
+    now.getTime() - stored.timezoneUpdatedAt.getTime() >=
+      TIMEZONE_CHANGE_INTERVAL_MS
+  );
+}
+
+/**
+ * Get the calendar date (YYYY-MM-DD) of an instant in a timezone.
+ * Falls back to UTC for unknown timezones.
+ */
+export function localDate(at: Date, timeZone: string): string {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: zone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(at);
+}
+
+/** Number of days between two YYYY-MM-DD dates (b - a) */
+function daysBetween(a: string, b: string): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round(
+    (Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / msPerDay
+  );
+}
+
+/**
+ * Advance a streak for a daily completed on `today` (a local date).
+ * - Same day as the last counted daily: unchanged
+ * - The day after: streak continues
+ * - Otherwise: streak restarts at 1
+ */
+export function advanceStreak(state: StreakState, today: string): StreakState {
+  if (state.lastStreakDate === today) {
+    return state;
+  }
+
+  const continues =
+    state.lastStreakDate !== null &&
+    daysBetween(state.lastStreakDate, today) === 1;
+  const currentStreak = continues ? state.currentStreak + 1 : 1;
+
+  return {
+    currentStreak,
+    longestStreak: Math.max(state.longestStreak, currentStreak),
+    lastStreakDate: today,
+  };
+}
+
+/**
+ * Get the streak as it should be displayed on `today` (a local date).
+ * A streak whose last counted day is before yesterday has lapsed.
+ */
+export function visibleStreak(state: StreakState, today: string): number {
+  if (state.lastStreakDate === null) {
+    return 0;
+  }
+  return daysBetween(state.lastStreakDate, today) <= 1
+    ? state.currentStreak
+    : 0;
+}
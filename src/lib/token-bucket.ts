@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Token bucket arithmetic for rate limiting.
+ *
+ * A bucket holds up to `capacity` tokens and refills continuously at
+ * `refillPerSecond`. Each request takes one token; a request finding the
+ * bucket empty is rejected until a token has refilled.
+ */
+
+export interface TokenBucketConfig {
+  /** Maximum tokens (burst size) */
+  capacity: number;
+  /** Tokens added per second (sustained rate) */
+  refillPerSecond: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  /** When `tokens` was last computed (ms since epoch) */
+  updatedAt: number;
+}
+
+export interface TokenBucketResult {
+  /** Bucket state to store */
+  state: TokenBucketState;
+  allowed: boolean;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Seconds until a token is available (0 if allowed) */
+  retryAfterSeconds: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+}
+
+/**
+ * Take one token from a bucket.
+ * @param state - Stored bucket state, or null for a new (full) bucket
+ * @param config - Bucket capacity and refill rate
+ * @param now - Current time (ms since epoch)
+ */
+export function takeToken(
+  state: TokenBucketState | null,
+  config: TokenBucketConfig,
+  now: number
+): TokenBucketResult {
+  const elapsedSeconds = state
+    ? Math.max(0, (now - state.updatedAt) / 1000)
+    : 0;
+  const available = state
+    ? Math.min(
+        config.capacity,
+        state.tokens + elapsedSeconds * config.refillPerSecond
+      )
+    : config.capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfterSeconds: allowed
+      ? 0
+      : Math.ceil((1 - tokens) / config.refillPerSecond),
+    resetSeconds: Math.ceil(
+      (config.capacity - tokens) / config.refillPerSecond
+    ),
+  };
+}
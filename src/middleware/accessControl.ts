@@ -1,99 +1,191 @@
 /**
  * Access control middleware for content-gating endpoints (e.g., daily puzzles).
  *
- * Gates access to premium content using a daily access counter
- * (via checkAndRecordAccess). Free users get a fixed number of accesses per day.
- * Subscribers bypass via RevenueCat entitlement checks.
+ * Gates access using a daily access counter (via checkAndRecordAccess).
+ * Quotas depend on the caller's access tiers: anonymous, signed in, and one
+ * tier per RevenueCat entitlement. Quotas are configured via /access/quotas.
  */
 import type { Context, Next } from "hono";
-import { verifyIdToken, isSiteAdmin } from "../services/firebase";
+import { getConnInfo } from "hono/bun";
+import { NONE_ENTITLEMENT } from "@sudobility/types";
+import { isAnonymousUser, verifyIdToken } from "../services/firebase";
 import { getSubscriptionHelper, getTestMode } from "./subscription";
-import { checkAndRecordAccess } from "../services/access";
+import {
+  ANONYMOUS_TIER,
+  SIGNED_IN_TIER,
+  checkAndRecordAccess,
+  type AccessEndpoint,
+} from "../services/access";
 import { errorResponse } from "@sudobility/sudojo_types";
+import { authenticateApiKey } from "./apiKey";
+import { isSuperAdmin } from "./auth";
+import type { ApiKeyScope } from "../lib/api-keys";
+import { addLogContext, logger } from "../lib/logger";
+import { getEnv } from "../lib/env-helper";
+import { resolveClientIp } from "../lib/client-ip";
+import { quotaDenialsTotal } from "../services/metrics";
+
+/** Number of reverse proxies (load balancers) in front of the server */
+const TRUSTED_PROXY_COUNT = parseInt(getEnv("TRUSTED_PROXY_COUNT", "1")!, 10);
+
+/** Address of the connection's peer, when the server exposes it */
+function getSocketAddress(c: Context): string | undefined {
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    // Not served by Bun.serve (e.g., app.request in tests)
+    return undefined;
+  }
+}
+
+/**
+ * Get the client IP used to count anonymous accesses and rate limits.
+ * Only trusts the X-Forwarded-For entries appended by our own proxies
+ * (TRUSTED_PROXY_COUNT), so clients cannot pick their IP.
+ */
+export function getClientIp(c: Context): string {
+  return resolveClientIp(
+    c.req.header("X-Forwarded-For"),
+    getSocketAddress(c),
+    TRUSTED_PROXY_COUNT
+  );
+}
+
+/**
+ * Get the access tiers of a signed-in user: "signed_in" plus one tier per
+ * active RevenueCat entitlement. If RevenueCat fails, only "signed_in".
+ */
+export async function getSignedInTiers(
+  c: Context,
+  userId: string
+): Promise<string[]> {
+  const tiers = [SIGNED_IN_TIER];
+
+  const subHelper = getSubscriptionHelper();
+  if (subHelper) {
+    try {
+      const testMode = getTestMode(c);
+      const subscriptionInfo = await subHelper.getSubscriptionInfo(
+        userId,
+        testMode
+      );
+      tiers.push(
+        ...subscriptionInfo.entitlements.filter(
+          (entitlement: string) => entitlement !== NONE_ENTITLEMENT
+        )
+      );
+    } catch (_subscriptionError) {
+      // If RevenueCat fails, continue with the signed-in quota
+      logger.error("RevenueCat check failed", { error: _subscriptionError });
+    }
+  }
+
+  return tiers;
+}
 
 /**
  * Create an access control middleware for a specific endpoint.
  *
  * The middleware checks (in order):
- * 1. Firebase authentication (returns 401 if missing/invalid)
- * 2. Admin bypass (admins have unlimited access)
- * 3. Subscription bypass (subscribers via RevenueCat have unlimited access)
+ * 0. API key bypass (keys with the route's scope, e.g. `boards:read`, or
+ *    the given scope)
+ * 1. Firebase authentication if a token is sent (returns 401 if invalid);
+ *    callers without a token, or with an anonymous Firebase sign-in, are
+ *    counted per IP in the anonymous tier
+ * 2. Super admin bypass (super admins have unlimited access)
+ * 3. Entitlement tiers via RevenueCat (each tier has its own quota)
  * 4. Daily access limit check (returns 402 if limit reached)
  *
- * Sets `X-Daily-Remaining` response header with remaining accesses.
+ * Sets `X-Daily-Limit` and `X-Daily-Remaining` response headers when the
+ * caller's quota is limited.
  *
  * Context variables set:
- * - firebaseUser: Decoded Firebase token
+ * - firebaseUser: Decoded Firebase token (callers with a valid token, anonymous sign-ins included)
  *
  * @param endpoint - The endpoint identifier for tracking (e.g., "boards", "dailies")
+ * @param scope - API key scope to require instead of the route's (e.g.,
+ *   `solver:read` for POST routes that only read)
  * @returns Hono middleware function
  */
-export function createAccessControlMiddleware(endpoint: string) {
+export function createAccessControlMiddleware(
+  endpoint: AccessEndpoint,
+  scope?: ApiKeyScope
+) {
   return async (c: Context, next: Next) => {
-    const authHeader = c.req.header("Authorization");
-
-    if (!authHeader) {
-      return c.json(errorResponse("Authorization header required"), 401);
+    try {
+      const keyAuth = await authenticateApiKey(c, scope);
+      if (keyAuth.status === "valid") {
+        await next();
+        return;
+      }
+    } catch (error) {
+      // Fall through to the caller's quota
+      logger.error("API key check failed", { error });
     }
 
-    const [type, token] = authHeader.split(" ");
+    const authHeader = c.req.header("Authorization");
+    let subject = `anon:${getClientIp(c)}`;
+    let tiers = [ANONYMOUS_TIER];
 
-    if (type !== "Bearer" || !token) {
-      return c.json(
-        errorResponse("Invalid authorization format. Use: Bearer <token>"),
-        401
-      );
-    }
+    if (authHeader) {
+      const [type, token] = authHeader.split(" ");
 
-    try {
-      const decodedToken = await verifyIdToken(token);
-      const userId = decodedToken.uid;
+      if (type !== "Bearer" || !token) {
+        return c.json(
+          errorResponse("Invalid authorization format. Use: Bearer <token>"),
+          401
+        );
+      }
+
+      let decodedToken;
+      try {
+        decodedToken = await verifyIdToken(token);
+      } catch (_error) {
+        return c.json(errorResponse("Invalid or expired Firebase token"), 401);
+      }
 
       // Store user info in context for later use
       c.set("firebaseUser", decodedToken);
+      addLogContext({ userId: decodedToken.uid });
 
-      // Check if user is an admin (bypass subscription check)
-      if (isSiteAdmin(decodedToken.email)) {
-        await next();
-        return;
-      }
-
-      // Check if user has subscription using SubscriptionHelper
-      const subHelper = getSubscriptionHelper();
-      if (subHelper) {
-        try {
-          const testMode = getTestMode(c);
-          const subscriptionInfo = await subHelper.getSubscriptionInfo(
-            userId,
-            testMode
-          );
-          // Check if user has any active entitlements (non-empty array means they have a subscription)
-          if (subscriptionInfo.entitlements.length > 0) {
-            // Subscriber has unlimited access
-            await next();
-            return;
-          }
-        } catch (_subscriptionError) {
-          // If RevenueCat fails, continue with access check
-          console.error("RevenueCat check failed:", _subscriptionError);
+      // Anonymous sign-ins are free to mint, so they keep the per-IP
+      // anonymous quota rather than getting one per uid
+      if (!isAnonymousUser(decodedToken)) {
+        // Check if user is a super admin (bypass quotas)
+        if (await isSuperAdmin(decodedToken)) {
+          await next();
+          return;
         }
+
+        subject = decodedToken.uid;
+        tiers = await getSignedInTiers(c, decodedToken.uid);
       }
+    }
 
-      // Non-subscriber: check daily access limit
-      const { granted, remaining } = await checkAndRecordAccess(
-        userId,
-        endpoint
+    try {
+      const { granted, limit, remaining } = await checkAndRecordAccess(
+        subject,
+        endpoint,
+        tiers
       );
       if (!granted) {
+        const anonymous = tiers[0] === ANONYMOUS_TIER;
+        quotaDenialsTotal.inc({
+          endpoint,
+          caller: anonymous ? "anonymous" : "signed_in",
+        });
         return c.json(
           {
             success: false,
             error: "Daily limit reached",
-            message:
-              "You've reached your daily puzzle limit. Subscribe to unlock unlimited puzzles and support the app.",
+            message: anonymous
+              ? "You've reached your daily puzzle limit. Sign in or subscribe to unlock more puzzles."
+              : "You've reached your daily puzzle limit. Subscribe to unlock unlimited puzzles and support the app.",
             action: {
-              type: "subscription_required",
-              options: ["subscribe", "restore_purchase"],
+              type: anonymous ? "sign_in_required" : "subscription_required",
+              options: anonymous
+                ? ["sign_in", "subscribe", "restore_purchase"]
+                : ["subscribe", "restore_purchase"],
             },
             timestamp: new Date().toISOString(),
           },
@@ -101,12 +193,16 @@ export function createAccessControlMiddleware(endpoint: string) {
         );
       }
 
-      // Add remaining access count to response headers
-      c.header("X-Daily-Remaining", remaining.toString());
-
-      await next();
-    } catch (_error) {
-      return c.json(errorResponse("Invalid or expired Firebase token"), 401);
+      // Add quota headers for limited callers
+      if (limit !== null && remaining !== null) {
+        c.header("X-Daily-Limit", limit.toString());
+        c.header("X-Daily-Remaining", remaining.toString());
+      }
+    } catch (error) {
+      logger.error("Access check failed", { error });
+      return c.json(errorResponse("Failed to check access"), 500);
     }
+
+    await next();
   };
 }
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Scoped API key authentication
+ *
+ * Scripts and tools send a key created via /api/v1/api-keys in the
+ * `X-API-Key` header. Keys are never accepted in the query string, where
+ * they would end up in access logs.
+ */
+
+import type { Context } from "hono";
+import type { ApiKeyScope } from "../lib/api-keys";
+import { permissionForRequest } from "../lib/permissions";
+import { findApiKey, type ApiKeyInfo } from "../services/api-keys";
+
+/** Header carrying the API key */
+export const API_KEY_HEADER = "X-API-Key";
+
+export type ApiKeyAuthResult =
+  | { status: "none" }
+  | { status: "invalid" }
+  | { status: "forbidden"; scope: ApiKeyScope | null }
+  | { status: "valid"; apiKey: ApiKeyInfo };
+
+/**
+ * Authenticate the request's API key, if it sends one.
+ *
+ * Sets the `apiKey` context variable when the key is valid. Unless a scope
+ * is given, the key needs the scope of the requested route module and
+ * method (e.g., `boards:write` for POST /api/v1/boards).
+ *
+ * @param scope - Scope to require instead of the route's scope
+ * @returns "none" without a key, "invalid" for unknown or expired keys,
+ *   "forbidden" if the key lacks the scope, otherwise "valid"
+ */
+export async function authenticateApiKey(
+  c: Context,
+  scope?: ApiKeyScope
+): Promise<ApiKeyAuthResult> {
+  const rawKey = c.req.header(API_KEY_HEADER);
+  if (!rawKey) {
+    return { status: "none" };
+  }
+
+  const apiKey = await findApiKey(rawKey);
+  if (!apiKey) {
+    return { status: "invalid" };
+  }
+
+  const required = scope ?? permissionForRequest(c.req.path, c.req.method);
+  if (!required || !apiKey.scopes.includes(required)) {
+    return { status: "forbidden", scope: required };
+  }
+
+  c.set("apiKey", apiKey);
+  return { status: "valid", apiKey };
+}
@@ -5,12 +5,76 @@
 import type { Context, Next } from "hono";
 import { verifyIdToken, isSiteAdmin } from "../services/firebase";
 import { errorResponse } from "@sudobility/sudojo_types";
+import { permissionForRequest } from "../lib/permissions";
+import { getAdminPermissions } from "../services/roles";
+import { authenticateApiKey } from "./apiKey";
+import { addLogContext, logger } from "../lib/logger";
 
 /**
- * Middleware that requires Firebase authentication and admin email.
- * Checks if user's email is in SITEADMIN_EMAILS environment variable.
+ * Whether a signed-in user is a super admin: listed in SITEADMIN_EMAILS
+ * (which bootstraps the first super admin, so it stays authoritative) or
+ * holding the super_admin role. Quota, hint and rate limit bypasses use
+ * this, so revoking the role also removes them. A failed role lookup
+ * counts as not a super admin.
+ */
+export async function isSuperAdmin(decodedToken: {
+  uid: string;
+  email?: string;
+}): Promise<boolean> {
+  if (isSiteAdmin(decodedToken.email)) {
+    return true;
+  }
+  try {
+    return (await getAdminPermissions(decodedToken.uid)).superAdmin;
+  } catch (error) {
+    logger.error("Admin permission check failed", { error });
+    return false;
+  }
+}
+
+/**
+ * Middleware that requires Firebase authentication and an admin permission.
+ *
+ * The user needs the permission of the route (e.g., `boards:write` for
+ * POST /boards) through one of their roles. Super admins (the super_admin
+ * role or an email in SITEADMIN_EMAILS) may call every admin route;
+ * routes outside the permission list (roles, API keys) are super admin only.
+ *
+ * Scripts can send a scoped API key in `X-API-Key` instead; the key needs
+ * the scope of the route (e.g., `boards:write` for POST /boards). Requests
+ * made with a key act on behalf of the key's owner.
  */
 export async function adminMiddleware(c: Context, next: Next) {
+  let keyAuth;
+  try {
+    keyAuth = await authenticateApiKey(c);
+  } catch (error) {
+    logger.error("API key check failed", { error });
+    return c.json(errorResponse("Failed to check API key"), 500);
+  }
+
+  if (keyAuth.status === "invalid") {
+    return c.json(errorResponse("Invalid or expired API key"), 401);
+  }
+  if (keyAuth.status === "forbidden") {
+    return c.json(
+      errorResponse(
+        keyAuth.scope
+          ? `API key is missing the ${keyAuth.scope} scope`
+          : "API keys cannot access this resource"
+      ),
+      403
+    );
+  }
+  if (keyAuth.status === "valid") {
+    c.set("userId", keyAuth.apiKey.ownerId);
+    addLogContext({ userId: keyAuth.apiKey.ownerId });
+    c.set("userEmail", null);
+    c.set("siteAdmin", false);
+    await next();
+    return;
+  }
+
   const authHeader = c.req.header("Authorization");
 
   if (!authHeader) {
@@ -26,21 +90,34 @@ export async function adminMiddleware(c: Context, next: Next) {
     );
   }
 
+  let decodedToken;
   try {
-    const decodedToken = await verifyIdToken(token);
+    decodedToken = await verifyIdToken(token);
+  } catch {
+    return c.json(errorResponse("Invalid or expired Firebase token"), 401);
+  }
 
-    if (!isSiteAdmin(decodedToken.email)) {
-      return c.json(errorResponse("Admin access required"), 403);
+  let superAdmin = isSiteAdmin(decodedToken.email);
+  if (!superAdmin) {
+    try {
+      const granted = await getAdminPermissions(decodedToken.uid);
+      const required = permissionForRequest(c.req.path, c.req.method);
+      superAdmin = granted.superAdmin;
+      if (!superAdmin && !(required && granted.permissions.has(required))) {
+        return c.json(errorResponse("Admin access required"), 403);
+      }
+    } catch (error) {
+      logger.error("Admin permission check failed", { error });
+      return c.json(errorResponse("Failed to check permissions"), 500);
     }
+  }
 
-    // Store user info in context for later use
-    c.set("firebaseUser", decodedToken);
-    c.set("userId", decodedToken.uid);
-    c.set("userEmail", decodedToken.email ?? null);
-    c.set("siteAdmin", true);
+  // Store user info in context for later use
+  c.set("firebaseUser", decodedToken);
+  c.set("userId", decodedToken.uid);
+  addLogContext({ userId: decodedToken.uid });
+  c.set("userEmail", decodedToken.email ?? null);
+  c.set("siteAdmin", superAdmin);
 
-    await next();
-  } catch {
-    return c.json(errorResponse("Invalid or expired Firebase token"), 401);
-  }
+  await next();
 }
@@ -4,10 +4,18 @@ import {
   getSolutionEncryptionKey,
 } from "../lib/solution-crypto";
 
+/** POST routes that read like GETs (solver calls with JSON bodies) */
+const SOLVER_READ_POSTS = new Set([
+  "/api/v1/solver/solve",
+  "/api/v1/solver/validate",
+  "/api/v1/solver/generate",
+]);
+
 /**
  * Hono middleware that encrypts `solution` fields in GET JSON responses.
  *
- * - Skips non-GET requests (POST/PUT/DELETE are admin writes)
+ * - Skips non-GET requests (POST/PUT/DELETE are admin writes), except the
+ *   POST variants of the solver reads, whose responses are GET-equivalent
  * - Skips if SOLUTION_ENCRYPTION_KEY is not configured (passthrough for dev)
  * - Parses the JSON response body, encrypts solution fields, and returns a new response
  */
@@ -17,7 +25,11 @@ export async function encryptSolutionsMiddleware(
 ): Promise<void | Response> {
   await next();
 
-  if (c.req.method !== "GET") return;
+  if (
+    c.req.method !== "GET" &&
+    !(c.req.method === "POST" && SOLVER_READ_POSTS.has(c.req.path))
+  )
+    return;
 
   const keyHex = getSolutionEncryptionKey();
   if (!keyHex) return;
@@ -4,12 +4,11 @@
 
 import type { Context, Next } from "hono";
 import type { DecodedIdToken } from "firebase-admin/auth";
-import {
-  verifyIdToken,
-  isAnonymousUser,
-  isSiteAdmin,
-} from "../services/firebase";
+import { verifyIdToken, isAnonymousUser } from "../services/firebase";
 import { errorResponse } from "@sudobility/sudojo_types";
+import type { ApiKeyInfo } from "../services/api-keys";
+import { addLogContext } from "../lib/logger";
+import { isSuperAdmin } from "./auth";
 
 declare module "hono" {
   interface ContextVariableMap {
@@ -17,6 +16,7 @@ declare module "hono" {
     userId: string;
     userEmail: string | null;
     siteAdmin: boolean;
+    apiKey: ApiKeyInfo;
   }
 }
 
@@ -27,7 +27,7 @@ declare module "hono" {
  * - firebaseUser: The decoded Firebase token
  * - userId: The Firebase UID
  * - userEmail: The user's email (or null)
- * - siteAdmin: Whether the user is a site admin
+ * - siteAdmin: Whether the user is a super admin (see isSuperAdmin)
  */
 export async function firebaseAuthMiddleware(c: Context, next: Next) {
   const authHeader = c.req.header("Authorization");
@@ -58,8 +58,9 @@ export async function firebaseAuthMiddleware(c: Context, next: Next) {
     // Set context variables
     c.set("firebaseUser", decodedToken);
     c.set("userId", decodedToken.uid);
+    addLogContext({ userId: decodedToken.uid });
     c.set("userEmail", decodedToken.email ?? null);
-    c.set("siteAdmin", isSiteAdmin(decodedToken.email));
+    c.set("siteAdmin", await isSuperAdmin(decodedToken));
 
     await next();
   } catch {
@@ -3,14 +3,16 @@
  */
 
 import type { Context, Next } from "hono";
-import { verifyIdToken, isSiteAdmin } from "../services/firebase";
+import { verifyIdToken } from "../services/firebase";
 import { getSubscriptionHelper, getTestMode } from "./subscription";
 import {
   type HintAccessUserState,
   type HintEntitlement,
   HINT_LEVEL_LIMITS,
 } from "@sudobility/sudojo_types";
-import { getEnv } from "../lib/env-helper";
+import { authenticateApiKey } from "./apiKey";
+import { isSuperAdmin } from "./auth";
+import { addLogContext, logger } from "../lib/logger";
 
 /** Entitlement identifiers */
 const ENTITLEMENTS = {
@@ -55,10 +57,15 @@ export async function hintAccessMiddleware(c: Context, next: Next) {
     entitlements: [],
   };
 
-  // API key bypass: unlimited hint access for scripts/tools
-  const apiKey = c.req.header("X-API-Key") ?? c.req.query("api_key");
-  const configuredKey = getEnv("ADMIN_API_KEY");
-  if (configuredKey && apiKey === configuredKey) {
+  // API key bypass: unlimited hint access for scripts/tools with solver:read
+  let keyAuth;
+  try {
+    keyAuth = await authenticateApiKey(c, "solver:read");
+  } catch (error) {
+    logger.error("API key check failed", { error });
+    keyAuth = { status: "none" as const };
+  }
+  if (keyAuth.status === "valid") {
     hintAccess.maxHintLevel = Infinity;
     hintAccess.userState = "anonymous";
     hintAccess.isAuthenticated = false;
@@ -77,9 +84,10 @@ export async function hintAccessMiddleware(c: Context, next: Next) {
         // Store user info in context
         c.set("firebaseUser", decodedToken);
         hintAccess.isAuthenticated = true;
+        addLogContext({ userId: decodedToken.uid });
 
-        // Check if site admin - unlimited access
-        if (isSiteAdmin(decodedToken.email)) {
+        // Check if super admin - unlimited access
+        if (await isSuperAdmin(decodedToken)) {
           hintAccess.maxHintLevel = Infinity;
           hintAccess.userState = "no_subscription"; // Not relevant for admins
           c.set("hintAccess", hintAccess);
@@ -122,7 +130,7 @@ export async function hintAccessMiddleware(c: Context, next: Next) {
             // Authenticated but no subscription
             hintAccess.userState = "no_subscription";
           } catch (error) {
-            console.error("RevenueCat check failed:", error);
+            logger.error("RevenueCat check failed", { error });
             // On error, treat as no subscription
             hintAccess.userState = "no_subscription";
           }
@@ -132,10 +140,7 @@ export async function hintAccessMiddleware(c: Context, next: Next) {
         }
       } catch (error) {
         // Invalid/expired token - return 401 to trigger client token refresh
-        console.error("Token verification failed:", error);
-        if (error instanceof Error) {
-          console.error("Error message:", error.message);
-        }
+        logger.error("Token verification failed", { error });
         // Return 401 so client can refresh token and retry
         return c.json(
           {
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview HTTP request metrics middleware
+ */
+
+import type { Context, Next } from "hono";
+import { routePath } from "hono/route";
+import { httpRequestDuration, httpRequestsTotal } from "../services/metrics";
+
+/**
+ * Hono middleware counting requests and timing them per matched route
+ * pattern (e.g., `/api/v1/boards/:uuid`), so the number of series stays
+ * bounded. Unmatched requests are recorded under the pattern of the last
+ * middleware they passed (e.g., "*").
+ */
+export async function httpMetricsMiddleware(
+  c: Context,
+  next: Next
+): Promise<void> {
+  const endTimer = httpRequestDuration.startTimer();
+  await next();
+
+  const labels = { method: c.req.method, route: routePath(c, -1) };
+  endTimer(labels);
+  httpRequestsTotal.inc({ ...labels, status: c.res.status });
+}
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Token-bucket rate limiting middleware
+ *
+ * Protects expensive endpoints (solver proxy, OCR) from abuse. Callers are
+ * identified by API key, Firebase UID or client IP, in that order, and each
+ * route group has its own bucket sizes per identity kind. The client IP is
+ * the one appended by our trusted proxies (see getClientIp), so anonymous
+ * callers cannot get fresh buckets by sending their own X-Forwarded-For.
+ *
+ * This is separate from daily access quotas (content-gating); see
+ * accessControl.ts.
+ */
+
+import type { Context, Next } from "hono";
+import { errorResponse } from "@sudobility/sudojo_types";
+import { isAnonymousUser, verifyIdToken } from "../services/firebase";
+import type { TokenBucketConfig } from "../lib/token-bucket";
+import {
+  getRateLimitStore,
+  type RateLimitStore,
+} from "../services/rate-limit-store";
+import { findApiKey } from "../services/api-keys";
+import { rateLimitDenialsTotal } from "../services/metrics";
+import { getClientIp } from "./accessControl";
+import { API_KEY_HEADER } from "./apiKey";
+import { isSuperAdmin } from "./auth";
+import { logger } from "../lib/logger";
+
+/** How a caller was identified */
+export type RateLimitIdentity = "apiKey" | "user" | "ip";
+
+/** Bucket sizes for one route group, per identity kind */
+export type RateLimitGroupConfig = Record<RateLimitIdentity, TokenBucketConfig>;
+
+/** Rate limits per route group */
+export const RATE_LIMIT_GROUPS = {
+  /** Solver validation and generation (each call hits the solver service) */
+  solver: {
+    ip: { capacity: 20, refillPerSecond: 20 / 60 },
+    user: { capacity: 60, refillPerSecond: 60 / 60 },
+    apiKey: { capacity: 600, refillPerSecond: 600 / 60 },
+  },
+  /** OCR extraction (runs Tesseract in-process) */
+  ocr: {
+    ip: { capacity: 5, refillPerSecond: 5 / 60 },
+    user: { capacity: 10, refillPerSecond: 10 / 60 },
+    apiKey: { capacity: 60, refillPerSecond: 60 / 60 },
+  },
+} satisfies Record<string, RateLimitGroupConfig>;
+
+export type RateLimitGroup = keyof typeof RATE_LIMIT_GROUPS;
+
+export interface RateLimitOptions {
+  /** Storage backend (defaults to the RATE_LIMIT_STORE backend) */
+  store?: RateLimitStore;
+  /** Override the group's bucket sizes */
+  config?: RateLimitGroupConfig;
+}
+
+/**
+ * Identify the caller for rate limiting.
+ * A valid API key wins, then a valid Firebase token of a non-anonymous
+ * user, then the trusted client IP.
+ * Invalid credentials are not rejected here; they fall back to the IP.
+ * @returns The identity kind and bucket subject, or null for super admins
+ */
+async function identifyCaller(
+  c: Context
+): Promise<{ identity: RateLimitIdentity; subject: string } | null> {
+  const rawKey = c.req.header(API_KEY_HEADER);
+  if (rawKey) {
+    try {
+      const apiKey = await findApiKey(rawKey);
+      if (apiKey) {
+        return { identity: "apiKey", subject: apiKey.id };
+      }
+    } catch (error) {
+      // Fall back to the client IP
+      logger.error("API key check failed", { error });
+    }
+  }
+
+  const authHeader = c.req.header("Authorization");
+  const [type, token] = authHeader?.split(" ") ?? [];
+  if (type === "Bearer" && token) {
+    try {
+      const decodedToken = await verifyIdToken(token);
+      // Anonymous sign-ins are free to mint, so they share their IP's bucket
+      if (!isAnonymousUser(decodedToken)) {
+        if (await isSuperAdmin(decodedToken)) {
+          return null;
+        }
+        return { identity: "user", subject: decodedToken.uid };
+      }
+    } catch {
+      // Fall back to the client IP
+    }
+  }
+
+  return { identity: "ip", subject: getClientIp(c) };
+}
+
+/**
+ * Create a rate limiting middleware for a route group.
+ *
+ * Sets `X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset`
+ * (seconds until the bucket is full) on every limited response, and returns
+ * 429 with `Retry-After` when the bucket is empty. Super admins are exempt.
+ * If the store fails, the request is allowed (fail open).
+ *
+ * @param group - Route group whose limits apply (e.g., "solver", "ocr")
+ * @param options - Optional store and limits (used by tests)
+ * @returns Hono middleware function
+ */
+export function createRateLimitMiddleware(
+  group: RateLimitGroup,
+  options: RateLimitOptions = {}
+) {
+  const groupConfig: RateLimitGroupConfig =
+    options.config ?? RATE_LIMIT_GROUPS[group];
+
+  return async (c: Context, next: Next) => {
+    const caller = await identifyCaller(c);
+    if (!caller) {
+      await next();
+      return;
+    }
+
+    const config = groupConfig[caller.identity];
+    const store = options.store ?? getRateLimitStore();
+
+    let result;
+    try {
+      result = await store.consume(
+        `${group}:${caller.identity}:${caller.subject}`,
+        config,
+        Date.now()
+      );
+    } catch (error) {
+      logger.error("Rate limit store failed", { error });
+      await next();
+      return;
+    }
+
+    c.header("X-RateLimit-Limit", config.capacity.toString());
+    c.header("X-RateLimit-Remaining", result.remaining.toString());
+    c.header("X-RateLimit-Reset", result.resetSeconds.toString());
+
+    if (!result.allowed) {
+      rateLimitDenialsTotal.inc({ group, identity: caller.identity });
+      c.header("Retry-After", result.retryAfterSeconds.toString());
+      return c.json(
+        errorResponse("Too many requests. Please try again later."),
+        429
+      );
+    }
+
+    await next();
+  };
+}
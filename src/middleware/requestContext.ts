@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Request ID and request logging middleware
+ */
+
+import { randomUUID } from "crypto";
+import type { Context, Next } from "hono";
+import { routePath } from "hono/route";
+import { logger, withLogContext } from "../lib/logger";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    requestId: string;
+  }
+}
+
+/** Header carrying the request ID in both directions */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/** Accepted incoming request IDs (anything else is replaced) */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Hono middleware that assigns each request an ID and logs its completion.
+ *
+ * - Reuses a well-formed incoming X-Request-Id (e.g., from the load
+ *   balancer), otherwise generates one; echoes it in the response
+ * - Logs made while handling the request carry requestId, method and path;
+ *   auth middleware adds the Firebase UID (see addLogContext)
+ * - Logs one "Request completed" entry with the matched route, status and
+ *   duration (error level for 5xx)
+ *
+ * Must be registered before all other middleware.
+ */
+export async function requestContextMiddleware(
+  c: Context,
+  next: Next
+): Promise<void> {
+  const incoming = c.req.header(REQUEST_ID_HEADER);
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  c.set("requestId", requestId);
+
+  await withLogContext(
+    { requestId, method: c.req.method, path: c.req.path },
+    async () => {
+      const startedAt = Date.now();
+      await next();
+      c.header(REQUEST_ID_HEADER, requestId);
+
+      const status = c.res.status;
+      const fields = {
+        route: routePath(c, -1),
+        status,
+        durationMs: Date.now() - startedAt,
+      };
+      if (status >= 500) {
+        logger.error("Request completed", fields);
+      } else {
+        logger.info("Request completed", fields);
+      }
+    }
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Access quota routes for Sudojo API
+ *
+ * Admin endpoints for the daily access quotas enforced on content routes
+ * (/boards/random, /dailies/today, /challenges/random, /solver/solve).
+ * Quotas are set per access tier ("anonymous", "signed_in" or an
+ * entitlement such as "red_belt") and endpoint. Tiers without a stored
+ * quota use built-in defaults.
+ */
+
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { adminMiddleware } from "../middleware/auth";
+import { accessQuotaParamSchema, accessQuotaUpdateSchema } from "../schemas";
+import {
+  clearQuotaCache,
+  deleteQuota,
+  getStoredQuota,
+  listQuotas,
+  setQuota,
+} from "../services/access";
+import { recordAudit, withAudit } from "../services/audit";
+import { successResponse, errorResponse } from "@sudobility/sudojo_types";
+import { logger } from "../lib/logger";
+
+const accessRouter = new Hono();
+
+/**
+ * GET /api/v1/access/quotas
+ *
+ * List the effective daily quota of every known tier and endpoint.
+ *
+ * @auth Admin required
+ * @returns 200 - Array of { tier, endpoint, dailyLimit, source }
+ */
+accessRouter.get("/quotas", adminMiddleware, async c => {
+  try {
+    const quotas = await listQuotas();
+    return c.json(successResponse(quotas));
+  } catch (error) {
+    logger.error("Error fetching access quotas", { error });
+    return c.json(errorResponse("Failed to fetch access quotas"), 500);
+  }
+});
+
+/**
+ * PUT /api/v1/access/quotas/:tier/:endpoint
+ *
+ * Set a tier's daily limit for an endpoint. Takes effect within a minute.
+ * The audit entry records the previously stored quota (null if the tier
+ * used its default).
+ *
+ * @auth Admin required
+ * @body accessQuotaUpdateSchema - { dailyLimit } (null for unlimited)
+ * @returns 200 - { tier, endpoint, dailyLimit, source }
+ */
+accessRouter.put(
+  "/quotas/:tier/:endpoint",
+  adminMiddleware,
+  zValidator("param", accessQuotaParamSchema),
+  zValidator("json", accessQuotaUpdateSchema),
+  async c => {
+    const { tier, endpoint } = c.req.valid("param");
+    const { dailyLimit } = c.req.valid("json");
+
+    try {
+      const quota = await withAudit(async tx => {
+        const before = await getStoredQuota(tier, endpoint, tx);
+        const quota = await setQuota(tier, endpoint, dailyLimit, tx);
+        await recordAudit(tx, c, {
+          entityType: "access_quota",
+          entityId: `${tier}:${endpoint}`,
+          before,
+          after: quota,
+        });
+        return quota;
+      });
+      clearQuotaCache();
+      return c.json(successResponse(quota));
+    } catch (error) {
+      logger.error("Error updating access quota", { error });
+      return c.json(errorResponse("Failed to update access quota"), 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/access/quotas/:tier/:endpoint
+ *
+ * Remove a stored quota so the tier falls back to its default.
+ *
+ * @auth Admin required
+ * @returns 200 - { deleted: true }
+ * @returns 404 - No stored quota for this tier and endpoint
+ */
+accessRouter.delete(
+  "/quotas/:tier/:endpoint",
+  adminMiddleware,
+  zValidator("param", accessQuotaParamSchema),
+  async c => {
+    const { tier, endpoint } = c.req.valid("param");
+
+    try {
+      const deleted = await withAudit(async tx => {
+        const deleted = await deleteQuota(tier, endpoint, tx);
+        if (deleted) {
+          await recordAudit(tx, c, {
+            entityType: "access_quota",
+            entityId: `${tier}:${endpoint}`,
+            before: deleted,
+          });
+        }
+        return deleted;
+      });
+      if (!deleted) {
+        return c.json(errorResponse("Access quota not found"), 404);
+      }
+      clearQuotaCache();
+      return c.json(successResponse({ deleted: true }));
+    } catch (error) {
+      logger.error("Error deleting access quota", { error });
+      return c.json(errorResponse("Failed to delete access quota"), 500);
+    }
+  }
+);
+
+export default accessRouter;
@@ -0,0 +1,355 @@
+/**
+ * @fileoverview Admin management routes for Sudojo API
+ *
+ * Super admin endpoints to manage admin roles and role assignments, and
+ * to query the admin audit log.
+ * Roles are named sets of permissions (e.g., `boards:write`) checked by
+ * adminMiddleware on every admin route; changes apply within a minute.
+ */
+
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { adminMiddleware } from "../middleware/auth";
+import {
+  auditQuerySchema,
+  roleCreateSchema,
+  roleParamSchema,
+  roleUpdateSchema,
+  userIdParamSchema,
+  userRoleParamSchema,
+} from "../schemas";
+import {
+  SUPER_ADMIN_ROLE,
+  assignRole,
+  clearPermissionCache,
+  createRole,
+  deleteRole,
+  getRole,
+  getUserRoles,
+  listRoles,
+  revokeRole,
+  updateRole,
+} from "../services/roles";
+import { listAuditEntries, recordAudit, withAudit } from "../services/audit";
+import { successResponse, errorResponse } from "@sudobility/sudojo_types";
+import { logger } from "../lib/logger";
+
+const adminRouter = new Hono();
+
+// =============================================================================
+// Roles
+// =============================================================================
+
+/**
+ * GET /api/v1/admin/roles
+ *
+ * List all admin roles and their permissions.
+ *
+ * @auth Super admin required
+ * @returns 200 - Array of { name, description, permissions }
+ */
+adminRouter.get("/roles", adminMiddleware, async c => {
+  try {
+    const roles = await listRoles();
+    return c.json(successResponse(roles));
+  } catch (error) {
+    logger.error("Error fetching roles", { error });
+    return c.json(errorResponse("Failed to fetch roles"), 500);
+  }
+});
+
+/**
+ * POST /api/v1/admin/roles
+ *
+ * Create a role.
+ *
+ * @auth Super admin required
+ * @body roleCreateSchema - { name, description?, permissions }
+ * @returns 201 - Created role
+ * @returns 409 - Role already exists
+ */
+adminRouter.post(
+  "/roles",
+  adminMiddleware,
+  zValidator("json", roleCreateSchema),
+  async c => {
+    const body = c.req.valid("json");
+
+    try {
+      const role = await withAudit(async tx => {
+        const role = await createRole(
+          {
+            name: body.name,
+            description: body.description ?? null,
+            permissions: body.permissions,
+          },
+          tx
+        );
+        if (role) {
+          await recordAudit(tx, c, {
+            entityType: "role",
+            entityId: role.name,
+            after: role,
+          });
+        }
+        return role;
+      });
+      if (!role) {
+        return c.json(errorResponse("Role already exists"), 409);
+      }
+      return c.json(successResponse(role), 201);
+    } catch (error) {
+      logger.error("Error creating role", { error });
+      return c.json(errorResponse("Failed to create role"), 500);
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/admin/roles/:name
+ *
+ * Update a role's description or permissions.
+ *
+ * @auth Super admin required
+ * @body roleUpdateSchema - { description?, permissions? }
+ * @returns 200 - Updated role
+ * @returns 404 - Role not found
+ */
+adminRouter.put(
+  "/roles/:name",
+  adminMiddleware,
+  zValidator("param", roleParamSchema),
+  zValidator("json", roleUpdateSchema),
+  async c => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    try {
+      const role = await withAudit(async tx => {
+        const before = await getRole(name, tx);
+        const role = await updateRole(name, body, tx);
+        if (role) {
+          await recordAudit(tx, c, {
+            entityType: "role",
+            entityId: name,
+            before,
+            after: role,
+          });
+        }
+        return role;
+      });
+      if (!role) {
+        return c.json(errorResponse("Role not found"), 404);
+      }
+      clearPermissionCache();
+      return c.json(successResponse(role));
+    } catch (error) {
+      logger.error("Error updating role", { error });
+      return c.json(errorResponse("Failed to update role"), 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/admin/roles/:name
+ *
+ * Delete a role. Users holding it lose its permissions.
+ *
+ * @auth Super admin required
+ * @returns 200 - { deleted: true }
+ * @returns 400 - The super_admin role cannot be deleted
+ * @returns 404 - Role not found
+ */
+adminRouter.delete(
+  "/roles/:name",
+  adminMiddleware,
+  zValidator("param", roleParamSchema),
+  async c => {
+    const { name } = c.req.valid("param");
+
+    if (name === SUPER_ADMIN_ROLE) {
+      return c.json(
+        errorResponse("The super_admin role cannot be deleted"),
+        400
+      );
+    }
+
+    try {
+      const deleted = await withAudit(async tx => {
+        const deleted = await deleteRole(name, tx);
+        if (deleted) {
+          await recordAudit(tx, c, {
+            entityType: "role",
+            entityId: name,
+            before: deleted,
+          });
+        }
+        return deleted;
+      });
+      if (!deleted) {
+        return c.json(errorResponse("Role not found"), 404);
+      }
+      clearPermissionCache();
+      return c.json(successResponse({ deleted: true }));
+    } catch (error) {
+      logger.error("Error deleting role", { error });
+      return c.json(errorResponse("Failed to delete role"), 500);
+    }
+  }
+);
+
+// =============================================================================
+// Role Assignments
+// =============================================================================
+
+/**
+ * GET /api/v1/admin/users/:userId/roles
+ *
+ * List the roles assigned to a user.
+ *
+ * @auth Super admin required
+ * @returns 200 - { userId, roles }
+ */
+adminRouter.get(
+  "/users/:userId/roles",
+  adminMiddleware,
+  zValidator("param", userIdParamSchema),
+  async c => {
+    const { userId } = c.req.valid("param");
+
+    try {
+      const roles = await getUserRoles(userId);
+      return c.json(successResponse({ userId, roles }));
+    } catch (error) {
+      logger.error("Error fetching user roles", { error });
+      return c.json(errorResponse("Failed to fetch user roles"), 500);
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/admin/users/:userId/roles/:role
+ *
+ * Assign a role to a user.
+ *
+ * @auth Super admin required
+ * @returns 200 - { userId, roles }
+ * @returns 404 - Role not found
+ */
+adminRouter.put(
+  "/users/:userId/roles/:role",
+  adminMiddleware,
+  zValidator("param", userRoleParamSchema),
+  async c => {
+    const { userId, role } = c.req.valid("param");
+
+    try {
+      const roles = await withAudit(async tx => {
+        const before = await getUserRoles(userId, tx);
+        const assigned = await assignRole(userId, role, c.get("userId"), tx);
+        if (!assigned) {
+          return null;
+        }
+        const roles = await getUserRoles(userId, tx);
+        await recordAudit(tx, c, {
+          entityType: "user_roles",
+          entityId: userId,
+          before: { roles: before },
+          after: { roles },
+        });
+        return roles;
+      });
+      if (!roles) {
+        return c.json(errorResponse("Role not found"), 404);
+      }
+      clearPermissionCache(userId);
+      return c.json(successResponse({ userId, roles }));
+    } catch (error) {
+      logger.error("Error assigning role", { error });
+      return c.json(errorResponse("Failed to assign role"), 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/admin/users/:userId/roles/:role
+ *
+ * Remove a role from a user.
+ *
+ * @auth Super admin required
+ * @returns 200 - { userId, roles }
+ * @returns 404 - User does not have the role
+ */
+adminRouter.delete(
+  "/users/:userId/roles/:role",
+  adminMiddleware,
+  zValidator("param", userRoleParamSchema),
+  async c => {
+    const { userId, role } = c.req.valid("param");
+
+    try {
+      const roles = await withAudit(async tx => {
+        const before = await getUserRoles(userId, tx);
+        const revoked = await revokeRole(userId, role, tx);
+        if (!revoked) {
+          return null;
+        }
+        const roles = await getUserRoles(userId, tx);
+        await recordAudit(tx, c, {
+          entityType: "user_roles",
+          entityId: userId,
+          before: { roles: before },
+          after: { roles },
+        });
+        return roles;
+      });
+      if (!roles) {
+        return c.json(errorResponse("User does not have this role"), 404);
+      }
+      clearPermissionCache(userId);
+      return c.json(successResponse({ userId, roles }));
+    } catch (error) {
+      logger.error("Error revoking role", { error });
+      return c.json(errorResponse("Failed to revoke role"), 500);
+    }
+  }
+);
+
+// =============================================================================
+// Audit Log
+// =============================================================================
+
+/**
+ * GET /api/v1/admin/audit
+ *
+ * Query the admin audit log, newest first.
+ *
+ * @auth Super admin required
+ * @query actorId - Firebase UID of the admin
+ * @query entityType - Entity kind (e.g., "board", "level", "badge")
+ * @query entityId - Entity identifier
+ * @query method - POST, PUT, PATCH or DELETE
+ * @query from - ISO timestamp, inclusive
+ * @query to - ISO timestamp, exclusive
+ * @query limit - Max entries (default 50, max 200)
+ * @query offset - Pagination offset
+ * @returns 200 - Array of { id, actorId, apiKeyId, method, route, entityType, entityId, before, after, createdAt }
+ */
+adminRouter.get(
+  "/audit",
+  adminMiddleware,
+  zValidator("query", auditQuerySchema),
+  async c => {
+    const query = c.req.valid("query");
+
+    try {
+      const entries = await listAuditEntries(query);
+      return c.json(successResponse(entries));
+    } catch (error) {
+      logger.error("Error fetching audit log", { error });
+      return c.json(errorResponse("Failed to fetch audit log"), 500);
+    }
+  }
+);
+
+export default adminRouter;
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview API key routes for Sudojo API
+ *
+ * Admin endpoints to manage the scoped API keys used by scripts and tools.
+ * Keys are sent in the `X-API-Key` header and need the scope of the route
+ * they call (e.g., `boards:write`). Only super admins can manage keys.
+ */
+
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { adminMiddleware } from "../middleware/auth";
+import {
+  apiKeyCreateSchema,
+  apiKeyUpdateSchema,
+  uuidParamSchema,
+} from "../schemas";
+import {
+  createApiKey,
+  deleteApiKey,
+  getApiKey,
+  listApiKeys,
+  updateApiKey,
+} from "../services/api-keys";
+import { recordAudit, withAudit } from "../services/audit";
+import { successResponse, errorResponse } from "@sudobility/sudojo_types";
+import { logger } from "../lib/logger";
+
+const apiKeysRouter = new Hono();
+
+/**
+ * GET /api/v1/api-keys
+ *
+ * List all API keys (without the keys themselves).
+ *
+ * @auth Super admin required
+ * @returns 200 - Array of { id, name, keyPrefix, scopes, ownerId, expiresAt, lastUsedAt, createdAt }
+ */
+apiKeysRouter.get("/", adminMiddleware, async c => {
+  try {
+    const keys = await listApiKeys();
+    return c.json(successResponse(keys));
+  } catch (error) {
+    logger.error("Error fetching API keys", { error });
+    return c.json(errorResponse("Failed to fetch API keys"), 500);
+  }
+});
+
+/**
+ * POST /api/v1/api-keys
+ *
+ * Create an API key. The raw key is only returned in this response.
+ *
+ * @auth Super admin required
+ * @body apiKeyCreateSchema - { name, scopes, ownerId?, expiresAt? }
+ * @returns 201 - { apiKey, key }
+ */
+apiKeysRouter.post(
+  "/",
+  adminMiddleware,
+  zValidator("json", apiKeyCreateSchema),
+  async c => {
+    const body = c.req.valid("json");
+
+    try {
+      const created = await withAudit(async tx => {
+        const created = await createApiKey(
+          {
+            name: body.name,
+            scopes: body.scopes,
+            ownerId: body.ownerId ?? c.get("userId"),
+            expiresAt: body.expiresAt ?? null,
+          },
+          tx
+        );
+        await recordAudit(tx, c, {
+          entityType: "api_key",
+          entityId: created.apiKey.id,
+          after: created.apiKey,
+        });
+        return created;
+      });
+      return c.json(successResponse(created), 201);
+    } catch (error) {
+      logger.error("Error creating API key", { error });
+      return c.json(errorResponse("Failed to create API key"), 500);
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/api-keys/:uuid
+ *
+ * Update an API key's name, scopes, owner or expiry.
+ *
+ * @auth Super admin required
+ * @body apiKeyUpdateSchema - { name?, scopes?, ownerId?, expiresAt? }
+ * @returns 200 - Updated key
+ * @returns 404 - API key not found
+ */
+apiKeysRouter.put(
+  "/:uuid",
+  adminMiddleware,
+  zValidator("param", uuidParamSchema),
+  zValidator("json", apiKeyUpdateSchema),
+  async c => {
+    const { uuid } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    try {
+      const updated = await withAudit(async tx => {
+        const before = await getApiKey(uuid, tx);
+        const updated = await updateApiKey(uuid, body, tx);
+        if (updated) {
+          await recordAudit(tx, c, {
+            entityType: "api_key",
+            entityId: uuid,
+            before,
+            after: updated,
+          });
+        }
+        return updated;
+      });
+      if (!updated) {
+        return c.json(errorResponse("API key not found"), 404);
+      }
+      return c.json(successResponse(updated));
+    } catch (error) {
+      logger.error("Error updating API key", { error });
+      return c.json(errorResponse("Failed to update API key"), 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/api-keys/:uuid
+ *
+ * Revoke an API key. Requests using it are rejected immediately.
+ *
+ * @auth Super admin required
+ * @returns 200 - { deleted: true }
+ * @returns 404 - API key not found
+ */
+apiKeysRouter.delete(
+  "/:uuid",
+  adminMiddleware,
+  zValidator("param", uuidParamSchema),
+  async c => {
+    const { uuid } = c.req.valid("param");
+
+    try {
+      const deleted = await withAudit(async tx => {
+        const deleted = await deleteApiKey(uuid, tx);
+        if (deleted) {
+          await recordAudit(tx, c, {
+            entityType: "api_key",
+            entityId: uuid,
+            before: deleted,
+          });
+        }
+        return deleted;
+      });
+      if (!deleted) {
+        return c.json(errorResponse("API key not found"), 404);
+      }
+      return c.json(successResponse({ deleted: true }));
+    } catch (error) {
+      logger.error("Error deleting API key", { error });
+      return c.json(errorResponse("Failed to delete API key"), 500);
+    }
+  }
+);
+
+export default apiKeysRouter;
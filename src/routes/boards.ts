@@ -4,12 +4,15 @@
  * Provides CRUD endpoints for Sudoku puzzle boards.
  * Each board has an 81-char board string, solution, optional level, and techniques bitfield.
  * Public endpoints: GET (list with filters, counts, random, get by UUID)
- * Admin endpoints: POST, PUT, DELETE (require Firebase admin auth)
+ * Admin endpoints: POST, PUT, DELETE, restore (require Firebase admin auth)
+ *
+ * Deleted boards are soft-deleted (deleted_at set), hidden from every query
+ * and purged after a grace period (see services/soft-delete.ts).
  */
 
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { and, eq, desc, sql } from "drizzle-orm";
+import { and, eq, desc, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
 import { db, boards, levels, techniques } from "../db";
 import {
   boardCreateSchema,
@@ -17,6 +20,8 @@ import {
   uuidParamSchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
+import { createAccessControlMiddleware } from "../middleware/accessControl";
 import {
   successResponse,
   errorResponse,
@@ -48,13 +53,13 @@ boardsRouter.get("/", async c => {
   const limit = c.req.query("limit");
   const offset = c.req.query("offset");
 
-  let query = db.select().from(boards).$dynamic();
+  const conditions: SQL[] = [isNull(boards.deleted_at)];
 
   // Filter by level if provided
   if (levelParam) {
     const level = parseInt(levelParam, 10);
     if (!isNaN(level)) {
-      query = query.where(eq(boards.level, level));
+      conditions.push(eq(boards.level, level));
     }
   }
 
@@ -62,7 +67,7 @@ boardsRouter.get("/", async c => {
   if (techniqueBit) {
     const bit = parseInt(techniqueBit, 10);
     if (!isNaN(bit) && bit > 0) {
-      query = query.where(sql`(${boards.techniques} & ${bit}) != 0`);
+      conditions.push(sql`(${boards.techniques} & ${bit}) != 0`);
     }
   }
 
@@ -72,15 +77,21 @@ boardsRouter.get("/", async c => {
     if (!isNaN(techniquesNum)) {
       if (techniquesNum === 0) {
         // Include both 0 and NULL
-        query = query.where(
-          sql`${boards.techniques} = 0 OR ${boards.techniques} IS NULL`
+        conditions.push(
+          sql`(${boards.techniques} = 0 OR ${boards.techniques} IS NULL)`
         );
       } else {
-        query = query.where(eq(boards.techniques, techniquesNum));
+        conditions.push(eq(boards.techniques, techniquesNum));
       }
     }
   }
 
+  let query = db
+    .select()
+    .from(boards)
+    .where(and(...conditions))
+    .$dynamic();
+
   // Order and limit/offset
   query = query.orderBy(desc(boards.created_at));
   if (offset) {
@@ -111,12 +122,18 @@ boardsRouter.get("/", async c => {
 boardsRouter.get("/counts", async c => {
   const [totalResult] = await db
     .select({ count: sql<number>`count(*)::int` })
-    .from(boards);
+    .from(boards)
+    .where(isNull(boards.deleted_at));
 
   const [zeroTechniquesResult] = await db
     .select({ count: sql<number>`count(*)::int` })
     .from(boards)
-    .where(sql`${boards.techniques} = 0 OR ${boards.techniques} IS NULL`);
+    .where(
+      and(
+        isNull(boards.deleted_at),
+        sql`(${boards.techniques} = 0 OR ${boards.techniques} IS NULL)`
+      )
+    );
 
   const countsData: BoardCountsData = {
     total: totalResult?.count ?? 0,
@@ -144,7 +161,12 @@ boardsRouter.get("/counts/by-technique", async c => {
     const [result] = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(boards)
-      .where(sql`(${boards.techniques} & (1::bigint << ${technique})) != 0`);
+      .where(
+        and(
+          isNull(boards.deleted_at),
+          sql`(${boards.techniques} & (1::bigint << ${technique})) != 0`
+        )
+      );
     counts[technique] = result?.count ?? 0;
   }
 
@@ -156,42 +178,47 @@ boardsRouter.get("/counts/by-technique", async c => {
  *
  * Get a random board with optional filtering.
  *
- * @public No authentication required
+ * @auth Optional - daily quota per access tier ("boards")
  * @query level - Filter by difficulty level (integer)
  * @query symmetrical - Filter for symmetrical boards ("true")
  * @returns 200 - Single board object
+ * @returns 402 - Daily limit reached
  * @returns 404 - No boards found matching criteria
  */
-boardsRouter.get("/random", async c => {
-  const levelParam = c.req.query("level");
-  const symmetricalParam = c.req.query("symmetrical");
+boardsRouter.get(
+  "/random",
+  createAccessControlMiddleware("boards"),
+  async c => {
+    const levelParam = c.req.query("level");
+    const symmetricalParam = c.req.query("symmetrical");
 
-  const conditions = [];
+    const conditions = [isNull(boards.deleted_at)];
 
-  if (levelParam) {
-    const level = parseInt(levelParam, 10);
-    if (!isNaN(level)) {
-      conditions.push(eq(boards.level, level));
+    if (levelParam) {
+      const level = parseInt(levelParam, 10);
+      if (!isNaN(level)) {
+        conditions.push(eq(boards.level, level));
+      }
     }
-  }
 
-  if (symmetricalParam === "true") {
-    conditions.push(eq(boards.symmetrical, true));
-  }
+    if (symmetricalParam === "true") {
+      conditions.push(eq(boards.symmetrical, true));
+    }
 
-  const rows = await db
-    .select()
-    .from(boards)
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
-    .orderBy(sql`RANDOM()`)
-    .limit(1);
+    const rows = await db
+      .select()
+      .from(boards)
+      .where(and(...conditions))
+      .orderBy(sql`RANDOM()`)
+      .limit(1);
 
-  if (rows.length === 0) {
-    return c.json(errorResponse("No boards found"), 404);
-  }
+    if (rows.length === 0) {
+      return c.json(errorResponse("No boards found"), 404);
+    }
 
-  return c.json(successResponse(rows[0] as Board));
-});
+    return c.json(successResponse(rows[0] as Board));
+  }
+);
 
 /**
  * GET /api/v1/boards/:uuid
@@ -205,7 +232,10 @@ boardsRouter.get("/random", async c => {
  */
 boardsRouter.get("/:uuid", zValidator("param", uuidParamSchema), async c => {
   const { uuid } = c.req.valid("param");
-  const rows = await db.select().from(boards).where(eq(boards.uuid, uuid));
+  const rows = await db
+    .select()
+    .from(boards)
+    .where(and(eq(boards.uuid, uuid), isNull(boards.deleted_at)));
 
   if (rows.length === 0) {
     return c.json(errorResponse("Board not found"), 404);
@@ -222,7 +252,7 @@ boardsRouter.get("/:uuid", zValidator("param", uuidParamSchema), async c => {
  * - Level ratio: boards with this level / total boards
  * - Technique ratio: boards with this technique bit set / total boards
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @returns 200 - { levels: Record<number, number>, techniques: Record<number, number> }
  */
 boardsRouter.post("/update-stats", adminMiddleware, async c => {
@@ -230,7 +260,7 @@ boardsRouter.post("/update-stats", adminMiddleware, async c => {
   const [totalResult] = await db
     .select({ count: sql<number>`count(*)::int` })
     .from(boards)
-    .where(sql`${boards.techniques} > 0`);
+    .where(and(isNull(boards.deleted_at), sql`${boards.techniques} > 0`));
   const total = totalResult?.count ?? 0;
 
   if (total === 0) {
@@ -238,54 +268,69 @@ boardsRouter.post("/update-stats", adminMiddleware, async c => {
     return c.json(successResponse(emptyStats));
   }
 
-  // Calculate level ratios
-  const levelRows = await db
-    .select({
-      level: boards.level,
-      count: sql<number>`count(*)::int`,
-    })
-    .from(boards)
-    .where(sql`${boards.level} IS NOT NULL AND ${boards.techniques} > 0`)
-    .groupBy(boards.level);
-
-  const levelRatios: Record<number, number> = {};
-  for (const row of levelRows) {
-    if (row.level !== null) {
-      const ratio = row.count / total;
-      levelRatios[row.level] = ratio;
-
-      await db
-        .update(levels)
-        .set({ percentage: ratio, updated_at: new Date() })
-        .where(eq(levels.level, row.level));
+  // Ratios and the audit entry are written in one transaction
+  const statsData = await withAudit(async tx => {
+    // Calculate level ratios
+    const levelRows = await tx
+      .select({
+        level: boards.level,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(boards)
+      .where(
+        and(
+          isNull(boards.deleted_at),
+          sql`${boards.level} IS NOT NULL AND ${boards.techniques} > 0`
+        )
+      )
+      .groupBy(boards.level);
+
+    const levelRatios: Record<number, number> = {};
+    for (const row of levelRows) {
+      if (row.level !== null) {
+        const ratio = row.count / total;
+        levelRatios[row.level] = ratio;
+
+        await tx
+          .update(levels)
+          .set({ percentage: ratio, updated_at: new Date() })
+          .where(eq(levels.level, row.level));
+      }
     }
-  }
 
-  // Calculate technique ratios (techniques 1-60)
-  // Use PostgreSQL native bit shift to avoid JavaScript Number precision loss
-  // for technique IDs >= 53 (where 2^t exceeds Number.MAX_SAFE_INTEGER)
-  const techniqueRatios: Record<number, number> = {};
-  for (let t = 1; t <= 60; t++) {
-    const [result] = await db
-      .select({ count: sql<number>`count(*)::int` })
-      .from(boards)
-      .where(sql`(${boards.techniques} & (1::bigint << ${t})) != 0`);
-    const count = result?.count ?? 0;
-    if (count > 0) {
-      const ratio = count / total;
-      techniqueRatios[t] = ratio;
-
-      await db
-        .update(techniques)
-        .set({ percentage: ratio, updated_at: new Date() })
-        .where(eq(techniques.technique, t));
+    // Calculate technique ratios (techniques 1-60)
+    // Use PostgreSQL native bit shift to avoid JavaScript Number precision loss
+    // for technique IDs >= 53 (where 2^t exceeds Number.MAX_SAFE_INTEGER)
+    const techniqueRatios: Record<number, number> = {};
+    for (let t = 1; t <= 60; t++) {
+      const [result] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(boards)
+        .where(
+          and(
+            isNull(boards.deleted_at),
+            sql`(${boards.techniques} & (1::bigint << ${t})) != 0`
+          )
+        );
+      const count = result?.count ?? 0;
+      if (count > 0) {
+        const ratio = count / total;
+        techniqueRatios[t] = ratio;
+
+        await tx
+          .update(techniques)
+          .set({ percentage: ratio, updated_at: new Date() })
+          .where(eq(techniques.technique, t));
+      }
     }
-  }
 
-  const statsData: UpdateStatsData = {
-    levels: levelRatios,
-    techniques: techniqueRatios,
-  };
+    const statsData: UpdateStatsData = {
+      levels: levelRatios,
+      techniques: techniqueRatios,
+    };
+    await recordAudit(tx, c, { entityType: "board_stats", after: statsData });
+    return statsData;
+  });
   return c.json(successResponse(statsData));
 });
 
@@ -294,7 +339,7 @@ boardsRouter.post("/update-stats", adminMiddleware, async c => {
  *
  * Create a new board. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body boardCreateSchema - { board, solution, level?, symmetrical?, techniques? }
  * @returns 201 - Created board object
  * @returns 401 - Missing or invalid auth token
@@ -307,17 +352,25 @@ boardsRouter.post(
   async c => {
     const body = c.req.valid("json");
 
-    const rows = await db
-      .insert(boards)
-      .values({
-        level: body.level ?? null,
-        symmetrical: body.symmetrical,
-        board: body.board,
-        solution: body.solution,
-        techniques: body.techniques,
-      })
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .insert(boards)
+        .values({
+          level: body.level ?? null,
+          symmetrical: body.symmetrical,
+          board: body.board,
+          solution: body.solution,
+          techniques: body.techniques,
+        })
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "board",
+        entityId: rows[0]!.uuid,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Board), 201);
   }
 );
@@ -328,7 +381,7 @@ boardsRouter.post(
  * Update an existing board. Requires admin authentication.
  * Only provided fields are updated; omitted fields retain their current values.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @body boardUpdateSchema - { board?, solution?, level?, symmetrical?, techniques? }
  * @returns 200 - Updated board object
@@ -348,25 +401,34 @@ boardsRouter.put(
     const existing = await db
       .select()
       .from(boards)
-      .where(eq(boards.uuid, uuid));
+      .where(and(eq(boards.uuid, uuid), isNull(boards.deleted_at)));
     if (existing.length === 0) {
       return c.json(errorResponse("Board not found"), 404);
     }
 
     const current = existing[0]!;
-    const rows = await db
-      .update(boards)
-      .set({
-        level: body.level !== undefined ? body.level : current.level,
-        symmetrical: body.symmetrical ?? current.symmetrical,
-        board: body.board ?? current.board,
-        solution: body.solution ?? current.solution,
-        techniques: body.techniques ?? current.techniques,
-        updated_at: new Date(),
-      })
-      .where(eq(boards.uuid, uuid))
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .update(boards)
+        .set({
+          level: body.level !== undefined ? body.level : current.level,
+          symmetrical: body.symmetrical ?? current.symmetrical,
+          board: body.board ?? current.board,
+          solution: body.solution ?? current.solution,
+          techniques: body.techniques ?? current.techniques,
+          updated_at: new Date(),
+        })
+        .where(eq(boards.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "board",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Board));
   }
 );
@@ -374,10 +436,11 @@ boardsRouter.put(
 /**
  * DELETE /api/v1/boards/:uuid
  *
- * Delete a board. Requires admin authentication.
- * Referencing dailies/challenges will have their board_uuid set to NULL.
+ * Soft-delete a board. Requires admin authentication.
+ * The board is hidden immediately and can be restored until it is purged;
+ * referencing dailies/challenges have their board_uuid set to NULL on purge.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @returns 200 - Deleted board object
  * @returns 401 - Missing or invalid auth token
@@ -391,10 +454,30 @@ boardsRouter.delete(
   async c => {
     const { uuid } = c.req.valid("param");
 
-    const rows = await db
-      .delete(boards)
-      .where(eq(boards.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(boards)
+        .where(and(eq(boards.uuid, uuid), isNull(boards.deleted_at)))
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(boards)
+        .set({ deleted_at: new Date() })
+        .where(eq(boards.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "board",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Board not found"), 404);
@@ -404,4 +487,56 @@ boardsRouter.delete(
   }
 );
 
+/**
+ * POST /api/v1/boards/:uuid/restore
+ *
+ * Restore a soft-deleted board. Requires admin authentication.
+ *
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
+ * @param uuid - Valid UUID string
+ * @returns 200 - Restored board object
+ * @returns 401 - Missing or invalid auth token
+ * @returns 403 - Not an admin user
+ * @returns 404 - No deleted board with this UUID (never deleted, or purged)
+ */
+boardsRouter.post(
+  "/:uuid/restore",
+  adminMiddleware,
+  zValidator("param", uuidParamSchema),
+  async c => {
+    const { uuid } = c.req.valid("param");
+
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(boards)
+        .where(and(eq(boards.uuid, uuid), isNotNull(boards.deleted_at)))
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(boards)
+        .set({ deleted_at: null, updated_at: new Date() })
+        .where(eq(boards.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "board",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Deleted board not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0] as Board));
+  }
+);
+
 export default boardsRouter;
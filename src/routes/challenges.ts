@@ -4,12 +4,14 @@
  * Provides CRUD endpoints for challenge puzzles.
  * Challenges have a difficulty rating (1-10) and optional level association.
  * Public endpoints: GET (list with level/difficulty filters, random, get by UUID)
- * Admin endpoints: POST, PUT, DELETE (require Firebase admin auth)
+ * Admin endpoints: POST, PUT, DELETE, restore (require Firebase admin auth)
+ *
+ * Deleted challenges are soft-deleted and purged after a grace period.
  */
 
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { eq, and, asc, desc, sql } from "drizzle-orm";
+import { eq, and, asc, desc, isNull, isNotNull, sql } from "drizzle-orm";
 import { db, challenges } from "../db";
 import {
   challengeCreateSchema,
@@ -17,6 +19,8 @@ import {
   uuidParamSchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
+import { createAccessControlMiddleware } from "../middleware/accessControl";
 import {
   successResponse,
   errorResponse,
@@ -49,7 +53,8 @@ challengesRouter.get("/", async c => {
         .where(
           and(
             eq(challenges.level, level),
-            eq(challenges.difficulty, parseInt(difficulty))
+            eq(challenges.difficulty, parseInt(difficulty)),
+            isNull(challenges.deleted_at)
           )
         )
         .orderBy(asc(challenges.difficulty));
@@ -57,6 +62,7 @@ challengesRouter.get("/", async c => {
       rows = await db
         .select()
         .from(challenges)
+        .where(isNull(challenges.deleted_at))
         .orderBy(asc(challenges.difficulty), desc(challenges.created_at));
     }
   } else if (levelParam) {
@@ -65,24 +71,31 @@ challengesRouter.get("/", async c => {
       rows = await db
         .select()
         .from(challenges)
-        .where(eq(challenges.level, level))
+        .where(and(eq(challenges.level, level), isNull(challenges.deleted_at)))
         .orderBy(asc(challenges.difficulty));
     } else {
       rows = await db
         .select()
         .from(challenges)
+        .where(isNull(challenges.deleted_at))
         .orderBy(asc(challenges.difficulty), desc(challenges.created_at));
     }
   } else if (difficulty) {
     rows = await db
       .select()
       .from(challenges)
-      .where(eq(challenges.difficulty, parseInt(difficulty)))
+      .where(
+        and(
+          eq(challenges.difficulty, parseInt(difficulty)),
+          isNull(challenges.deleted_at)
+        )
+      )
       .orderBy(desc(challenges.created_at));
   } else {
     rows = await db
       .select()
       .from(challenges)
+      .where(isNull(challenges.deleted_at))
       .orderBy(asc(challenges.difficulty), desc(challenges.created_at));
   }
 
@@ -94,27 +107,71 @@ challengesRouter.get("/", async c => {
  *
  * Get a random challenge with optional filtering.
  *
- * @public No authentication required
+ * @auth Optional - daily quota per access tier ("challenges")
  * @query level - Filter by difficulty level (integer)
  * @query difficulty - Filter by difficulty rating (integer 1-10)
  * @returns 200 - Single challenge object
+ * @returns 402 - Daily limit reached
  * @returns 404 - No challenges found matching criteria
  */
-challengesRouter.get("/random", async c => {
-  const levelParam = c.req.query("level");
-  const difficulty = c.req.query("difficulty");
+challengesRouter.get(
+  "/random",
+  createAccessControlMiddleware("challenges"),
+  async c => {
+    const levelParam = c.req.query("level");
+    const difficulty = c.req.query("difficulty");
 
-  let rows;
-  if (levelParam && difficulty) {
-    const level = parseInt(levelParam, 10);
-    if (!isNaN(level)) {
+    let rows;
+    if (levelParam && difficulty) {
+      const level = parseInt(levelParam, 10);
+      if (!isNaN(level)) {
+        rows = await db
+          .select()
+          .from(challenges)
+          .where(
+            and(
+              eq(challenges.level, level),
+              eq(challenges.difficulty, parseInt(difficulty)),
+              isNull(challenges.deleted_at)
+            )
+          )
+          .orderBy(sql`RANDOM()`)
+          .limit(1);
+      } else {
+        rows = await db
+          .select()
+          .from(challenges)
+          .where(isNull(challenges.deleted_at))
+          .orderBy(sql`RANDOM()`)
+          .limit(1);
+      }
+    } else if (levelParam) {
+      const level = parseInt(levelParam, 10);
+      if (!isNaN(level)) {
+        rows = await db
+          .select()
+          .from(challenges)
+          .where(
+            and(eq(challenges.level, level), isNull(challenges.deleted_at))
+          )
+          .orderBy(sql`RANDOM()`)
+          .limit(1);
+      } else {
+        rows = await db
+          .select()
+          .from(challenges)
+          .where(isNull(challenges.deleted_at))
+          .orderBy(sql`RANDOM()`)
+          .limit(1);
+      }
+    } else if (difficulty) {
       rows = await db
         .select()
         .from(challenges)
         .where(
           and(
-            eq(challenges.level, level),
-            eq(challenges.difficulty, parseInt(difficulty))
+            eq(challenges.difficulty, parseInt(difficulty)),
+            isNull(challenges.deleted_at)
           )
         )
         .orderBy(sql`RANDOM()`)
@@ -123,46 +180,18 @@ challengesRouter.get("/random", async c => {
       rows = await db
         .select()
         .from(challenges)
+        .where(isNull(challenges.deleted_at))
         .orderBy(sql`RANDOM()`)
         .limit(1);
     }
-  } else if (levelParam) {
-    const level = parseInt(levelParam, 10);
-    if (!isNaN(level)) {
-      rows = await db
-        .select()
-        .from(challenges)
-        .where(eq(challenges.level, level))
-        .orderBy(sql`RANDOM()`)
-        .limit(1);
-    } else {
-      rows = await db
-        .select()
-        .from(challenges)
-        .orderBy(sql`RANDOM()`)
-        .limit(1);
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("No challenges found"), 404);
     }
-  } else if (difficulty) {
-    rows = await db
-      .select()
-      .from(challenges)
-      .where(eq(challenges.difficulty, parseInt(difficulty)))
-      .orderBy(sql`RANDOM()`)
-      .limit(1);
-  } else {
-    rows = await db
-      .select()
-      .from(challenges)
-      .orderBy(sql`RANDOM()`)
-      .limit(1);
-  }
 
-  if (rows.length === 0) {
-    return c.json(errorResponse("No challenges found"), 404);
+    return c.json(successResponse(rows[0] as Challenge));
   }
-
-  return c.json(successResponse(rows[0] as Challenge));
-});
+);
 
 /**
  * GET /api/v1/challenges/:uuid
@@ -182,7 +211,7 @@ challengesRouter.get(
     const rows = await db
       .select()
       .from(challenges)
-      .where(eq(challenges.uuid, uuid));
+      .where(and(eq(challenges.uuid, uuid), isNull(challenges.deleted_at)));
 
     if (rows.length === 0) {
       return c.json(errorResponse("Challenge not found"), 404);
@@ -197,7 +226,7 @@ challengesRouter.get(
  *
  * Create a new challenge. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body challengeCreateSchema - { board, solution, board_uuid?, level?, difficulty? }
  * @returns 201 - Created challenge object
  * @returns 401 - Missing or invalid auth token
@@ -210,17 +239,25 @@ challengesRouter.post(
   async c => {
     const body = c.req.valid("json");
 
-    const rows = await db
-      .insert(challenges)
-      .values({
-        board_uuid: body.board_uuid ?? null,
-        level: body.level ?? null,
-        difficulty: body.difficulty,
-        board: body.board,
-        solution: body.solution,
-      })
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .insert(challenges)
+        .values({
+          board_uuid: body.board_uuid ?? null,
+          level: body.level ?? null,
+          difficulty: body.difficulty,
+          board: body.board,
+          solution: body.solution,
+        })
+        .returning();
 
+      await recordAudit(tx, c, {
+        entityType: "challenge",
+        entityId: rows[0]!.uuid,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Challenge), 201);
   }
 );
@@ -231,7 +268,7 @@ challengesRouter.post(
  * Update an existing challenge. Requires admin authentication.
  * Only provided fields are updated; omitted fields retain their current values.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @body challengeUpdateSchema - { board?, solution?, board_uuid?, level?, difficulty? }
  * @returns 200 - Updated challenge object
@@ -251,26 +288,37 @@ challengesRouter.put(
     const existing = await db
       .select()
       .from(challenges)
-      .where(eq(challenges.uuid, uuid));
+      .where(and(eq(challenges.uuid, uuid), isNull(challenges.deleted_at)));
     if (existing.length === 0) {
       return c.json(errorResponse("Challenge not found"), 404);
     }
 
     const current = existing[0]!;
-    const rows = await db
-      .update(challenges)
-      .set({
-        board_uuid:
-          body.board_uuid !== undefined ? body.board_uuid : current.board_uuid,
-        level: body.level !== undefined ? body.level : current.level,
-        difficulty: body.difficulty ?? current.difficulty,
-        board: body.board ?? current.board,
-        solution: body.solution ?? current.solution,
-        updated_at: new Date(),
-      })
-      .where(eq(challenges.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .update(challenges)
+        .set({
+          board_uuid:
+            body.board_uuid !== undefined
+              ? body.board_uuid
+              : current.board_uuid,
+          level: body.level !== undefined ? body.level : current.level,
+          difficulty: body.difficulty ?? current.difficulty,
+          board: body.board ?? current.board,
+          solution: body.solution ?? current.solution,
+          updated_at: new Date(),
+        })
+        .where(eq(challenges.uuid, uuid))
+        .returning();
 
+      await recordAudit(tx, c, {
+        entityType: "challenge",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Challenge));
   }
 );
@@ -278,9 +326,10 @@ challengesRouter.put(
 /**
  * DELETE /api/v1/challenges/:uuid
  *
- * Delete a challenge. Requires admin authentication.
+ * Soft-delete a challenge. Requires admin authentication.
+ * The challenge is hidden immediately and can be restored until it is purged.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @returns 200 - Deleted challenge object
  * @returns 401 - Missing or invalid auth token
@@ -294,10 +343,30 @@ challengesRouter.delete(
   async c => {
     const { uuid } = c.req.valid("param");
 
-    const rows = await db
-      .delete(challenges)
-      .where(eq(challenges.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(challenges)
+        .where(and(eq(challenges.uuid, uuid), isNull(challenges.deleted_at)))
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(challenges)
+        .set({ deleted_at: new Date() })
+        .where(eq(challenges.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "challenge",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Challenge not found"), 404);
@@ -307,4 +376,56 @@ challengesRouter.delete(
   }
 );
 
+/**
+ * POST /api/v1/challenges/:uuid/restore
+ *
+ * Restore a soft-deleted challenge. Requires admin authentication.
+ *
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
+ * @param uuid - Valid UUID string
+ * @returns 200 - Restored challenge object
+ * @returns 401 - Missing or invalid auth token
+ * @returns 403 - Not an admin user
+ * @returns 404 - No deleted challenge with this UUID (never deleted, or purged)
+ */
+challengesRouter.post(
+  "/:uuid/restore",
+  adminMiddleware,
+  zValidator("param", uuidParamSchema),
+  async c => {
+    const { uuid } = c.req.valid("param");
+
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(challenges)
+        .where(and(eq(challenges.uuid, uuid), isNotNull(challenges.deleted_at)))
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(challenges)
+        .set({ deleted_at: null, updated_at: new Date() })
+        .where(eq(challenges.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "challenge",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Deleted challenge not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0] as Challenge));
+  }
+);
+
 export default challengesRouter;
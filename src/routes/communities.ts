@@ -17,6 +17,7 @@ import {
   uuidParamSchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
 import {
   successResponse,
   errorResponse,
@@ -91,7 +92,7 @@ communitiesRouter.get(
  *
  * Create a new community. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body communityCreateSchema
  * @returns 201 - Created community object
  */
@@ -102,20 +103,28 @@ communitiesRouter.post(
   async c => {
     const body = c.req.valid("json");
 
-    const rows = await db
-      .insert(communities)
-      .values({
-        language_code: body.language_code,
-        name: body.name,
-        name_english: body.name_english ?? null,
-        description: body.description,
-        url: body.url,
-        platform: body.platform,
-        sort_order: body.sort_order ?? 0,
-        icon_url: body.icon_url ?? null,
-      })
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .insert(communities)
+        .values({
+          language_code: body.language_code,
+          name: body.name,
+          name_english: body.name_english ?? null,
+          description: body.description,
+          url: body.url,
+          platform: body.platform,
+          sort_order: body.sort_order ?? 0,
+          icon_url: body.icon_url ?? null,
+        })
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "community",
+        entityId: rows[0]!.uuid,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Community), 201);
   }
 );
@@ -125,7 +134,7 @@ communitiesRouter.post(
  *
  * Update an existing community. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - UUID v4
  * @body communityUpdateSchema
  * @returns 200 - Updated community object
@@ -149,27 +158,38 @@ communitiesRouter.put(
     }
 
     const current = existing[0]!;
-    const rows = await db
-      .update(communities)
-      .set({
-        language_code: body.language_code ?? current.language_code,
-        name: body.name ?? current.name,
-        name_english:
-          body.name_english !== undefined
-            ? body.name_english
-            : current.name_english,
-        description: body.description ?? current.description,
-        url: body.url ?? current.url,
-        platform: body.platform ?? current.platform,
-        sort_order:
-          body.sort_order !== undefined ? body.sort_order : current.sort_order,
-        icon_url:
-          body.icon_url !== undefined ? body.icon_url : current.icon_url,
-        updated_at: new Date(),
-      })
-      .where(eq(communities.uuid, uuid))
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .update(communities)
+        .set({
+          language_code: body.language_code ?? current.language_code,
+          name: body.name ?? current.name,
+          name_english:
+            body.name_english !== undefined
+              ? body.name_english
+              : current.name_english,
+          description: body.description ?? current.description,
+          url: body.url ?? current.url,
+          platform: body.platform ?? current.platform,
+          sort_order:
+            body.sort_order !== undefined
+              ? body.sort_order
+              : current.sort_order,
+          icon_url:
+            body.icon_url !== undefined ? body.icon_url : current.icon_url,
+          updated_at: new Date(),
+        })
+        .where(eq(communities.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "community",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Community));
   }
 );
@@ -179,7 +199,7 @@ communitiesRouter.put(
  *
  * Delete a community. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - UUID v4
  * @returns 200 - Deleted community object
  * @returns 404 - Community not found
@@ -191,10 +211,21 @@ communitiesRouter.delete(
   async c => {
     const { uuid } = c.req.valid("param");
 
-    const rows = await db
-      .delete(communities)
-      .where(eq(communities.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .delete(communities)
+        .where(eq(communities.uuid, uuid))
+        .returning();
+
+      if (rows.length > 0) {
+        await recordAudit(tx, c, {
+          entityType: "community",
+          entityId: uuid,
+          before: rows[0],
+        });
+      }
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Community not found"), 404);
@@ -4,27 +4,35 @@
  * Provides CRUD endpoints for daily puzzles. Each daily has a unique date.
  * When no daily exists for a requested date, a fallback puzzle is generated
  * by selecting a random level 3-5 board and scrambling it.
- * Public endpoints: GET (list, today, by date, by UUID)
- * Admin endpoints: POST, PUT, DELETE (require Firebase admin auth)
+ * Public endpoints: GET (list, today, by date, by UUID, leaderboard by date)
+ * Admin endpoints: POST, PUT, DELETE, restore (require Firebase admin auth)
+ *
+ * Deleted dailies are soft-deleted and purged after a grace period; a
+ * deleted daily no longer occupies its date.
  */
 
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { eq, desc, sql, and, gte, lte } from "drizzle-orm";
+import { eq, desc, sql, and, gte, lte, isNull, isNotNull } from "drizzle-orm";
 import { db, dailies, levels, boards } from "../db";
 import {
   dailyCreateSchema,
   dailyUpdateSchema,
   uuidParamSchema,
   dateParamSchema,
+  dailyLeaderboardQuerySchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
+import { createAccessControlMiddleware } from "../middleware/accessControl";
+import { getDailyLeaderboard } from "../services/leaderboard";
 import {
   successResponse,
   errorResponse,
   scrambleBoard,
   type Daily,
 } from "@sudobility/sudojo_types";
+import { logger } from "../lib/logger";
 
 const dailiesRouter = new Hono();
 
@@ -51,7 +59,7 @@ async function getRandomFallbackPuzzle(date: string): Promise<Daily | null> {
   const puzzleRows = await db
     .select()
     .from(boards)
-    .where(eq(boards.level, randomLevel.level))
+    .where(and(eq(boards.level, randomLevel.level), isNull(boards.deleted_at)))
     .orderBy(sql`RANDOM()`)
     .limit(1);
 
@@ -60,6 +68,7 @@ async function getRandomFallbackPuzzle(date: string): Promise<Daily | null> {
     const anyPuzzleRows = await db
       .select()
       .from(boards)
+      .where(isNull(boards.deleted_at))
       .orderBy(sql`RANDOM()`)
       .limit(1);
 
@@ -110,7 +119,11 @@ async function getRandomFallbackPuzzle(date: string): Promise<Daily | null> {
  * @returns 200 - Array of daily puzzle objects
  */
 dailiesRouter.get("/", async c => {
-  const rows = await db.select().from(dailies).orderBy(desc(dailies.date));
+  const rows = await db
+    .select()
+    .from(dailies)
+    .where(isNull(dailies.deleted_at))
+    .orderBy(desc(dailies.date));
   return c.json(successResponse(rows as Daily[]));
 });
 
@@ -120,25 +133,33 @@ dailiesRouter.get("/", async c => {
  * Get today's daily puzzle. Falls back to a random scrambled
  * puzzle with level 3-5 if no daily has been created for today.
  *
- * @public No authentication required
+ * @auth Optional - daily quota per access tier ("dailies")
  * @returns 200 - Daily puzzle object (or fallback puzzle)
+ * @returns 402 - Daily limit reached
  * @returns 404 - No puzzles available in database
  */
-dailiesRouter.get("/today", async c => {
-  const today = new Date().toISOString().split("T")[0] as string;
-  const rows = await db.select().from(dailies).where(eq(dailies.date, today));
+dailiesRouter.get(
+  "/today",
+  createAccessControlMiddleware("dailies"),
+  async c => {
+    const today = new Date().toISOString().split("T")[0] as string;
+    const rows = await db
+      .select()
+      .from(dailies)
+      .where(and(eq(dailies.date, today), isNull(dailies.deleted_at)));
 
-  if (rows.length === 0) {
-    // Fallback: get a random puzzle with level 3-5 and scramble it
-    const fallback = await getRandomFallbackPuzzle(today);
-    if (!fallback) {
-      return c.json(errorResponse("No puzzles available"), 404);
+    if (rows.length === 0) {
+      // Fallback: get a random puzzle with level 3-5 and scramble it
+      const fallback = await getRandomFallbackPuzzle(today);
+      if (!fallback) {
+        return c.json(errorResponse("No puzzles available"), 404);
+      }
+      return c.json(successResponse(fallback));
     }
-    return c.json(successResponse(fallback));
-  }
 
-  return c.json(successResponse(rows[0] as Daily));
-});
+    return c.json(successResponse(rows[0] as Daily));
+  }
+);
 
 /**
  * GET /api/v1/dailies/date/:date
@@ -156,7 +177,10 @@ dailiesRouter.get(
   zValidator("param", dateParamSchema),
   async c => {
     const { date } = c.req.valid("param");
-    const rows = await db.select().from(dailies).where(eq(dailies.date, date));
+    const rows = await db
+      .select()
+      .from(dailies)
+      .where(and(eq(dailies.date, date), isNull(dailies.deleted_at)));
 
     if (rows.length === 0) {
       // Fallback: get a random puzzle with level 3-5 and scramble it
@@ -171,6 +195,39 @@ dailiesRouter.get(
   }
 );
 
+/**
+ * GET /api/v1/dailies/:date/leaderboard
+ *
+ * Get the leaderboard for a date's daily puzzle. Solves are ranked by
+ * verified solve time (server time minus recorded pauses), fastest first,
+ * in separate hint-free and hinted sections. Only each user's first
+ * completion counts, and only dates with a stored daily (not a fallback
+ * puzzle) are ranked.
+ *
+ * @public No authentication required
+ * @param date - Date in YYYY-MM-DD format
+ * @query limit - Entries per section, 1-100 (default 20)
+ * @query offset - Entries to skip in each section (default 0)
+ * @returns 200 - { date, hintFree: { total, entries }, hinted: { total, entries } }
+ */
+dailiesRouter.get(
+  "/:date/leaderboard",
+  zValidator("param", dateParamSchema),
+  zValidator("query", dailyLeaderboardQuerySchema),
+  async c => {
+    const { date } = c.req.valid("param");
+    const { limit, offset } = c.req.valid("query");
+
+    try {
+      const leaderboard = await getDailyLeaderboard(date, limit, offset);
+      return c.json(successResponse(leaderboard));
+    } catch (error) {
+      logger.error("Error fetching daily leaderboard", { error });
+      return c.json(errorResponse("Failed to fetch daily leaderboard"), 500);
+    }
+  }
+);
+
 /**
  * GET /api/v1/dailies/:uuid
  *
@@ -183,7 +240,10 @@ dailiesRouter.get(
  */
 dailiesRouter.get("/:uuid", zValidator("param", uuidParamSchema), async c => {
   const { uuid } = c.req.valid("param");
-  const rows = await db.select().from(dailies).where(eq(dailies.uuid, uuid));
+  const rows = await db
+    .select()
+    .from(dailies)
+    .where(and(eq(dailies.uuid, uuid), isNull(dailies.deleted_at)));
 
   if (rows.length === 0) {
     return c.json(errorResponse("Daily not found"), 404);
@@ -197,7 +257,7 @@ dailiesRouter.get("/:uuid", zValidator("param", uuidParamSchema), async c => {
  *
  * Create a new daily puzzle for a specific date. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body dailyCreateSchema - { date, board, solution, board_uuid?, level?, techniques? }
  * @returns 201 - Created daily puzzle object
  * @returns 401 - Missing or invalid auth token
@@ -210,18 +270,26 @@ dailiesRouter.post(
   async c => {
     const body = c.req.valid("json");
 
-    const rows = await db
-      .insert(dailies)
-      .values({
-        date: body.date,
-        board_uuid: body.board_uuid ?? null,
-        level: body.level ?? null,
-        techniques: body.techniques,
-        board: body.board,
-        solution: body.solution,
-      })
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .insert(dailies)
+        .values({
+          date: body.date,
+          board_uuid: body.board_uuid ?? null,
+          level: body.level ?? null,
+          techniques: body.techniques,
+          board: body.board,
+          solution: body.solution,
+        })
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "daily",
+        entityId: rows[0]!.uuid,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Daily), 201);
   }
 );
@@ -232,7 +300,7 @@ dailiesRouter.post(
  * Update an existing daily puzzle. Requires admin authentication.
  * Only provided fields are updated; omitted fields retain their current values.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @body dailyUpdateSchema - { date?, board?, solution?, board_uuid?, level?, techniques? }
  * @returns 200 - Updated daily puzzle object
@@ -252,27 +320,38 @@ dailiesRouter.put(
     const existing = await db
       .select()
       .from(dailies)
-      .where(eq(dailies.uuid, uuid));
+      .where(and(eq(dailies.uuid, uuid), isNull(dailies.deleted_at)));
     if (existing.length === 0) {
       return c.json(errorResponse("Daily not found"), 404);
     }
 
     const current = existing[0]!;
-    const rows = await db
-      .update(dailies)
-      .set({
-        date: body.date ?? current.date,
-        board_uuid:
-          body.board_uuid !== undefined ? body.board_uuid : current.board_uuid,
-        level: body.level !== undefined ? body.level : current.level,
-        techniques: body.techniques ?? current.techniques,
-        board: body.board ?? current.board,
-        solution: body.solution ?? current.solution,
-        updated_at: new Date(),
-      })
-      .where(eq(dailies.uuid, uuid))
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .update(dailies)
+        .set({
+          date: body.date ?? current.date,
+          board_uuid:
+            body.board_uuid !== undefined
+              ? body.board_uuid
+              : current.board_uuid,
+          level: body.level !== undefined ? body.level : current.level,
+          techniques: body.techniques ?? current.techniques,
+          board: body.board ?? current.board,
+          solution: body.solution ?? current.solution,
+          updated_at: new Date(),
+        })
+        .where(eq(dailies.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "daily",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Daily));
   }
 );
@@ -280,9 +359,10 @@ dailiesRouter.put(
 /**
  * DELETE /api/v1/dailies/:uuid
  *
- * Delete a daily puzzle. Requires admin authentication.
+ * Soft-delete a daily puzzle. Requires admin authentication.
+ * The daily is hidden immediately and can be restored until it is purged.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @returns 200 - Deleted daily puzzle object
  * @returns 401 - Missing or invalid auth token
@@ -296,10 +376,30 @@ dailiesRouter.delete(
   async c => {
     const { uuid } = c.req.valid("param");
 
-    const rows = await db
-      .delete(dailies)
-      .where(eq(dailies.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(dailies)
+        .where(and(eq(dailies.uuid, uuid), isNull(dailies.deleted_at)))
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(dailies)
+        .set({ deleted_at: new Date() })
+        .where(eq(dailies.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "daily",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Daily not found"), 404);
@@ -309,4 +409,78 @@ dailiesRouter.delete(
   }
 );
 
+/**
+ * POST /api/v1/dailies/:uuid/restore
+ *
+ * Restore a soft-deleted daily puzzle. Requires admin authentication.
+ *
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
+ * @param uuid - Valid UUID string
+ * @returns 200 - Restored daily puzzle object
+ * @returns 401 - Missing or invalid auth token
+ * @returns 403 - Not an admin user
+ * @returns 404 - No deleted daily with this UUID (never deleted, or purged)
+ * @returns 409 - Another daily now exists for the same date
+ */
+dailiesRouter.post(
+  "/:uuid/restore",
+  adminMiddleware,
+  zValidator("param", uuidParamSchema),
+  async c => {
+    const { uuid } = c.req.valid("param");
+
+    const deleted = await db
+      .select()
+      .from(dailies)
+      .where(and(eq(dailies.uuid, uuid), isNotNull(dailies.deleted_at)));
+    if (deleted.length === 0) {
+      return c.json(errorResponse("Deleted daily not found"), 404);
+    }
+
+    const conflicting = await db
+      .select({ uuid: dailies.uuid })
+      .from(dailies)
+      .where(
+        and(eq(dailies.date, deleted[0]!.date), isNull(dailies.deleted_at))
+      );
+    if (conflicting.length > 0) {
+      return c.json(
+        errorResponse("Another daily already exists for this date"),
+        409
+      );
+    }
+
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(dailies)
+        .where(and(eq(dailies.uuid, uuid), isNotNull(dailies.deleted_at)))
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(dailies)
+        .set({ deleted_at: null, updated_at: new Date() })
+        .where(eq(dailies.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "daily",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Deleted daily not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0] as Daily));
+  }
+);
+
 export default dailiesRouter;
@@ -5,12 +5,14 @@
  * Each example captures a specific board state where a technique applies,
  * with associated hint data for instructional display.
  * Public endpoints: GET (list with filters, counts, random, get by UUID)
- * Admin endpoints: POST, PUT, DELETE (require Firebase admin auth)
+ * Admin endpoints: POST, PUT, DELETE, restore (require Firebase admin auth)
+ *
+ * Deleted examples are soft-deleted and purged after a grace period.
  */
 
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { eq, desc, sql } from "drizzle-orm";
+import { and, eq, desc, isNull, isNotNull, sql } from "drizzle-orm";
 import { db, techniqueExamples } from "../db";
 import {
   techniqueExampleCreateSchema,
@@ -18,6 +20,7 @@ import {
   uuidParamSchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
 import {
   successResponse,
   errorResponse,
@@ -57,7 +60,12 @@ examplesRouter.get("/", async c => {
     rows = await db
       .select()
       .from(techniqueExamples)
-      .where(eq(techniqueExamples.primary_technique, techniqueId))
+      .where(
+        and(
+          eq(techniqueExamples.primary_technique, techniqueId),
+          isNull(techniqueExamples.deleted_at)
+        )
+      )
       .orderBy(desc(techniqueExamples.created_at));
   } else if (hasTechnique) {
     const techniqueId = parseInt(hasTechnique, 10);
@@ -71,12 +79,18 @@ examplesRouter.get("/", async c => {
     rows = await db
       .select()
       .from(techniqueExamples)
-      .where(sql`(${techniqueExamples.techniques_bitfield} & ${bit}) != 0`)
+      .where(
+        and(
+          sql`(${techniqueExamples.techniques_bitfield} & ${bit}) != 0`,
+          isNull(techniqueExamples.deleted_at)
+        )
+      )
       .orderBy(desc(techniqueExamples.created_at));
   } else {
     rows = await db
       .select()
       .from(techniqueExamples)
+      .where(isNull(techniqueExamples.deleted_at))
       .orderBy(desc(techniqueExamples.created_at));
   }
 
@@ -98,6 +112,7 @@ examplesRouter.get("/counts", async c => {
       count: sql<number>`count(*)::int`,
     })
     .from(techniqueExamples)
+    .where(isNull(techniqueExamples.deleted_at))
     .groupBy(techniqueExamples.primary_technique)
     .orderBy(techniqueExamples.primary_technique);
 
@@ -141,13 +156,19 @@ examplesRouter.get("/random", async c => {
     rows = await db
       .select()
       .from(techniqueExamples)
-      .where(eq(techniqueExamples.primary_technique, techniqueId))
+      .where(
+        and(
+          eq(techniqueExamples.primary_technique, techniqueId),
+          isNull(techniqueExamples.deleted_at)
+        )
+      )
       .orderBy(sql`RANDOM()`)
       .limit(1);
   } else {
     rows = await db
       .select()
       .from(techniqueExamples)
+      .where(isNull(techniqueExamples.deleted_at))
       .orderBy(sql`RANDOM()`)
       .limit(1);
   }
@@ -174,7 +195,12 @@ examplesRouter.get("/:uuid", zValidator("param", uuidParamSchema), async c => {
   const rows = await db
     .select()
     .from(techniqueExamples)
-    .where(eq(techniqueExamples.uuid, uuid));
+    .where(
+      and(
+        eq(techniqueExamples.uuid, uuid),
+        isNull(techniqueExamples.deleted_at)
+      )
+    );
 
   if (rows.length === 0) {
     return c.json(errorResponse("Example not found"), 404);
@@ -188,7 +214,7 @@ examplesRouter.get("/:uuid", zValidator("param", uuidParamSchema), async c => {
  *
  * Create a new technique example. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body techniqueExampleCreateSchema
  * @returns 201 - Created example object
  * @returns 401 - Missing or invalid auth token
@@ -201,19 +227,27 @@ examplesRouter.post(
   async c => {
     const body = c.req.valid("json");
 
-    const rows = await db
-      .insert(techniqueExamples)
-      .values({
-        board: body.board,
-        pencilmarks: body.pencilmarks ?? null,
-        solution: body.solution,
-        techniques_bitfield: body.techniques_bitfield,
-        primary_technique: body.primary_technique,
-        hint_data: body.hint_data ?? null,
-        source_board_uuid: body.source_board_uuid ?? null,
-      })
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .insert(techniqueExamples)
+        .values({
+          board: body.board,
+          pencilmarks: body.pencilmarks ?? null,
+          solution: body.solution,
+          techniques_bitfield: body.techniques_bitfield,
+          primary_technique: body.primary_technique,
+          hint_data: body.hint_data ?? null,
+          source_board_uuid: body.source_board_uuid ?? null,
+        })
+        .returning();
 
+      await recordAudit(tx, c, {
+        entityType: "technique_example",
+        entityId: rows[0]!.uuid,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as TechniqueExample), 201);
   }
 );
@@ -223,7 +257,7 @@ examplesRouter.post(
  *
  * Update an existing technique example. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @body techniqueExampleUpdateSchema
  * @returns 200 - Updated example object
@@ -243,34 +277,49 @@ examplesRouter.put(
     const existing = await db
       .select()
       .from(techniqueExamples)
-      .where(eq(techniqueExamples.uuid, uuid));
+      .where(
+        and(
+          eq(techniqueExamples.uuid, uuid),
+          isNull(techniqueExamples.deleted_at)
+        )
+      );
     if (existing.length === 0) {
       return c.json(errorResponse("Example not found"), 404);
     }
 
     const current = existing[0]!;
-    const rows = await db
-      .update(techniqueExamples)
-      .set({
-        board: body.board ?? current.board,
-        pencilmarks:
-          body.pencilmarks !== undefined
-            ? body.pencilmarks
-            : current.pencilmarks,
-        solution: body.solution ?? current.solution,
-        techniques_bitfield:
-          body.techniques_bitfield ?? current.techniques_bitfield,
-        primary_technique: body.primary_technique ?? current.primary_technique,
-        hint_data:
-          body.hint_data !== undefined ? body.hint_data : current.hint_data,
-        source_board_uuid:
-          body.source_board_uuid !== undefined
-            ? body.source_board_uuid
-            : current.source_board_uuid,
-      })
-      .where(eq(techniqueExamples.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .update(techniqueExamples)
+        .set({
+          board: body.board ?? current.board,
+          pencilmarks:
+            body.pencilmarks !== undefined
+              ? body.pencilmarks
+              : current.pencilmarks,
+          solution: body.solution ?? current.solution,
+          techniques_bitfield:
+            body.techniques_bitfield ?? current.techniques_bitfield,
+          primary_technique:
+            body.primary_technique ?? current.primary_technique,
+          hint_data:
+            body.hint_data !== undefined ? body.hint_data : current.hint_data,
+          source_board_uuid:
+            body.source_board_uuid !== undefined
+              ? body.source_board_uuid
+              : current.source_board_uuid,
+        })
+        .where(eq(techniqueExamples.uuid, uuid))
+        .returning();
 
+      await recordAudit(tx, c, {
+        entityType: "technique_example",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as TechniqueExample));
   }
 );
@@ -278,9 +327,10 @@ examplesRouter.put(
 /**
  * DELETE /api/v1/examples/:uuid
  *
- * Delete a single technique example. Requires admin authentication.
+ * Soft-delete a single technique example. Requires admin authentication.
+ * The example is hidden immediately and can be restored until it is purged.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @returns 200 - Deleted example object
  * @returns 401 - Missing or invalid auth token
@@ -294,10 +344,35 @@ examplesRouter.delete(
   async c => {
     const { uuid } = c.req.valid("param");
 
-    const rows = await db
-      .delete(techniqueExamples)
-      .where(eq(techniqueExamples.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(techniqueExamples)
+        .where(
+          and(
+            eq(techniqueExamples.uuid, uuid),
+            isNull(techniqueExamples.deleted_at)
+          )
+        )
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(techniqueExamples)
+        .set({ deleted_at: new Date() })
+        .where(eq(techniqueExamples.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "technique_example",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Example not found"), 404);
@@ -307,4 +382,61 @@ examplesRouter.delete(
   }
 );
 
+/**
+ * POST /api/v1/examples/:uuid/restore
+ *
+ * Restore a soft-deleted technique example. Requires admin authentication.
+ *
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
+ * @param uuid - Valid UUID string
+ * @returns 200 - Restored example object
+ * @returns 401 - Missing or invalid auth token
+ * @returns 403 - Not an admin user
+ * @returns 404 - No deleted example with this UUID (never deleted, or purged)
+ */
+examplesRouter.post(
+  "/:uuid/restore",
+  adminMiddleware,
+  zValidator("param", uuidParamSchema),
+  async c => {
+    const { uuid } = c.req.valid("param");
+
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(techniqueExamples)
+        .where(
+          and(
+            eq(techniqueExamples.uuid, uuid),
+            isNotNull(techniqueExamples.deleted_at)
+          )
+        )
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(techniqueExamples)
+        .set({ deleted_at: null })
+        .where(eq(techniqueExamples.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "technique_example",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Deleted example not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0] as TechniqueExample));
+  }
+);
+
 export default examplesRouter;
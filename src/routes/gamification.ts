@@ -5,6 +5,8 @@
  * - User stats retrieval
  * - Badge definitions (public)
  * - User badges listing
+ * - Leaderboards (all-time, weekly, monthly, per puzzle level)
+ * - Admin badge management and point ledger support tools
  */
 
 import { Hono } from "hono";
@@ -12,10 +14,17 @@ import { zValidator } from "@hono/zod-validator";
 import { eq, asc } from "drizzle-orm";
 import { firebaseAuthMiddleware } from "../middleware/firebaseAuth";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
 import {
   badgeDefinitionCreateSchema,
   badgeDefinitionUpdateSchema,
   badgeKeyParamSchema,
+  badgeBackfillSchema,
+  leaderboardQuerySchema,
+  ledgerQuerySchema,
+  ledgerReconcileSchema,
+  pointAdjustmentSchema,
+  userIdParamSchema,
 } from "../schemas";
 import { db } from "../db";
 import {
@@ -33,9 +42,25 @@ import {
   type PointTransaction,
 } from "@sudobility/sudojo_types";
 import { badgeLocalization } from "../lib/localization";
+import { getLeaderboard } from "../services/leaderboard";
+import { backfillBadges } from "../services/badges";
+import {
+  adjustPoints,
+  getUserLedger,
+  reconcileLedgers,
+} from "../services/ledger";
+import { DEFAULT_TIMEZONE, localDate, visibleStreak } from "../lib/streak";
+import { logger } from "../lib/logger";
 
 const gamificationRouter = new Hono();
 
+/** Gamification stats including daily streaks */
+interface GamificationStatsWithStreak extends GamificationStats {
+  /** Consecutive days with a completed daily (0 once the streak lapses) */
+  currentStreak: number;
+  longestStreak: number;
+}
+
 // =============================================================================
 // Public Routes
 // =============================================================================
@@ -62,7 +87,7 @@ gamificationRouter.get("/badges", async c => {
     }));
     return c.json(successResponse(withLocalization as BadgeDefinition[]));
   } catch (error) {
-    console.error("Error fetching badge definitions:", error);
+    logger.error("Error fetching badge definitions", { error });
     return c.json(errorResponse("Failed to fetch badge definitions"), 500);
   }
 });
@@ -74,7 +99,8 @@ gamificationRouter.get("/badges", async c => {
 /**
  * GET /gamification/stats
  *
- * Get the authenticated user's gamification stats including earned badges.
+ * Get the authenticated user's gamification stats including earned badges
+ * and current/longest daily streak.
  */
 gamificationRouter.get("/stats", firebaseAuthMiddleware, async c => {
   const userId = c.get("userId");
@@ -90,6 +116,10 @@ gamificationRouter.get("/stats", firebaseAuthMiddleware, async c => {
       totalPoints: 0,
       userLevel: 0,
       gamesCompleted: 0,
+      currentStreak: 0,
+      longestStreak: 0,
+      lastStreakDate: null,
+      timezone: null,
     };
 
     // Get user's earned badges with full badge info
@@ -115,15 +145,19 @@ gamificationRouter.get("/stats", firebaseAuthMiddleware, async c => {
       localization: badgeLocalization(badge.badgeKey),
     })) as EarnedBadge[];
 
-    const gamificationStats: GamificationStats = {
+    // A streak not extended yesterday or today has lapsed
+    const today = localDate(new Date(), stats.timezone ?? DEFAULT_TIMEZONE);
+    const gamificationStats: GamificationStatsWithStreak = {
       totalPoints: stats.totalPoints,
       userLevel: stats.userLevel,
       gamesCompleted: stats.gamesCompleted,
+      currentStreak: visibleStreak(stats, today),
+      longestStreak: stats.longestStreak,
       badges: badgesWithLocalization,
     };
     return c.json(successResponse(gamificationStats));
   } catch (error) {
-    console.error("Error fetching user stats:", error);
+    logger.error("Error fetching user stats", { error });
     return c.json(errorResponse("Failed to fetch user stats"), 500);
   }
 });
@@ -150,11 +184,43 @@ gamificationRouter.get("/history", firebaseAuthMiddleware, async c => {
 
     return c.json(successResponse(transactions as PointTransaction[]));
   } catch (error) {
-    console.error("Error fetching point history:", error);
+    logger.error("Error fetching point history", { error });
     return c.json(errorResponse("Failed to fetch point history"), 500);
   }
 });
 
+/**
+ * GET /gamification/leaderboard
+ *
+ * Get a page of the points leaderboard plus the caller's own rank.
+ * Deleted accounts are excluded.
+ *
+ * @auth Firebase token required
+ * @query scope - "all_time" (default), "weekly", "monthly" or "level"
+ * @query level - Puzzle level 1-12 (required for the level scope)
+ * @query limit - Page size, 1-100 (default 20)
+ * @query offset - Number of entries to skip (default 0)
+ * @returns 200 - { scope, level, periodStart, total, entries, me }
+ * @returns 400 - Invalid query
+ */
+gamificationRouter.get(
+  "/leaderboard",
+  firebaseAuthMiddleware,
+  zValidator("query", leaderboardQuerySchema),
+  async c => {
+    const userId = c.get("userId");
+    const query = c.req.valid("query");
+
+    try {
+      const leaderboard = await getLeaderboard({ ...query, userId });
+      return c.json(successResponse(leaderboard));
+    } catch (error) {
+      logger.error("Error fetching leaderboard", { error });
+      return c.json(errorResponse("Failed to fetch leaderboard"), 500);
+    }
+  }
+);
+
 // =============================================================================
 // Admin Routes - Badge Management
 // =============================================================================
@@ -163,6 +229,9 @@ gamificationRouter.get("/history", firebaseAuthMiddleware, async c => {
  * POST /gamification/badges
  *
  * Create a new badge definition (admin only).
+ * The optional `rule` declares when the badge is earned, e.g.
+ * { type: "solve_time", level: 3, seconds: 300 }; it is awarded
+ * automatically on the next qualifying game.
  */
 gamificationRouter.post(
   "/badges",
@@ -172,21 +241,30 @@ gamificationRouter.post(
     const body = c.req.valid("json");
 
     try {
-      const newBadge = await db
-        .insert(badgeDefinitions)
-        .values({
-          badgeType: body.badgeType,
-          badgeKey: body.badgeKey,
-          title: body.title,
-          description: body.description,
-          iconUrl: body.iconUrl,
-          requirementValue: body.requirementValue,
-        })
-        .returning();
+      const newBadge = await withAudit(async tx => {
+        const newBadge = await tx
+          .insert(badgeDefinitions)
+          .values({
+            badgeType: body.badgeType,
+            badgeKey: body.badgeKey,
+            title: body.title,
+            description: body.description,
+            iconUrl: body.iconUrl,
+            requirementValue: body.requirementValue,
+            rule: body.rule,
+          })
+          .returning();
 
+        await recordAudit(tx, c, {
+          entityType: "badge",
+          entityId: body.badgeKey,
+          after: newBadge[0],
+        });
+        return newBadge;
+      });
       return c.json(successResponse(newBadge[0] as BadgeDefinition), 201);
     } catch (error) {
-      console.error("Error creating badge definition:", error);
+      logger.error("Error creating badge definition", { error });
       // Check for unique constraint violation
       if (error instanceof Error && error.message.includes("unique")) {
         return c.json(errorResponse("Badge key already exists"), 409);
@@ -196,6 +274,45 @@ gamificationRouter.post(
   }
 );
 
+/**
+ * POST /gamification/badges/backfill
+ *
+ * Award badges that existing users already qualify for, by replaying their
+ * point transactions and stats (admin only). Defaults to a dry run that only
+ * reports the badges that would be awarded. Safe to run repeatedly.
+ *
+ * @body badgeBackfillSchema - { dryRun? (default true), badgeKeys? }
+ * @returns 200 - { dryRun, usersScanned, awarded: [{ userId, badgeKey }] }
+ */
+gamificationRouter.post(
+  "/badges/backfill",
+  adminMiddleware,
+  zValidator("json", badgeBackfillSchema),
+  async c => {
+    const body = c.req.valid("json");
+
+    try {
+      const report = body.dryRun
+        ? await backfillBadges(body)
+        : await withAudit(async tx => {
+            const report = await backfillBadges(body, tx);
+            await recordAudit(tx, c, {
+              entityType: "user_badge",
+              after: {
+                badgeKeys: body.badgeKeys ?? null,
+                awarded: report.awarded.length,
+              },
+            });
+            return report;
+          });
+      return c.json(successResponse(report));
+    } catch (error) {
+      logger.error("Error backfilling badges", { error });
+      return c.json(errorResponse("Failed to backfill badges"), 500);
+    }
+  }
+);
+
 /**
  * PUT /gamification/badges/:badgeKey
  *
@@ -211,11 +328,28 @@ gamificationRouter.put(
     const body = c.req.valid("json");
 
     try {
-      const updated = await db
-        .update(badgeDefinitions)
-        .set(body)
-        .where(eq(badgeDefinitions.badgeKey, badgeKey))
-        .returning();
+      const updated = await withAudit(async tx => {
+        const [before] = await tx
+          .select()
+          .from(badgeDefinitions)
+          .where(eq(badgeDefinitions.badgeKey, badgeKey));
+
+        const updated = await tx
+          .update(badgeDefinitions)
+          .set(body)
+          .where(eq(badgeDefinitions.badgeKey, badgeKey))
+          .returning();
+
+        if (updated.length > 0) {
+          await recordAudit(tx, c, {
+            entityType: "badge",
+            entityId: badgeKey,
+            before,
+            after: updated[0],
+          });
+        }
+        return updated;
+      });
 
       if (updated.length === 0) {
         return c.json(errorResponse("Badge not found"), 404);
@@ -223,7 +357,7 @@ gamificationRouter.put(
 
       return c.json(successResponse(updated[0] as BadgeDefinition));
     } catch (error) {
-      console.error("Error updating badge definition:", error);
+      logger.error("Error updating badge definition", { error });
       return c.json(errorResponse("Failed to update badge definition"), 500);
     }
   }
@@ -243,14 +377,28 @@ gamificationRouter.delete(
     const { badgeKey } = c.req.valid("param");
 
     try {
-      // Delete user badges first (foreign key constraint)
-      await db.delete(userBadges).where(eq(userBadges.badgeKey, badgeKey));
+      const deleted = await withAudit(async tx => {
+        // Delete user badges first (foreign key constraint)
+        const revoked = await tx
+          .delete(userBadges)
+          .where(eq(userBadges.badgeKey, badgeKey))
+          .returning({ id: userBadges.id });
+
+        // Delete badge definition
+        const deleted = await tx
+          .delete(badgeDefinitions)
+          .where(eq(badgeDefinitions.badgeKey, badgeKey))
+          .returning();
 
-      // Delete badge definition
-      const deleted = await db
-        .delete(badgeDefinitions)
-        .where(eq(badgeDefinitions.badgeKey, badgeKey))
-        .returning();
+        if (deleted.length > 0) {
+          await recordAudit(tx, c, {
+            entityType: "badge",
+            entityId: badgeKey,
+            before: { ...deleted[0], userBadges: revoked.length },
+          });
+        }
+        return deleted;
+      });
 
       if (deleted.length === 0) {
         return c.json(errorResponse("Badge not found"), 404);
@@ -258,10 +406,139 @@ gamificationRouter.delete(
 
       return c.json(successResponse({ deleted: true }));
     } catch (error) {
-      console.error("Error deleting badge definition:", error);
+      logger.error("Error deleting badge definition", { error });
       return c.json(errorResponse("Failed to delete badge definition"), 500);
     }
   }
 );
 
+// =============================================================================
+// Admin Routes - Point Ledger
+// =============================================================================
+
+/**
+ * POST /gamification/ledger/reconcile
+ *
+ * Report users whose stored total points disagree with the sum of their
+ * point transactions (admin only). With `apply`, posts a
+ * ledger_reconciliation transaction for each difference.
+ *
+ * @body ledgerReconcileSchema - { apply? (default false) }
+ * @returns 200 - { applied, discrepancies: [{ userId, storedTotal, transactionTotal, consistent }] }
+ */
+gamificationRouter.post(
+  "/ledger/reconcile",
+  adminMiddleware,
+  zValidator("json", ledgerReconcileSchema),
+  async c => {
+    const { apply } = c.req.valid("json");
+
+    try {
+      const options = { apply, reconciledBy: c.get("userId") };
+      const report = apply
+        ? await withAudit(async tx => {
+            const report = await reconcileLedgers(options, tx);
+            if (report.discrepancies.length > 0) {
+              await recordAudit(tx, c, {
+                entityType: "point_ledger",
+                after: report,
+              });
+            }
+            return report;
+          })
+        : await reconcileLedgers(options);
+      return c.json(successResponse(report));
+    } catch (error) {
+      logger.error("Error reconciling point ledgers", { error });
+      return c.json(errorResponse("Failed to reconcile point ledgers"), 500);
+    }
+  }
+);
+
+/**
+ * GET /gamification/ledger/:userId
+ *
+ * Get any user's point ledger (admin only): stored total, transaction sum
+ * and a page of transactions, oldest first.
+ *
+ * @query limit - Page size, 1-100 (default 50)
+ * @query offset - Number of transactions to skip (default 0)
+ * @returns 200 - { userId, storedTotal, transactionTotal, consistent, transactions }
+ */
+gamificationRouter.get(
+  "/ledger/:userId",
+  adminMiddleware,
+  zValidator("param", userIdParamSchema),
+  zValidator("query", ledgerQuerySchema),
+  async c => {
+    const { userId } = c.req.valid("param");
+    const { limit, offset } = c.req.valid("query");
+
+    try {
+      const ledger = await getUserLedger(userId, limit, offset);
+      return c.json(successResponse(ledger));
+    } catch (error) {
+      logger.error("Error fetching point ledger", { error });
+      return c.json(errorResponse("Failed to fetch point ledger"), 500);
+    }
+  }
+);
+
+/**
+ * POST /gamification/ledger/:userId/adjustments
+ *
+ * Manually credit (positive points) or debit (negative points) a user
+ * (admin only). Recorded as an admin_credit or admin_debit transaction
+ * with the reason and the acting admin.
+ *
+ * @body pointAdjustmentSchema - { points, reason }
+ * @returns 201 - { userId, totalPoints }
+ * @returns 400 - Debit exceeds the user's total points
+ */
+gamificationRouter.post(
+  "/ledger/:userId/adjustments",
+  adminMiddleware,
+  zValidator("param", userIdParamSchema),
+  zValidator("json", pointAdjustmentSchema),
+  async c => {
+    const { userId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    try {
+      const totalPoints = await withAudit(async tx => {
+        const totalPoints = await adjustPoints(
+          {
+            userId,
+            points: body.points,
+            reason: body.reason,
+            adjustedBy: c.get("userId"),
+          },
+          tx
+        );
+        if (totalPoints !== null) {
+          await recordAudit(tx, c, {
+            entityType: "point_ledger",
+            entityId: userId,
+            before: { totalPoints: totalPoints - body.points },
+            after: { totalPoints, points: body.points, reason: body.reason },
+          });
+        }
+        return totalPoints;
+      });
+
+      if (totalPoints === null) {
+        return c.json(
+          errorResponse("Debit exceeds the user's total points"),
+          400
+        );
+      }
+
+      return c.json(successResponse({ userId, totalPoints }), 201);
+    } catch (error) {
+      logger.error("Error adjusting points", { error });
+      return c.json(errorResponse("Failed to adjust points"), 500);
+    }
+  }
+);
+
 export default gamificationRouter;
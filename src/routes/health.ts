@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Health check routes for Sudojo API
+ *
+ * Mounted at /health (outside /api/v1) for load balancers and orchestrators:
+ * - GET /health and /health/live: the process is up (no dependency checks)
+ * - GET /health/ready: dependencies are reachable; 503 when a critical one
+ *   (database, solver, Firebase) is down, so traffic is routed elsewhere
+ */
+
+import { Hono } from "hono";
+import {
+  successResponse,
+  errorResponse,
+  type HealthCheckData,
+} from "@sudobility/sudojo_types";
+import { API_NAME, API_VERSION, checkReadiness } from "../services/health";
+import { logger } from "../lib/logger";
+
+const healthRouter = new Hono();
+
+/** Static liveness response */
+export const healthResponse: HealthCheckData = {
+  name: API_NAME,
+  version: API_VERSION,
+  status: "healthy",
+};
+
+/**
+ * GET /health
+ *
+ * Liveness check (kept for existing monitors).
+ *
+ * @public No authentication required
+ * @returns 200 - { name, version, status: "healthy" }
+ */
+healthRouter.get("/", c => c.json(successResponse(healthResponse)));
+
+/**
+ * GET /health/live
+ *
+ * Liveness check: the process is serving requests.
+ *
+ * @public No authentication required
+ * @returns 200 - { name, version, status: "healthy" }
+ */
+healthRouter.get("/live", c => c.json(successResponse(healthResponse)));
+
+/**
+ * GET /health/ready
+ *
+ * Readiness check: probes the database, solver, Firebase, RevenueCat and
+ * the OCR adapter, reporting each one's status and latency.
+ *
+ * @public No authentication required
+ * @returns 200 - { name, version, status: "ready" | "degraded", checks }
+ * @returns 503 - { name, version, status: "not_ready", checks } (a critical dependency is down)
+ */
+healthRouter.get("/ready", async c => {
+  try {
+    const report = await checkReadiness();
+    return c.json(
+      successResponse(report),
+      report.status === "not_ready" ? 503 : 200
+    );
+  } catch (error) {
+    logger.error("Error checking readiness", { error });
+    return c.json(errorResponse("Failed to check readiness"), 503);
+  }
+});
+
+export default healthRouter;
@@ -20,6 +20,9 @@
  * - communities: Curated Sudoku communities/forums (public read, admin write)
  * - strategies: Solving strategy groups (public read, admin write)
  * - ocr: Sudoku image extraction (public)
+ * - access: Daily access quota configuration (admin)
+ * - api-keys: Scoped API key management (super admin)
+ * - admin: Admin roles and role assignments (super admin)
  */
 
 import { Hono } from "hono";
@@ -38,6 +41,9 @@ import gamificationRouter from "./gamification";
 import ocrRouter from "./ocr";
 import communitiesRouter from "./communities";
 import strategiesRouter from "./strategies";
+import accessRouter from "./access";
+import apiKeysRouter from "./api-keys";
+import adminRouter from "./admin";
 
 const routes = new Hono();
 
@@ -56,5 +62,8 @@ routes.route("/play", playRouter);
 routes.route("/gamification", gamificationRouter);
 routes.route("/ocr", ocrRouter);
 routes.route("/communities", communitiesRouter);
+routes.route("/access", accessRouter);
+routes.route("/api-keys", apiKeysRouter);
+routes.route("/admin", adminRouter);
 
 export default routes;
@@ -18,6 +18,7 @@ import {
   uuidParamSchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
 import {
   successResponse,
   errorResponse,
@@ -156,7 +157,7 @@ learningRouter.get("/:uuid", zValidator("param", uuidParamSchema), async c => {
  *
  * Create a new learning entry. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body learningCreateSchema - { technique, index, language_code?, text?, image_url? }
  * @returns 201 - Created learning entry object
  * @returns 401 - Missing or invalid auth token
@@ -179,8 +180,16 @@ learningRouter.post(
       image_url: body.image_url ?? null,
     } as typeof learning.$inferInsert;
 
-    const rows = await db.insert(learning).values(insertValues).returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx.insert(learning).values(insertValues).returning();
 
+      await recordAudit(tx, c, {
+        entityType: "learning",
+        entityId: rows[0]!.uuid,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Learning), 201);
   }
 );
@@ -191,7 +200,7 @@ learningRouter.post(
  * Update an existing learning entry. Requires admin authentication.
  * Only provided fields are updated; omitted fields retain their current values.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @body learningUpdateSchema - { technique?, index?, language_code?, text?, image_url? }
  * @returns 200 - Updated learning entry object
@@ -217,20 +226,29 @@ learningRouter.put(
     }
 
     const current = existing[0]!;
-    const rows = await db
-      .update(learning)
-      .set({
-        technique: body.technique ?? current.technique,
-        index: body.index ?? current.index,
-        language_code: body.language_code ?? current.language_code,
-        text: body.text ?? current.text,
-        image_url:
-          body.image_url !== undefined ? body.image_url : current.image_url,
-        updated_at: new Date(),
-      })
-      .where(eq(learning.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .update(learning)
+        .set({
+          technique: body.technique ?? current.technique,
+          index: body.index ?? current.index,
+          language_code: body.language_code ?? current.language_code,
+          text: body.text ?? current.text,
+          image_url:
+            body.image_url !== undefined ? body.image_url : current.image_url,
+          updated_at: new Date(),
+        })
+        .where(eq(learning.uuid, uuid))
+        .returning();
 
+      await recordAudit(tx, c, {
+        entityType: "learning",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Learning));
   }
 );
@@ -240,7 +258,7 @@ learningRouter.put(
  *
  * Delete a learning entry. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @returns 200 - Deleted learning entry object
  * @returns 401 - Missing or invalid auth token
@@ -254,10 +272,21 @@ learningRouter.delete(
   async c => {
     const { uuid } = c.req.valid("param");
 
-    const rows = await db
-      .delete(learning)
-      .where(eq(learning.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .delete(learning)
+        .where(eq(learning.uuid, uuid))
+        .returning();
+
+      if (rows.length > 0) {
+        await recordAudit(tx, c, {
+          entityType: "learning",
+          entityId: uuid,
+          before: rows[0],
+        });
+      }
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Learning entry not found"), 404);
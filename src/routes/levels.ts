@@ -16,6 +16,7 @@ import {
   levelParamSchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
 import {
   successResponse,
   errorResponse,
@@ -72,7 +73,7 @@ levelsRouter.get("/:level", zValidator("param", levelParamSchema), async c => {
  *
  * Create a new difficulty level. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body levelCreateSchema - { level, title, text?, requires_subscription? }
  * @returns 201 - Created level object
  * @returns 401 - Missing or invalid auth token
@@ -85,19 +86,27 @@ levelsRouter.post(
   async c => {
     const body = c.req.valid("json");
 
-    const rows = await db
-      .insert(levels)
-      .values({
-        level: body.level,
-        title: body.title,
-        text: body.text,
-        requires_subscription: body.requires_subscription,
-        entitlement: body.entitlement,
-        offer_id: body.offer_id,
-        percentage: body.percentage ?? null,
-      })
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .insert(levels)
+        .values({
+          level: body.level,
+          title: body.title,
+          text: body.text,
+          requires_subscription: body.requires_subscription,
+          entitlement: body.entitlement,
+          offer_id: body.offer_id,
+          percentage: body.percentage ?? null,
+        })
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "level",
+        entityId: rows[0]!.level,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Level), 201);
   }
 );
@@ -108,7 +117,7 @@ levelsRouter.post(
  * Update an existing difficulty level. Requires admin authentication.
  * Only provided fields are updated; omitted fields retain their current values.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param level - Integer 1-12
  * @body levelUpdateSchema - { title?, text?, requires_subscription? }
  * @returns 200 - Updated level object
@@ -135,26 +144,37 @@ levelsRouter.put(
     }
 
     const current = existing[0]!;
-    const rows = await db
-      .update(levels)
-      .set({
-        title: body.title ?? current.title,
-        text: body.text ?? current.text,
-        requires_subscription:
-          body.requires_subscription ?? current.requires_subscription,
-        entitlement:
-          body.entitlement !== undefined
-            ? body.entitlement
-            : current.entitlement,
-        offer_id:
-          body.offer_id !== undefined ? body.offer_id : current.offer_id,
-        percentage:
-          body.percentage !== undefined ? body.percentage : current.percentage,
-        updated_at: new Date(),
-      })
-      .where(eq(levels.level, level))
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .update(levels)
+        .set({
+          title: body.title ?? current.title,
+          text: body.text ?? current.text,
+          requires_subscription:
+            body.requires_subscription ?? current.requires_subscription,
+          entitlement:
+            body.entitlement !== undefined
+              ? body.entitlement
+              : current.entitlement,
+          offer_id:
+            body.offer_id !== undefined ? body.offer_id : current.offer_id,
+          percentage:
+            body.percentage !== undefined
+              ? body.percentage
+              : current.percentage,
+          updated_at: new Date(),
+        })
+        .where(eq(levels.level, level))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "level",
+        entityId: level,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Level));
   }
 );
@@ -165,7 +185,7 @@ levelsRouter.put(
  * Delete a difficulty level. Requires admin authentication.
  * Cascades to techniques referencing this level.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param level - Integer 1-12
  * @returns 200 - Deleted level object
  * @returns 401 - Missing or invalid auth token
@@ -179,10 +199,21 @@ levelsRouter.delete(
   async c => {
     const { level } = c.req.valid("param");
 
-    const rows = await db
-      .delete(levels)
-      .where(eq(levels.level, level))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .delete(levels)
+        .where(eq(levels.level, level))
+        .returning();
+
+      if (rows.length > 0) {
+        await recordAudit(tx, c, {
+          entityType: "level",
+          entityId: level,
+          before: rows[0],
+        });
+      }
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Level not found"), 404);
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Prometheus metrics route for Sudojo API
+ *
+ * Mounted at /metrics (outside /api/v1) for the Prometheus scraper. When
+ * METRICS_TOKEN is set, scrapes must send `Authorization: Bearer <token>`;
+ * otherwise the endpoint is open (restrict it at the network level).
+ *
+ * @see services/metrics.ts for the exposed series
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { Hono } from "hono";
+import { errorResponse } from "@sudobility/sudojo_types";
+import { getEnv } from "../lib/env-helper";
+import { METRICS_CONTENT_TYPE } from "../lib/metrics";
+import { logger } from "../lib/logger";
+import { metricsRegistry } from "../services/metrics";
+
+const metricsRouter = new Hono();
+
+const METRICS_TOKEN = getEnv("METRICS_TOKEN");
+
+/** Constant-time token comparison (hashing first equalizes the lengths) */
+function isMetricsToken(token: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(METRICS_TOKEN!));
+}
+
+/**
+ * GET /metrics
+ *
+ * All metrics in the Prometheus text exposition format.
+ *
+ * @auth Bearer METRICS_TOKEN when configured, otherwise none
+ * @returns 200 - text/plain; version=0.0.4
+ * @returns 401 - Missing or wrong metrics token
+ * @returns 500 - Failed to collect metrics
+ */
+metricsRouter.get("/", async c => {
+  if (METRICS_TOKEN) {
+    const [type, token] = (c.req.header("Authorization") ?? "").split(" ");
+    if (type !== "Bearer" || !token || !isMetricsToken(token)) {
+      return c.json(errorResponse("Invalid metrics token"), 401);
+    }
+  }
+
+  try {
+    const body = await metricsRegistry.render();
+    return c.body(body, 200, { "Content-Type": METRICS_CONTENT_TYPE });
+  } catch (error) {
+    logger.error("Error rendering metrics", { error });
+    return c.json(errorResponse("Failed to collect metrics"), 500);
+  }
+});
+
+export default metricsRouter;
@@ -11,27 +11,19 @@ import Tesseract from "tesseract.js";
 import {
   extractSudokuFromImage,
   type TesseractModule,
-  type CanvasAdapter,
 } from "@sudobility/sudojo_ocr";
-import { createNodeAdapter } from "@sudobility/sudojo_ocr/node";
 import {
   successResponse,
   errorResponse,
   type OCRExtractData,
 } from "@sudobility/sudojo_types";
+import { createRateLimitMiddleware } from "../middleware/rateLimit";
+import { getOcrAdapter } from "../services/ocr";
+import { ocrConfidence, ocrExtractionDuration } from "../services/metrics";
+import { logger } from "../lib/logger";
 
 const ocrRouter = new Hono();
 
-// Singleton adapter for efficiency
-let nodeAdapter: CanvasAdapter | null = null;
-
-async function getAdapter(): Promise<CanvasAdapter> {
-  if (!nodeAdapter) {
-    nodeAdapter = await createNodeAdapter();
-  }
-  return nodeAdapter;
-}
-
 // Cast Tesseract to our minimal interface
 const tesseractModule = Tesseract as unknown as TesseractModule;
 
@@ -53,72 +45,86 @@ const extractSchema = z.object({
  * - board: SolverBoard with original puzzle, user state, and pencilmark data
  * - confidence: OCR confidence score (0-100)
  * - digitCount: Number of digits recognized
+ *
+ * Rate limited per caller (429 with Retry-After when exceeded).
  */
-ocrRouter.post("/extract", zValidator("json", extractSchema), async c => {
-  try {
-    const { image } = c.req.valid("json");
-
-    // Convert base64 to buffer
-    // Handle both raw base64 and data URL format
-    let base64Data = image;
-    if (image.includes(",")) {
-      base64Data = image.split(",")[1] || image;
-    }
-
-    const imageBuffer = Buffer.from(base64Data, "base64");
-
-    // Get adapter
-    const adapter = await getAdapter();
-
-    // Run OCR
-    const result = await extractSudokuFromImage(
-      adapter,
-      imageBuffer,
-      tesseractModule,
-      {
-        skipBoardDetection: false,
-        preprocess: true,
-        minConfidence: 1,
-        cellMargin: 0.03,
-        recognizePencilmarks: true,
+ocrRouter.post(
+  "/extract",
+  createRateLimitMiddleware("ocr"),
+  zValidator("json", extractSchema),
+  async c => {
+    const endTimer = ocrExtractionDuration.startTimer();
+    try {
+      const { image } = c.req.valid("json");
+
+      // Convert base64 to buffer
+      // Handle both raw base64 and data URL format
+      let base64Data = image;
+      if (image.includes(",")) {
+        base64Data = image.split(",")[1] || image;
       }
-    );
 
-    // Validate result
-    const puzzle = result.board.original;
-    if (!puzzle || puzzle.length !== 81) {
-      return c.json(
-        errorResponse("Could not extract a valid puzzle from the image"),
-        400
+      const imageBuffer = Buffer.from(base64Data, "base64");
+
+      // Get adapter
+      const adapter = await getOcrAdapter();
+
+      // Run OCR
+      const result = await extractSudokuFromImage(
+        adapter,
+        imageBuffer,
+        tesseractModule,
+        {
+          skipBoardDetection: false,
+          preprocess: true,
+          minConfidence: 1,
+          cellMargin: 0.03,
+          recognizePencilmarks: true,
+        }
       );
-    }
 
-    // Check minimum clues
-    if (result.digitCount < 17) {
+      ocrConfidence.observe(undefined, result.confidence);
+
+      // Validate result
+      const puzzle = result.board.original;
+      if (!puzzle || puzzle.length !== 81) {
+        endTimer({ outcome: "rejected" });
+        return c.json(
+          errorResponse("Could not extract a valid puzzle from the image"),
+          400
+        );
+      }
+
+      // Check minimum clues
+      if (result.digitCount < 17) {
+        endTimer({ outcome: "rejected" });
+        return c.json(
+          errorResponse(
+            `Only ${result.digitCount} clues detected, minimum 17 required for a valid puzzle`
+          ),
+          400
+        );
+      }
+
+      const data: OCRExtractData = {
+        board: result.board,
+        confidence: result.confidence,
+        digitCount: result.digitCount,
+      };
+
+      endTimer({ outcome: "success" });
+      return c.json(successResponse(data));
+    } catch (error) {
+      endTimer({ outcome: "error" });
+      logger.error("[OCR] Extraction failed", { error });
       return c.json(
         errorResponse(
-          `Only ${result.digitCount} clues detected, minimum 17 required for a valid puzzle`
+          "Failed to process image. Please try again with a clearer photo."
         ),
-        400
+        500
       );
     }
-
-    const data: OCRExtractData = {
-      board: result.board,
-      confidence: result.confidence,
-      digitCount: result.digitCount,
-    };
-
-    return c.json(successResponse(data));
-  } catch (error) {
-    console.error("[OCR] Extraction failed:", error);
-    return c.json(
-      errorResponse(
-        "Failed to process image. Please try again with a clearer photo."
-      ),
-      500
-    );
   }
-});
+);
 
 export default ocrRouter;
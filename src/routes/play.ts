@@ -2,42 +2,105 @@
  * @fileoverview Play routes for game session management and gamification
  *
  * Handles:
- * - Game session start/finish
- * - Points calculation and awarding
- * - Badge checking and awarding
+ * - Game session start/finish (several open sessions per user, one per puzzle)
+ * - Progress sync and cross-device resume (entries, pencilmarks, active time)
+ * - Server-side verification of completed grids
+ * - Pause/resume tracking for the no-interruption bonus
+ * - Points calculation and awarding (posted through services/ledger)
+ * - Badge awarding (rules are evaluated by services/badges)
+ * - Daily streak tracking (in the user's stored timezone)
  * - User level promotion
  */
 
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { and, desc, eq, inArray, isNull, sql } from "drizzle-orm";
 import { firebaseAuthMiddleware } from "../middleware/firebaseAuth";
-import { gameStartSchema, gameFinishSchema } from "../schemas";
-import { db } from "../db";
 import {
-  gameSessions,
-  userStats,
-  userBadges,
-  badgeDefinitions,
-  pointTransactions,
-} from "../db/schema";
+  gameStartSchema,
+  gameFinishSchema,
+  gameProgressSchema,
+  gameSessionQuerySchema,
+  gamePauseSchema,
+} from "../schemas";
+import { db } from "../db";
+import { dailies, dailyCompletions, gameSessions } from "../db/schema";
 import {
   successResponse,
   errorResponse,
   type GameStartResponse,
   type GameFinishResponse,
-  type NewBadge,
 } from "@sudobility/sudojo_types";
-import { badgeLocalization } from "../lib/localization";
+import { isSolvedGrid, mergeGrid, preservesGivens } from "../lib/grid";
+import {
+  advanceStreak,
+  canChangeTimezone,
+  DEFAULT_TIMEZONE,
+  localDate,
+} from "../lib/streak";
+import { checkAndAwardBadges } from "../services/badges";
+import {
+  lockUserStats,
+  postPoints,
+  withLedger,
+  type LedgerTx,
+} from "../services/ledger";
+import {
+  badgesAwardedTotal,
+  gamesFinishedTotal,
+  pointsAwardedTotal,
+} from "../services/metrics";
+import { logger } from "../lib/logger";
 
 const playRouter = new Hono();
 
+/** Response from syncing game progress */
+interface GameProgressResponse {
+  sessionId: string;
+  updatedAt: string;
+}
+
+/** Full state of an open game session, used to resume on another device */
+interface GameSessionState {
+  sessionId: string;
+  board: string;
+  solution: string;
+  level: number;
+  techniques: number;
+  puzzleType: string;
+  puzzleId: string | null;
+  startedAt: string;
+  /** Latest synced user entries (81 chars, 0 = empty), null if never synced */
+  userInput: string | null;
+  /** Latest synced pencilmarks (comma-delimited), null if never synced */
+  pencilmarks: string | null;
+  /** Accumulated active play time in seconds */
+  activeSeconds: number;
+  hintUsed: boolean;
+  hintsCount: number;
+  hintPointsEarned: number;
+  /** Whether the session is currently paused */
+  paused: boolean;
+  /** Pauses recorded via /play/pause and /play/resume */
+  pauseIntervals: PauseInterval[];
+  updatedAt: string | null;
+}
+
+/** Response from pausing or resuming a game session */
+interface GamePauseResponse {
+  sessionId: string;
+  paused: boolean;
+  /** Total seconds spent paused so far */
+  pausedSeconds: number;
+}
+
 // =============================================================================
 // Constants
 // =============================================================================
 
-/** Tolerance in seconds for interruption detection (network latency) */
-const INTERRUPTION_TOLERANCE_SECONDS = 1;
+/** Pauses shorter than this (seconds) don't count as an interruption */
+const MIN_INTERRUPTION_SECONDS = 1;
 
 /** Multiplier for completing without hints */
 const NO_HINT_MULTIPLIER = 10;
@@ -45,10 +108,11 @@ const NO_HINT_MULTIPLIER = 10;
 /** Multiplier for completing without interruption */
 const NO_INTERRUPTION_MULTIPLIER = 2;
 
-/** Games-played badge milestones */
-const GAMES_MILESTONES = [
-  5, 10, 25, 50, 100, 200, 500, 1000, 2000, 5000, 10000,
-];
+/**
+ * Maximum number of open sessions per user; starting another evicts the
+ * least recently active
+ */
+const MAX_OPEN_SESSIONS = 5;
 
 // =============================================================================
 // Helper Functions
@@ -61,113 +125,209 @@ function calculateBasePoints(level: number): number {
   return Math.pow(2, level);
 }
 
+type GameSessionRow = typeof gameSessions.$inferSelect;
+
+/** A recorded pause; resumedAt is null while the session is still paused */
+type PauseInterval = GameSessionRow["pauseIntervals"][number];
+
+/** Criteria for picking one of the user's open sessions */
+interface SessionSelector {
+  sessionId?: string;
+  puzzleType?: string;
+  puzzleId?: string;
+}
+
+/** Ordering expression for "most recently active" sessions */
+const lastActiveAt = sql`COALESCE(${gameSessions.progressUpdatedAt}, ${gameSessions.startedAt})`;
+
 /**
- * Detect if the game was interrupted by comparing elapsed time with server time
- * @param startedAt - When the game session started
- * @param elapsedTime - Elapsed time reported by frontend (seconds)
- * @returns true if interrupted (paused), false if continuous play
+ * Find one of the user's open sessions.
+ * Selects by session ID when given, otherwise by puzzle type (and ID),
+ * otherwise the most recently started session, which is what
+ * single-session clients expect.
  */
-function wasGameInterrupted(startedAt: Date, elapsedTime: number): boolean {
-  const now = new Date();
-  const serverElapsed = (now.getTime() - startedAt.getTime()) / 1000;
-  // If frontend elapsed time is significantly less than server elapsed time,
-  // the user must have paused the game
-  return elapsedTime < serverElapsed - INTERRUPTION_TOLERANCE_SECONDS;
+async function findSession(
+  userId: string,
+  selector: SessionSelector
+): Promise<GameSessionRow | undefined> {
+  const conditions = [eq(gameSessions.userId, userId)];
+  if (selector.sessionId) {
+    conditions.push(eq(gameSessions.id, selector.sessionId));
+  } else if (selector.puzzleType) {
+    conditions.push(eq(gameSessions.puzzleType, selector.puzzleType));
+    if (selector.puzzleId) {
+      conditions.push(eq(gameSessions.puzzleId, selector.puzzleId));
+    }
+  }
+
+  const sessions = await db
+    .select()
+    .from(gameSessions)
+    .where(and(...conditions))
+    .orderBy(desc(gameSessions.startedAt))
+    .limit(1);
+  return sessions[0];
 }
 
 /**
- * Get or create user stats record
+ * Evict the user's least recently active sessions so that at most
+ * `keep` sessions remain open.
  */
-async function getOrCreateUserStats(userId: string) {
-  const existing = await db
-    .select()
-    .from(userStats)
-    .where(eq(userStats.userId, userId));
+async function evictStaleSessions(
+  userId: string,
+  keep: number,
+  executor: LedgerTx | typeof db = db
+) {
+  const stale = await executor
+    .select({ id: gameSessions.id })
+    .from(gameSessions)
+    .where(eq(gameSessions.userId, userId))
+    .orderBy(desc(lastActiveAt))
+    .offset(keep);
+
+  if (stale.length > 0) {
+    await executor.delete(gameSessions).where(
+      inArray(
+        gameSessions.id,
+        stale.map(row => row.id)
+      )
+    );
+  }
+}
+
+/** Build the client-facing state of a session */
+function toSessionState(session: GameSessionRow): GameSessionState {
+  return {
+    sessionId: session.id,
+    board: session.board,
+    solution: session.solution,
+    level: session.level,
+    techniques: session.techniques ?? 0,
+    puzzleType: session.puzzleType,
+    puzzleId: session.puzzleId,
+    startedAt: session.startedAt.toISOString(),
+    userInput: session.userInput,
+    pencilmarks: session.pencilmarks,
+    activeSeconds: session.activeSeconds,
+    hintUsed: session.hintUsed,
+    hintsCount: session.hintsCount,
+    hintPointsEarned: session.hintPointsEarned,
+    paused: isPaused(session.pauseIntervals),
+    pauseIntervals: session.pauseIntervals,
+    updatedAt: session.progressUpdatedAt?.toISOString() ?? null,
+  };
+}
 
-  if (existing.length > 0) {
-    return existing[0];
+/** Whether the last recorded pause of a session is still open */
+function isPaused(intervals: PauseInterval[]): boolean {
+  const last = intervals[intervals.length - 1];
+  return last !== undefined && last.resumedAt === null;
+}
+
+/**
+ * Close an open pause at the given time.
+ * Returns the intervals unchanged if the session is not paused.
+ */
+function closePause(intervals: PauseInterval[], at: Date): PauseInterval[] {
+  if (!isPaused(intervals)) {
+    return intervals;
   }
+  return intervals.map((interval, i) =>
+    i === intervals.length - 1
+      ? { ...interval, resumedAt: at.toISOString() }
+      : interval
+  );
+}
 
-  // Create new user stats
-  const newStats = await db.insert(userStats).values({ userId }).returning();
+/** Length of a pause in seconds, measuring open pauses up to `now` */
+function pauseSeconds(interval: PauseInterval, now: Date): number {
+  const pausedAt = new Date(interval.pausedAt).getTime();
+  const resumedAt = interval.resumedAt
+    ? new Date(interval.resumedAt).getTime()
+    : now.getTime();
+  return Math.max(0, (resumedAt - pausedAt) / 1000);
+}
 
-  return newStats[0];
+/** Total paused time in whole seconds */
+function totalPausedSeconds(intervals: PauseInterval[], now: Date): number {
+  return Math.round(
+    intervals.reduce((sum, interval) => sum + pauseSeconds(interval, now), 0)
+  );
 }
 
 /**
- * Check and award badges based on current game completion
- * @returns Array of newly earned badges
+ * Detect if the game was interrupted from its recorded pause intervals
+ * @returns true if any pause lasted at least MIN_INTERRUPTION_SECONDS
  */
-async function checkAndAwardBadges(
-  userId: string,
-  puzzleLevel: number,
-  isPerfectPlay: boolean,
-  newGamesCompleted: number
-): Promise<NewBadge[]> {
-  const newBadges: NewBadge[] = [];
-
-  // Get user's existing badges
-  const existingBadges = await db
-    .select({ badgeKey: userBadges.badgeKey })
-    .from(userBadges)
-    .where(eq(userBadges.userId, userId));
-  const existingBadgeKeys = new Set(existingBadges.map(b => b.badgeKey));
-
-  // Check for level mastery badge (perfect play only)
-  if (isPerfectPlay) {
-    const levelBadgeKey = `level_${puzzleLevel}`;
-    if (!existingBadgeKeys.has(levelBadgeKey)) {
-      // Check if badge definition exists
-      const badgeDef = await db
-        .select()
-        .from(badgeDefinitions)
-        .where(eq(badgeDefinitions.badgeKey, levelBadgeKey));
-
-      if (badgeDef.length > 0) {
-        await db.insert(userBadges).values({
-          userId,
-          badgeKey: levelBadgeKey,
-        });
-        newBadges.push({
-          badgeKey: levelBadgeKey,
-          title: badgeDef[0].title,
-          description: badgeDef[0].description,
-          localization: badgeLocalization(levelBadgeKey),
-        });
-        existingBadgeKeys.add(levelBadgeKey);
-      }
-    }
+function wasGameInterrupted(intervals: PauseInterval[], now: Date): boolean {
+  return intervals.some(
+    interval => pauseSeconds(interval, now) >= MIN_INTERRUPTION_SECONDS
+  );
+}
+
+/** The daily puzzle a session was started for */
+interface ResolvedDaily {
+  date: string;
+  /**
+   * The stored daily, or null for a fallback daily, which is a random
+   * puzzle generated per request and so cannot be verified
+   */
+  puzzle: typeof dailies.$inferSelect | null;
+}
+
+/**
+ * Resolve the daily puzzle a session's puzzleId refers to.
+ * Accepts a YYYY-MM-DD date or a daily UUID of a stored daily, or a
+ * fallback daily ID ("fallback-YYYY-MM-DD") for a date without one.
+ * @returns The daily, or null if it cannot be resolved
+ */
+async function resolveDaily(
+  puzzleId: string | null | undefined
+): Promise<ResolvedDaily | null> {
+  if (!puzzleId) {
+    return null;
   }
 
-  // Check for games-played milestones
-  for (const milestone of GAMES_MILESTONES) {
-    if (newGamesCompleted >= milestone) {
-      const gamesBadgeKey = `games_${milestone}`;
-      if (!existingBadgeKeys.has(gamesBadgeKey)) {
-        // Check if badge definition exists
-        const badgeDef = await db
-          .select()
-          .from(badgeDefinitions)
-          .where(eq(badgeDefinitions.badgeKey, gamesBadgeKey));
-
-        if (badgeDef.length > 0) {
-          await db.insert(userBadges).values({
-            userId,
-            badgeKey: gamesBadgeKey,
-          });
-          newBadges.push({
-            badgeKey: gamesBadgeKey,
-            title: badgeDef[0].title,
-            description: badgeDef[0].description,
-            localization: badgeLocalization(gamesBadgeKey),
-          });
-          existingBadgeKeys.add(gamesBadgeKey);
-        }
-      }
-    }
+  const fallbackMatch = /^fallback-(\d{4}-\d{2}-\d{2})$/.exec(puzzleId);
+  const dateMatch = /^\d{4}-\d{2}-\d{2}$/.test(puzzleId);
+  if (
+    !fallbackMatch &&
+    !dateMatch &&
+    !z.string().uuid().safeParse(puzzleId).success
+  ) {
+    return null;
   }
 
-  return newBadges;
+  const date = fallbackMatch?.[1] ?? (dateMatch ? puzzleId : null);
+  const rows = await db
+    .select()
+    .from(dailies)
+    .where(
+      and(
+        date ? eq(dailies.date, date) : eq(dailies.uuid, puzzleId),
+        isNull(dailies.deleted_at)
+      )
+    )
+    .limit(1);
+  const puzzle = rows[0];
+
+  if (fallbackMatch) {
+    // A fallback only stands in for a date without a stored daily
+    return puzzle ? null : { date: fallbackMatch[1]!, puzzle: null };
+  }
+  return puzzle ? { date: puzzle.date, puzzle } : null;
+}
+
+/** Whether a session plays the stored board and solution of a daily */
+function playsStoredDaily(
+  session: GameSessionRow,
+  daily: ResolvedDaily | null
+): boolean {
+  return (
+    daily?.puzzle != null &&
+    session.board === daily.puzzle.board &&
+    session.solution === daily.puzzle.solution
+  );
 }
 
 // =============================================================================
@@ -177,7 +337,12 @@ async function checkAndAwardBadges(
 /**
  * POST /play/start
  *
- * Start a new game session. Closes any existing session for the user.
+ * Start a new game session. Replaces any open session for the same puzzle
+ * (puzzleType + puzzleId); sessions for other puzzles stay open, up to
+ * MAX_OPEN_SESSIONS, after which the least recently active one is evicted.
+ * Replacement, eviction and insert run in one transaction per user.
+ * For a stored daily, the board, solution, level and techniques are taken
+ * from the daily rather than the request.
  * Returns session ID and start timestamp.
  */
 playRouter.post(
@@ -189,25 +354,57 @@ playRouter.post(
     const body = c.req.valid("json");
 
     try {
-      // Delete any existing session for this user (abandoning previous game)
-      await db.delete(gameSessions).where(eq(gameSessions.userId, userId));
+      // A daily is played on its stored board, whatever the client sent
+      const daily =
+        body.puzzleType === "daily" ? await resolveDaily(body.puzzleId) : null;
+      const puzzle = daily?.puzzle
+        ? {
+            board: daily.puzzle.board,
+            solution: daily.puzzle.solution,
+            level: daily.puzzle.level ?? body.level,
+            techniques: daily.puzzle.techniques ?? body.techniques,
+          }
+        : body;
+
+      // Serialize starts per user so concurrent requests cannot both pass the
+      // delete and then collide on the one-session-per-puzzle constraint
+      const newSession = await db.transaction(async tx => {
+        await tx.execute(
+          sql`SELECT pg_advisory_xact_lock(hashtext('game_sessions'), hashtext(${userId}))`
+        );
 
-      // Create new session
-      const newSession = await db
-        .insert(gameSessions)
-        .values({
-          userId,
-          board: body.board,
-          solution: body.solution,
-          level: body.level,
-          techniques: body.techniques,
-          puzzleType: body.puzzleType,
-          puzzleId: body.puzzleId,
-          hintUsed: false,
-          hintsCount: 0,
-          hintPointsEarned: 0,
-        })
-        .returning();
+        // Restarting the same puzzle abandons its previous session
+        await tx
+          .delete(gameSessions)
+          .where(
+            and(
+              eq(gameSessions.userId, userId),
+              eq(gameSessions.puzzleType, body.puzzleType),
+              body.puzzleId
+                ? eq(gameSessions.puzzleId, body.puzzleId)
+                : isNull(gameSessions.puzzleId)
+            )
+          );
+
+        // Make room for the new session
+        await evictStaleSessions(userId, MAX_OPEN_SESSIONS - 1, tx);
+
+        return tx
+          .insert(gameSessions)
+          .values({
+            userId,
+            board: puzzle.board,
+            solution: puzzle.solution,
+            level: puzzle.level,
+            techniques: puzzle.techniques,
+            puzzleType: body.puzzleType,
+            puzzleId: body.puzzleId,
+            hintUsed: false,
+            hintsCount: 0,
+            hintPointsEarned: 0,
+          })
+          .returning();
+      });
 
       const startResponse: GameStartResponse = {
         sessionId: newSession[0].id,
@@ -216,17 +413,262 @@ playRouter.post(
       };
       return c.json(successResponse(startResponse), 201);
     } catch (error) {
-      console.error("Error starting game session:", error);
+      logger.error("Error starting game session", { error });
       return c.json(errorResponse("Failed to start game session"), 500);
     }
   }
 );
 
+/**
+ * GET /play/sessions
+ *
+ * List the user's open game sessions, most recently active first.
+ *
+ * @auth Firebase token required
+ * @returns 200 - Array of GameSessionState
+ */
+playRouter.get("/sessions", firebaseAuthMiddleware, async c => {
+  const userId = c.get("userId");
+
+  try {
+    const sessions = await db
+      .select()
+      .from(gameSessions)
+      .where(eq(gameSessions.userId, userId))
+      .orderBy(desc(lastActiveAt));
+
+    return c.json(successResponse(sessions.map(toSessionState)));
+  } catch (error) {
+    logger.error("Error listing game sessions", { error });
+    return c.json(errorResponse("Failed to list game sessions"), 500);
+  }
+});
+
+/**
+ * GET /play/current
+ *
+ * Get an open game session with its synced progress and hint counts,
+ * so a client can resume the game where the player left off.
+ *
+ * @auth Firebase token required
+ * @query sessionId - Session to resume (optional)
+ * @query puzzleType - Select by puzzle type when sessionId is omitted (optional)
+ * @query puzzleId - Narrow the puzzleType selection to one puzzle (optional)
+ * @returns 200 - GameSessionState (most recently started if no selector)
+ * @returns 404 - No matching game session
+ */
+playRouter.get(
+  "/current",
+  firebaseAuthMiddleware,
+  zValidator("query", gameSessionQuerySchema),
+  async c => {
+    const userId = c.get("userId");
+    const selector = c.req.valid("query");
+
+    try {
+      const session = await findSession(userId, selector);
+
+      if (!session) {
+        return c.json(errorResponse("No active game session"), 404);
+      }
+
+      return c.json(successResponse(toSessionState(session)));
+    } catch (error) {
+      logger.error("Error fetching current game session", { error });
+      return c.json(errorResponse("Failed to fetch current game session"), 500);
+    }
+  }
+);
+
+/**
+ * PATCH /play/progress
+ *
+ * Store the user's current entries, pencilmarks and active play time on an
+ * open session (selected by sessionId, defaulting to the most recent one).
+ * Entries that overwrite a given of the original board are rejected. Active
+ * time never decreases, so a device with a stale timer cannot roll back time
+ * accumulated elsewhere.
+ *
+ * @auth Firebase token required
+ * @body gameProgressSchema - { user, pencilmarks?, elapsedTime?, sessionId? }
+ * @returns 200 - { sessionId, updatedAt }
+ * @returns 400 - No active session, or entries conflict with the givens
+ */
+playRouter.patch(
+  "/progress",
+  firebaseAuthMiddleware,
+  zValidator("json", gameProgressSchema),
+  async c => {
+    const userId = c.get("userId");
+    const body = c.req.valid("json");
+
+    try {
+      const session = await findSession(userId, body);
+
+      if (!session) {
+        return c.json(
+          errorResponse("No active game session. Call /play/start first."),
+          400
+        );
+      }
+
+      if (!preservesGivens(session.board, body.user)) {
+        return c.json(
+          errorResponse("User entries conflict with the puzzle's givens"),
+          400
+        );
+      }
+
+      const updatedAt = new Date();
+      await db
+        .update(gameSessions)
+        .set({
+          userInput: body.user,
+          pencilmarks: body.pencilmarks ?? null,
+          activeSeconds: Math.max(session.activeSeconds, body.elapsedTime ?? 0),
+          progressUpdatedAt: updatedAt,
+        })
+        .where(eq(gameSessions.id, session.id));
+
+      const progressResponse: GameProgressResponse = {
+        sessionId: session.id,
+        updatedAt: updatedAt.toISOString(),
+      };
+      return c.json(successResponse(progressResponse));
+    } catch (error) {
+      logger.error("Error syncing game progress", { error });
+      return c.json(errorResponse("Failed to sync game progress"), 500);
+    }
+  }
+);
+
+/**
+ * POST /play/pause
+ *
+ * Pause an open session. Paused time is excluded from the verified solve
+ * time, and any pause forfeits the no-interruption multiplier.
+ *
+ * @auth Firebase token required
+ * @body gamePauseSchema - { sessionId? }
+ * @returns 200 - { sessionId, paused, pausedSeconds }
+ * @returns 400 - No active session
+ * @returns 409 - Session is already paused
+ */
+playRouter.post(
+  "/pause",
+  firebaseAuthMiddleware,
+  zValidator("json", gamePauseSchema),
+  async c => {
+    const userId = c.get("userId");
+    const body = c.req.valid("json");
+
+    try {
+      const session = await findSession(userId, body);
+
+      if (!session) {
+        return c.json(
+          errorResponse("No active game session. Call /play/start first."),
+          400
+        );
+      }
+
+      if (isPaused(session.pauseIntervals)) {
+        return c.json(errorResponse("Game session is already paused"), 409);
+      }
+
+      const now = new Date();
+      const pauseIntervals: PauseInterval[] = [
+        ...session.pauseIntervals,
+        { pausedAt: now.toISOString(), resumedAt: null },
+      ];
+      await db
+        .update(gameSessions)
+        .set({ pauseIntervals })
+        .where(eq(gameSessions.id, session.id));
+
+      const pauseResponse: GamePauseResponse = {
+        sessionId: session.id,
+        paused: true,
+        pausedSeconds: totalPausedSeconds(pauseIntervals, now),
+      };
+      return c.json(successResponse(pauseResponse));
+    } catch (error) {
+      logger.error("Error pausing game session", { error });
+      return c.json(errorResponse("Failed to pause game session"), 500);
+    }
+  }
+);
+
+/**
+ * POST /play/resume
+ *
+ * Resume a paused session, closing its open pause interval.
+ *
+ * @auth Firebase token required
+ * @body gamePauseSchema - { sessionId? }
+ * @returns 200 - { sessionId, paused, pausedSeconds }
+ * @returns 400 - No active session
+ * @returns 409 - Session is not paused
+ */
+playRouter.post(
+  "/resume",
+  firebaseAuthMiddleware,
+  zValidator("json", gamePauseSchema),
+  async c => {
+    const userId = c.get("userId");
+    const body = c.req.valid("json");
+
+    try {
+      const session = await findSession(userId, body);
+
+      if (!session) {
+        return c.json(
+          errorResponse("No active game session. Call /play/start first."),
+          400
+        );
+      }
+
+      if (!isPaused(session.pauseIntervals)) {
+        return c.json(errorResponse("Game session is not paused"), 409);
+      }
+
+      const now = new Date();
+      const pauseIntervals = closePause(session.pauseIntervals, now);
+      await db
+        .update(gameSessions)
+        .set({ pauseIntervals })
+        .where(eq(gameSessions.id, session.id));
+
+      const resumeResponse: GamePauseResponse = {
+        sessionId: session.id,
+        paused: false,
+        pausedSeconds: totalPausedSeconds(pauseIntervals, now),
+      };
+      return c.json(successResponse(resumeResponse));
+    } catch (error) {
+      logger.error("Error resuming game session", { error });
+      return c.json(errorResponse("Failed to resume game session"), 500);
+    }
+  }
+);
+
 /**
  * POST /play/finish
  *
- * Complete the current game and award points/badges/level.
- * Requires an active game session.
+ * Complete a game and award points/badges/level.
+ * Requires an open game session, selected by sessionId (defaulting to the
+ * most recently started one). The completed grid is taken from the
+ * request body, or from the last synced progress when omitted, and must
+ * match the session's solution. A daily completion is recorded for the
+ * daily leaderboard only when the session played the stored daily's board.
+ * The daily streak advances only for the daily of the finish day, in the
+ * user's stored timezone.
+ *
+ * Points, stats, the daily completion and badges are written in a single
+ * ledger transaction.
+ *
+ * @returns 400 - No active session, or the grid does not match the solution
+ * @returns 409 - The session was finished by a concurrent request
  */
 playRouter.post(
   "/finish",
@@ -237,118 +679,212 @@ playRouter.post(
     const body = c.req.valid("json");
 
     try {
-      // Get active session
-      const sessions = await db
-        .select()
-        .from(gameSessions)
-        .where(eq(gameSessions.userId, userId));
+      // Get the session being finished
+      const session = await findSession(userId, body);
 
-      if (sessions.length === 0) {
+      if (!session) {
         return c.json(
           errorResponse("No active game session. Call /play/start first."),
           400
         );
       }
 
-      const session = sessions[0];
+      // Verify the puzzle was actually solved
+      const grid =
+        body.grid ?? mergeGrid(session.board, session.userInput ?? "");
+      if (!isSolvedGrid(grid, session.solution)) {
+        return c.json(
+          errorResponse("Submitted grid does not match the puzzle solution"),
+          400
+        );
+      }
 
-      // Calculate interruption status
-      const interrupted = wasGameInterrupted(
-        session.startedAt,
-        body.elapsedTime
-      );
+      const daily =
+        session.puzzleType === "daily"
+          ? await resolveDaily(session.puzzleId)
+          : null;
+      // Only sessions on the stored daily's board reach the daily
+      // leaderboard; fallback dailies still count towards the streak
+      const rankedDaily = playsStoredDaily(session, daily);
+      const dailyDate =
+        daily && (daily.puzzle === null || rankedDaily) ? daily.date : null;
+
+      // Award everything in one transaction so a failure leaves no partial
+      // points, stats or badges behind
+      const response = await withLedger(async tx => {
+        // Claim the session; a concurrent finish of the same session gets
+        // nothing. The claimed row includes hints recorded up to this point.
+        const [game] = await tx
+          .delete(gameSessions)
+          .where(eq(gameSessions.id, session.id))
+          .returning();
+        if (!game) {
+          return null;
+        }
 
-      // Calculate points (hint points are awarded separately via /solver/solve)
-      const basePoints = calculateBasePoints(session.level);
-      const noHintMultiplier = session.hintUsed ? 1 : NO_HINT_MULTIPLIER;
-      const noInterruptionMultiplier = interrupted
-        ? 1
-        : NO_INTERRUPTION_MULTIPLIER;
-      const totalPoints =
-        basePoints * noHintMultiplier * noInterruptionMultiplier;
-
-      // Determine if this is "perfect play" (no hints AND no interruption)
-      const isPerfectPlay = !session.hintUsed && !interrupted;
-
-      // Get or create user stats
-      const stats = await getOrCreateUserStats(userId);
-
-      // Calculate new values (only add puzzle points, hint points already added)
-      const newTotalPoints = stats.totalPoints + totalPoints;
-      const newGamesCompleted = stats.gamesCompleted + 1;
-
-      // Check for level promotion (perfect play on higher level puzzle)
-      let newUserLevel = stats.userLevel;
-      let leveledUp = false;
-      if (isPerfectPlay && session.level > stats.userLevel) {
-        newUserLevel = session.level;
-        leveledUp = true;
-      }
+        // Calculate interruption status from recorded pauses
+        // (finishing while paused closes the open pause)
+        const finishedAt = new Date();
+        const pauseIntervals = closePause(game.pauseIntervals, finishedAt);
+        const interrupted = wasGameInterrupted(pauseIntervals, finishedAt);
+        const pausedSeconds = totalPausedSeconds(pauseIntervals, finishedAt);
+        // Verified solve time: server wall-clock time minus recorded pauses
+        const verifiedSeconds = Math.max(
+          0,
+          Math.round((finishedAt.getTime() - game.startedAt.getTime()) / 1000) -
+            pausedSeconds
+        );
 
-      // Update user stats
-      await db
-        .update(userStats)
-        .set({
-          totalPoints: newTotalPoints,
-          gamesCompleted: newGamesCompleted,
-          userLevel: newUserLevel,
-          updatedAt: new Date(),
-        })
-        .where(eq(userStats.userId, userId));
-
-      // Check and award badges
-      const newBadges = await checkAndAwardBadges(
-        userId,
-        session.level,
-        isPerfectPlay,
-        newGamesCompleted
-      );
+        // Calculate points (hint points are awarded separately via /solver/solve)
+        const basePoints = calculateBasePoints(game.level);
+        const noHintMultiplier = game.hintUsed ? 1 : NO_HINT_MULTIPLIER;
+        const noInterruptionMultiplier = interrupted
+          ? 1
+          : NO_INTERRUPTION_MULTIPLIER;
+        const totalPoints =
+          basePoints * noHintMultiplier * noInterruptionMultiplier;
+
+        // Determine if this is "perfect play" (no hints AND no interruption)
+        const isPerfectPlay = !game.hintUsed && !interrupted;
+
+        // Lock user stats so concurrent finishes and hints are serialized
+        const stats = await lockUserStats(tx, userId);
+
+        // Calculate new values (only add puzzle points, hint points already added)
+        const newGamesCompleted = stats.gamesCompleted + 1;
+        const newHintFreeStreak = game.hintUsed ? 0 : stats.hintFreeStreak + 1;
+
+        // Advance the daily streak for today's daily only, counting days in
+        // the stored timezone. A newly reported timezone is stored for later
+        // finishes, at most once per TIMEZONE_CHANGE_INTERVAL_MS, so it
+        // cannot move the day boundary of this one.
+        const timezone = stats.timezone ?? body.timezone ?? DEFAULT_TIMEZONE;
+        const today = localDate(finishedAt, timezone);
+        const streak =
+          dailyDate === today ? advanceStreak(stats, today) : stats;
+        const timezoneUpdate =
+          body.timezone &&
+          body.timezone !== stats.timezone &&
+          canChangeTimezone(stats, finishedAt)
+            ? { timezone: body.timezone, timezoneUpdatedAt: finishedAt }
+            : {};
+
+        // Check for level promotion (perfect play on higher level puzzle)
+        let newUserLevel = stats.userLevel;
+        let leveledUp = false;
+        if (isPerfectPlay && game.level > stats.userLevel) {
+          newUserLevel = game.level;
+          leveledUp = true;
+        }
 
-      // Record point transaction for puzzle completion
-      await db.insert(pointTransactions).values({
-        userId,
-        points: totalPoints,
-        transactionType: "puzzle_complete",
-        metadata: {
-          puzzleLevel: session.level,
-          puzzleType: session.puzzleType,
-          puzzleId: session.puzzleId,
-          basePoints,
-          hintUsed: session.hintUsed,
-          hintsCount: session.hintsCount,
-          interrupted,
-          noHintMultiplier,
-          noInterruptionMultiplier,
-          elapsedTime: body.elapsedTime,
-        },
-      });
+        // Record the completion and update user stats
+        const newTotalPoints = await postPoints(
+          tx,
+          {
+            userId,
+            points: totalPoints,
+            transactionType: "puzzle_complete",
+            metadata: {
+              puzzleLevel: game.level,
+              puzzleType: game.puzzleType,
+              puzzleId: game.puzzleId,
+              basePoints,
+              hintUsed: game.hintUsed,
+              hintsCount: game.hintsCount,
+              interrupted,
+              noHintMultiplier,
+              noInterruptionMultiplier,
+              elapsedTime: body.elapsedTime,
+              verifiedSeconds,
+              pausedSeconds,
+              pauseIntervals,
+              techniques: game.techniques ?? 0,
+            },
+          },
+          {
+            gamesCompleted: newGamesCompleted,
+            userLevel: newUserLevel,
+            currentStreak: streak.currentStreak,
+            longestStreak: streak.longestStreak,
+            lastStreakDate: streak.lastStreakDate,
+            hintFreeStreak: newHintFreeStreak,
+            ...timezoneUpdate,
+          }
+        );
 
-      // Delete the completed session
-      await db.delete(gameSessions).where(eq(gameSessions.userId, userId));
-
-      // Build response with optional fields
-      const response: GameFinishResponse = {
-        points: {
-          basePoints,
-          noHintMultiplier,
-          noInterruptionMultiplier,
-          totalPoints,
-        },
-      };
+        // Record the first completion of a daily for the daily leaderboard
+        if (daily && rankedDaily) {
+          await tx
+            .insert(dailyCompletions)
+            .values({
+              userId,
+              date: daily.date,
+              verifiedSeconds,
+              hintUsed: game.hintUsed,
+              hintsCount: game.hintsCount,
+            })
+            .onConflictDoNothing();
+        }
+
+        // Check and award badges (after recording the completion, so
+        // technique mastery counts include this game)
+        const newBadges = await checkAndAwardBadges(
+          userId,
+          {
+            totalPoints: newTotalPoints,
+            gamesCompleted: newGamesCompleted,
+            currentStreak: streak.currentStreak,
+            hintFreeStreak: newHintFreeStreak,
+            techniqueSolves: new Map(),
+            game: {
+              level: game.level,
+              hintUsed: game.hintUsed,
+              perfectPlay: isPerfectPlay,
+              verifiedSeconds,
+            },
+          },
+          tx
+        );
+
+        // Build response with optional fields
+        const finishResponse: GameFinishResponse = {
+          points: {
+            basePoints,
+            noHintMultiplier,
+            noInterruptionMultiplier,
+            totalPoints,
+          },
+        };
+
+        // Only include level if user leveled up
+        if (leveledUp) {
+          finishResponse.level = { newUserLevel };
+        }
+
+        // Only include badges if new badges were earned
+        if (newBadges.length > 0) {
+          finishResponse.badges = newBadges;
+        }
 
-      // Only include level if user leveled up
-      if (leveledUp) {
-        response.level = { newUserLevel };
+        return finishResponse;
+      });
+
+      if (!response) {
+        return c.json(errorResponse("Game session was already finished"), 409);
       }
 
-      // Only include badges if new badges were earned
-      if (newBadges.length > 0) {
-        response.badges = newBadges;
+      gamesFinishedTotal.inc({ puzzle_type: session.puzzleType });
+      pointsAwardedTotal.inc(
+        { transaction_type: "puzzle_complete" },
+        response.points.totalPoints
+      );
+      for (const badge of response.badges ?? []) {
+        badgesAwardedTotal.inc({ badge: badge.badgeKey });
       }
 
       return c.json(successResponse(response));
     } catch (error) {
-      console.error("Error finishing game:", error);
+      logger.error("Error finishing game", { error });
       return c.json(errorResponse("Failed to finish game"), 500);
     }
   }
@@ -5,12 +5,14 @@
  * Each practice is a simplified board state designed for practicing
  * a specific technique, derived from technique examples.
  * Public endpoints: GET (counts, random by technique, get by UUID)
- * Admin endpoints: POST, DELETE (require Firebase admin auth)
+ * Admin endpoints: POST, DELETE, restore (require Firebase admin auth)
+ *
+ * Deleted practices are soft-deleted and purged after a grace period.
  */
 
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { eq, sql } from "drizzle-orm";
+import { and, eq, isNull, isNotNull, sql } from "drizzle-orm";
 import {
   db,
   boards,
@@ -24,6 +26,7 @@ import {
   techniqueParamSchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
 import {
   successResponse,
   errorResponse,
@@ -39,6 +42,7 @@ import {
   hintTitleLocalization,
 } from "../lib/localization";
 import { callSolver } from "../services/solver-proxy";
+import { logger } from "../lib/logger";
 
 const practicesRouter = new Hono();
 
@@ -58,7 +62,7 @@ practicesRouter.get("/counts", async c => {
       technique_title: techniques.title,
       technique_path: techniques.path,
       count: sql<number>`COALESCE(
-        (SELECT COUNT(*) FROM technique_practices WHERE technique_practices.technique = techniques.technique),
+        (SELECT COUNT(*) FROM technique_practices WHERE technique_practices.technique = techniques.technique AND technique_practices.deleted_at IS NULL),
         0
       )::int`,
     })
@@ -93,7 +97,12 @@ practicesRouter.get(
     const rows = await db
       .select()
       .from(techniquePractices)
-      .where(eq(techniquePractices.technique, technique))
+      .where(
+        and(
+          eq(techniquePractices.technique, technique),
+          isNull(techniquePractices.deleted_at)
+        )
+      )
       .orderBy(sql`RANDOM()`)
       .limit(1);
 
@@ -123,7 +132,12 @@ practicesRouter.get("/:uuid", zValidator("param", uuidParamSchema), async c => {
   const rows = await db
     .select()
     .from(techniquePractices)
-    .where(eq(techniquePractices.uuid, uuid));
+    .where(
+      and(
+        eq(techniquePractices.uuid, uuid),
+        isNull(techniquePractices.deleted_at)
+      )
+    );
 
   if (rows.length === 0) {
     return c.json(errorResponse("Practice not found"), 404);
@@ -137,7 +151,7 @@ practicesRouter.get("/:uuid", zValidator("param", uuidParamSchema), async c => {
  *
  * Create a new practice puzzle. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body techniquePracticeCreateSchema
  * @returns 201 - Created practice object
  * @returns 401 - Missing or invalid auth token
@@ -150,18 +164,26 @@ practicesRouter.post(
   async c => {
     const body = c.req.valid("json");
 
-    const rows = await db
-      .insert(techniquePractices)
-      .values({
-        technique: body.technique,
-        board: body.board,
-        pencilmarks: body.pencilmarks ?? null,
-        solution: body.solution,
-        hint_data: body.hint_data ?? null,
-        source_example_uuid: body.source_example_uuid ?? null,
-      })
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .insert(techniquePractices)
+        .values({
+          technique: body.technique,
+          board: body.board,
+          pencilmarks: body.pencilmarks ?? null,
+          solution: body.solution,
+          hint_data: body.hint_data ?? null,
+          source_example_uuid: body.source_example_uuid ?? null,
+        })
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "technique_practice",
+        entityId: rows[0]!.uuid,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as TechniquePractice), 201);
   }
 );
@@ -169,10 +191,10 @@ practicesRouter.post(
 /**
  * DELETE /api/v1/practices
  *
- * Delete all practice puzzles. Requires admin authentication
+ * Soft-delete all practice puzzles. Requires admin authentication
  * and a `confirm=true` query parameter as a safety check.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @query confirm - Must be "true" to proceed
  * @returns 200 - { deleted: number, message: string }
  * @returns 400 - Missing confirm=true query parameter
@@ -189,7 +211,19 @@ practicesRouter.delete("/", adminMiddleware, async c => {
     );
   }
 
-  const rows = await db.delete(techniquePractices).returning();
+  const rows = await withAudit(async tx => {
+    const rows = await tx
+      .update(techniquePractices)
+      .set({ deleted_at: new Date() })
+      .where(isNull(techniquePractices.deleted_at))
+      .returning();
+
+    await recordAudit(tx, c, {
+      entityType: "technique_practice",
+      before: { deleted: rows.length, uuids: rows.map(row => row.uuid) },
+    });
+    return rows;
+  });
 
   const deleteResult: PracticesBulkDeleteData = {
     deleted: rows.length,
@@ -201,9 +235,10 @@ practicesRouter.delete("/", adminMiddleware, async c => {
 /**
  * DELETE /api/v1/practices/:uuid
  *
- * Delete a single practice puzzle. Requires admin authentication.
+ * Soft-delete a single practice puzzle. Requires admin authentication.
+ * The practice is hidden immediately and can be restored until it is purged.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param uuid - Valid UUID string
  * @returns 200 - Deleted practice object
  * @returns 401 - Missing or invalid auth token
@@ -217,10 +252,35 @@ practicesRouter.delete(
   async c => {
     const { uuid } = c.req.valid("param");
 
-    const rows = await db
-      .delete(techniquePractices)
-      .where(eq(techniquePractices.uuid, uuid))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(techniquePractices)
+        .where(
+          and(
+            eq(techniquePractices.uuid, uuid),
+            isNull(techniquePractices.deleted_at)
+          )
+        )
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(techniquePractices)
+        .set({ deleted_at: new Date() })
+        .where(eq(techniquePractices.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "technique_practice",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Practice not found"), 404);
@@ -230,6 +290,63 @@ practicesRouter.delete(
   }
 );
 
+/**
+ * POST /api/v1/practices/:uuid/restore
+ *
+ * Restore a soft-deleted practice puzzle. Requires admin authentication.
+ *
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
+ * @param uuid - Valid UUID string
+ * @returns 200 - Restored practice object
+ * @returns 401 - Missing or invalid auth token
+ * @returns 403 - Not an admin user
+ * @returns 404 - No deleted practice with this UUID (never deleted, or purged)
+ */
+practicesRouter.post(
+  "/:uuid/restore",
+  adminMiddleware,
+  zValidator("param", uuidParamSchema),
+  async c => {
+    const { uuid } = c.req.valid("param");
+
+    const rows = await withAudit(async tx => {
+      const [current] = await tx
+        .select()
+        .from(techniquePractices)
+        .where(
+          and(
+            eq(techniquePractices.uuid, uuid),
+            isNotNull(techniquePractices.deleted_at)
+          )
+        )
+        .for("update");
+      if (!current) {
+        return [];
+      }
+
+      const rows = await tx
+        .update(techniquePractices)
+        .set({ deleted_at: null })
+        .where(eq(techniquePractices.uuid, uuid))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "technique_practice",
+        entityId: uuid,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Deleted practice not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0] as TechniquePractice));
+  }
+);
+
 /**
  * POST /api/v1/practices/regenerate-hints
  *
@@ -237,7 +354,7 @@ practicesRouter.delete(
  * Updates each row's stored hint_data with fresh solver output
  * including all detailed steps. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @returns 200 - { examples: { updated, failed, total }, practices: { updated, failed, total }, failures }
  */
 practicesRouter.post("/regenerate-hints", adminMiddleware, async c => {
@@ -279,7 +396,12 @@ practicesRouter.post("/regenerate-hints", adminMiddleware, async c => {
 
       if (!result.success) {
         const msg = result.error?.message ?? "Solver returned failure";
-        console.warn(`[regenerate] Failed ${table} ${row.uuid}: ${msg}`);
+        logger.warn("Hint regeneration failed", {
+          table,
+          uuid: row.uuid,
+          technique: row.technique,
+          reason: msg,
+        });
         failures.push({
           uuid: row.uuid,
           table,
@@ -290,9 +412,11 @@ practicesRouter.post("/regenerate-hints", adminMiddleware, async c => {
       }
 
       if (!result.data?.hints?.steps?.length) {
-        console.warn(
-          `[regenerate] No steps for ${table} ${row.uuid} (technique ${row.technique})`
-        );
+        logger.warn("Hint regeneration returned no steps", {
+          table,
+          uuid: row.uuid,
+          technique: row.technique,
+        });
         failures.push({
           uuid: row.uuid,
           table,
@@ -338,10 +462,12 @@ practicesRouter.post("/regenerate-hints", adminMiddleware, async c => {
       return true;
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Unknown error";
-      console.error(
-        `[regenerate] Error for ${table} ${row.uuid} (technique ${row.technique}):`,
-        msg
-      );
+      logger.error("Hint regeneration error", {
+        table,
+        uuid: row.uuid,
+        technique: row.technique,
+        error: err,
+      });
       failures.push({
         uuid: row.uuid,
         table,
@@ -352,6 +478,11 @@ practicesRouter.post("/regenerate-hints", adminMiddleware, async c => {
     }
   };
 
+  // Regenerated hint data, written together with the audit entry once the
+  // solver calls are done (so no transaction stays open across them)
+  const exampleUpdates: { uuid: string; hintData: string }[] = [];
+  const practiceUpdates: { uuid: string; hintData: string }[] = [];
+
   // Regenerate technique_examples (join with source board for original puzzle)
   const allExamples = await db
     .select({
@@ -362,7 +493,8 @@ practicesRouter.post("/regenerate-hints", adminMiddleware, async c => {
       source_board: boards.board,
     })
     .from(techniqueExamples)
-    .leftJoin(boards, eq(techniqueExamples.source_board_uuid, boards.uuid));
+    .leftJoin(boards, eq(techniqueExamples.source_board_uuid, boards.uuid))
+    .where(isNull(techniqueExamples.deleted_at));
   let examplesUpdated = 0;
 
   for (const example of allExamples) {
@@ -385,17 +517,17 @@ practicesRouter.post("/regenerate-hints", adminMiddleware, async c => {
       },
       "technique_examples",
       async (uuid, hintData) => {
-        await db
-          .update(techniqueExamples)
-          .set({ hint_data: hintData })
-          .where(eq(techniqueExamples.uuid, uuid));
+        exampleUpdates.push({ uuid, hintData });
       }
     );
     if (success) examplesUpdated++;
   }
 
   // Regenerate technique_practices
-  const allPractices = await db.select().from(techniquePractices);
+  const allPractices = await db
+    .select()
+    .from(techniquePractices)
+    .where(isNull(techniquePractices.deleted_at));
   let practicesUpdated = 0;
 
   for (const practice of allPractices) {
@@ -409,15 +541,35 @@ practicesRouter.post("/regenerate-hints", adminMiddleware, async c => {
       },
       "technique_practices",
       async (uuid, hintData) => {
-        await db
-          .update(techniquePractices)
-          .set({ hint_data: hintData })
-          .where(eq(techniquePractices.uuid, uuid));
+        practiceUpdates.push({ uuid, hintData });
       }
     );
     if (success) practicesUpdated++;
   }
 
+  await withAudit(async tx => {
+    for (const { uuid, hintData } of exampleUpdates) {
+      await tx
+        .update(techniqueExamples)
+        .set({ hint_data: hintData })
+        .where(eq(techniqueExamples.uuid, uuid));
+    }
+    for (const { uuid, hintData } of practiceUpdates) {
+      await tx
+        .update(techniquePractices)
+        .set({ hint_data: hintData })
+        .where(eq(techniquePractices.uuid, uuid));
+    }
+    await recordAudit(tx, c, {
+      entityType: "hint_data",
+      after: {
+        examplesUpdated,
+        practicesUpdated,
+        failed: failures.length,
+      },
+    });
+  });
+
   return c.json(
     successResponse({
       examples: {
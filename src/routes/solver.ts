@@ -5,12 +5,20 @@
  * validation, and generation. Tracks hint usage for gamification.
  * Hint access gating is handled client-side using the level's entitlement field.
  *
- * Public endpoints: GET /validate, GET /generate
- * Authenticated: GET /solve (hint access middleware for auth context)
+ * Public endpoints: GET|POST /validate, GET|POST /generate (rate limited)
+ * Authenticated: GET|POST /solve (hint access middleware for auth context)
+ * Admin: DELETE /cache
+ *
+ * Each solver route takes its parameters either as a query string (GET) or
+ * as a JSON body (POST), which keeps boards out of URLs and access logs.
+ * POST bodies are forwarded to the solver as JSON.
+ *
+ * Solve and validate responses are cached (see services/solver-cache.ts).
  */
 
 import { Hono, type Context } from "hono";
-import { eq } from "drizzle-orm";
+import { zValidator } from "@hono/zod-validator";
+import { and, desc, eq, sql } from "drizzle-orm";
 import {
   successResponse,
   errorResponse,
@@ -22,30 +30,53 @@ import {
   type GenerateData,
 } from "@sudobility/sudojo_types";
 import { db } from "../db";
-import {
-  gameSessions,
-  pointTransactions,
-  userStats,
-  techniques as techniquesTable,
-} from "../db/schema";
+import { gameSessions, techniques as techniquesTable } from "../db/schema";
 import { hintTitleLocalization } from "../lib/localization";
 import {
   proxySolverRequest,
+  proxySolverPost,
+  cachedSolverRequest,
+  cachedSolverPost,
   callSolver,
   type SolverResponse,
+  type SolverTransport,
 } from "../services/solver-proxy";
+import { invalidateSolverCache } from "../services/solver-cache";
+import { solverBodyToQueryString } from "../lib/solver-cache-key";
+import { recordAudit, withAudit } from "../services/audit";
+import {
+  solverCacheInvalidateSchema,
+  solverGenerateBodySchema,
+  solverSolveBodySchema,
+  solverValidateBodySchema,
+} from "../schemas";
+import { postPoints, withLedger } from "../services/ledger";
+import { hintsUsedTotal, pointsAwardedTotal } from "../services/metrics";
 
 import { hintAccessMiddleware } from "../middleware/hintAccess";
+import { createAccessControlMiddleware } from "../middleware/accessControl";
+import { createRateLimitMiddleware } from "../middleware/rateLimit";
+import { adminMiddleware } from "../middleware/auth";
+import { logger } from "../lib/logger";
 
 const solverRouter = new Hono();
 
 // Default autopencilmarks setting
 const DEFAULT_AUTOPENCILMARKS = "false";
 
+interface SolveInput {
+  original: string;
+  user: string;
+  autopencilmarks: string;
+  pencilmarks: string;
+  techniques?: string;
+}
+
 /**
- * Track hint usage for gamification when user has an active session.
+ * Track hint usage for gamification when user has an open session for the board.
+ * If several open sessions share the board, the most recently started one is used.
  * Awards hint points immediately: 2 × technique_level
- * Points are added to user's total and recorded as a transaction.
+ * Points are posted to the ledger (user total + transaction) atomically.
  */
 async function trackHintUsage(
   userId: string,
@@ -53,88 +84,79 @@ async function trackHintUsage(
   techniqueLevel: number
 ): Promise<{ tracked: boolean; hintPoints: number }> {
   try {
-    // Check if user has an active session with matching board
-    const sessions = await db
-      .select()
-      .from(gameSessions)
-      .where(eq(gameSessions.userId, userId));
-
-    if (sessions.length === 0) {
-      return { tracked: false, hintPoints: 0 };
-    }
+    // Session and points are updated together; increments happen in SQL so
+    // concurrent hints for the same user cannot lose points
+    const hintPoints = await withLedger(async tx => {
+      // Find the user's open session for this board
+      const sessions = await tx
+        .select()
+        .from(gameSessions)
+        .where(
+          and(
+            eq(gameSessions.userId, userId),
+            eq(gameSessions.board, originalBoard)
+          )
+        )
+        .orderBy(desc(gameSessions.startedAt))
+        .limit(1)
+        .for("update");
+
+      if (sessions.length === 0) {
+        return null;
+      }
 
-    const session = sessions[0];
+      const session = sessions[0];
 
-    // Board must match the active session
-    if (session.board !== originalBoard) {
-      return { tracked: false, hintPoints: 0 };
-    }
+      // Calculate hint points: 2 × technique_level
+      const points = 2 * techniqueLevel;
 
-    // Calculate hint points: 2 × technique_level
-    const hintPoints = 2 * techniqueLevel;
-
-    // Update session: mark hint used, increment count
-    await db
-      .update(gameSessions)
-      .set({
-        hintUsed: true,
-        hintsCount: session.hintsCount + 1,
-      })
-      .where(eq(gameSessions.userId, userId));
-
-    // Get current user stats
-    const existingStats = await db
-      .select()
-      .from(userStats)
-      .where(eq(userStats.userId, userId));
-
-    if (existingStats.length > 0) {
-      // Update user's total points immediately
-      await db
-        .update(userStats)
+      // Update session: mark hint used, increment count and hint points
+      await tx
+        .update(gameSessions)
         .set({
-          totalPoints: existingStats[0].totalPoints + hintPoints,
-          updatedAt: new Date(),
+          hintUsed: true,
+          hintsCount: sql`${gameSessions.hintsCount} + 1`,
+          hintPointsEarned: sql`${gameSessions.hintPointsEarned} + ${points}`,
         })
-        .where(eq(userStats.userId, userId));
-    } else {
-      // Create user stats if they don't exist
-      await db.insert(userStats).values({
+        .where(eq(gameSessions.id, session.id));
+
+      // Add to the user's total and record the transaction
+      await postPoints(tx, {
         userId,
-        totalPoints: hintPoints,
+        points,
+        transactionType: "hint_used",
+        metadata: {
+          techniqueLevel,
+          puzzleLevel: session.level,
+          puzzleType: session.puzzleType,
+          puzzleId: session.puzzleId,
+        },
       });
-    }
 
-    // Record point transaction for the hint
-    await db.insert(pointTransactions).values({
-      userId,
-      points: hintPoints,
-      transactionType: "hint_used",
-      metadata: {
-        techniqueLevel,
-        puzzleLevel: session.level,
-        puzzleType: session.puzzleType,
-        puzzleId: session.puzzleId,
-      },
+      return points;
     });
 
+    if (hintPoints === null) {
+      return { tracked: false, hintPoints: 0 };
+    }
+
+    hintsUsedTotal.inc({ technique_level: techniqueLevel });
+    pointsAwardedTotal.inc({ transaction_type: "hint_used" }, hintPoints);
     return { tracked: true, hintPoints };
   } catch (error) {
-    console.error("Error tracking hint usage:", error);
+    logger.error("Error tracking hint usage", { error });
     return { tracked: false, hintPoints: 0 };
   }
 }
 
 // Helper to handle solve request with hint access control
-async function handleSolveRequest(c: Context) {
+async function handleSolveRequest(
+  c: Context,
+  input: SolveInput,
+  transport: SolverTransport
+) {
   try {
-    // Get query params with defaults
-    const original = c.req.query("original") ?? "";
-    const user = c.req.query("user") ?? EMPTY_BOARD;
-    const autopencilmarks =
-      c.req.query("autopencilmarks") ?? DEFAULT_AUTOPENCILMARKS;
-    const pencilmarks = c.req.query("pencilmarks") ?? EMPTY_PENCILMARKS;
-    const techniques = c.req.query("techniques");
+    const { original, user, autopencilmarks, pencilmarks, techniques } = input;
 
     let result: SolverResponse<SolveData>;
 
@@ -145,16 +167,31 @@ async function handleSolveRequest(c: Context) {
         user,
         autopencilmarks,
         pencilmarks,
-        techniques
+        techniques,
+        transport
       );
 
       // If technique-filtered solve fails, or solve contains an auto pencilmark hint, fallback to generic solve
       if (!result.success || !result.data || result.data.hints?.level === 0) {
-        result = await callSolver(original, user, autopencilmarks, pencilmarks);
+        result = await callSolver(
+          original,
+          user,
+          autopencilmarks,
+          pencilmarks,
+          undefined,
+          transport
+        );
       }
     } else {
       // No technique specified, just call generic solve
-      result = await callSolver(original, user, autopencilmarks, pencilmarks);
+      result = await callSolver(
+        original,
+        user,
+        autopencilmarks,
+        pencilmarks,
+        undefined,
+        transport
+      );
     }
 
     if (!result.success || !result.data) {
@@ -227,7 +264,7 @@ async function handleSolveRequest(c: Context) {
 
     return c.json(successResponse(responseData));
   } catch (error) {
-    console.error("Solver proxy error:", error);
+    logger.error("Solver proxy error", { error });
     return c.json(errorResponse("Solver service unavailable"), 503);
   }
 }
@@ -236,10 +273,11 @@ async function handleSolveRequest(c: Context) {
  * GET /api/v1/solver/solve
  *
  * Get hints for solving a puzzle. Access controlled by subscription tier.
- * If an authenticated user has an active game session, hint usage is tracked
+ * If an authenticated user has an open game session for the board, hint usage is tracked
  * for gamification (awards 2 x technique_level points).
  *
- * @auth Optional - anonymous users get free tier access (levels 1-3)
+ * @auth Optional - anonymous users get free tier access (levels 1-3);
+ *       daily quota per access tier ("solve")
  * @query original - 81-digit puzzle string (required)
  * @query user - 81-digit user input string, 0=empty (defaults to 81 zeros)
  * @query autopencilmarks - "true"/"false" (defaults to "false")
@@ -247,54 +285,180 @@ async function handleSolveRequest(c: Context) {
  * @query techniques - Comma-delimited technique numbers to filter (e.g., "1,2,3")
  * @returns 200 - Solve data with hints (all steps, client gates access)
  * @returns 400 - Solver error (invalid puzzle)
+ * @returns 402 - Daily limit reached
  * @returns 503 - Solver service unavailable
  */
-solverRouter.get("/solve", hintAccessMiddleware, handleSolveRequest);
+solverRouter.get(
+  "/solve",
+  createAccessControlMiddleware("solve"),
+  hintAccessMiddleware,
+  c =>
+    handleSolveRequest(
+      c,
+      {
+        original: c.req.query("original") ?? "",
+        user: c.req.query("user") ?? EMPTY_BOARD,
+        autopencilmarks:
+          c.req.query("autopencilmarks") ?? DEFAULT_AUTOPENCILMARKS,
+        pencilmarks: c.req.query("pencilmarks") ?? EMPTY_PENCILMARKS,
+        techniques: c.req.query("techniques"),
+      },
+      "query"
+    )
+);
 
 /**
- * GET /api/v1/solver/validate
+ * POST /api/v1/solver/solve
  *
- * Validate a Sudoku puzzle by proxying to the solver's /validate endpoint.
- * Checks puzzle validity, uniqueness, and determines difficulty level.
+ * Same as GET /solve, with the parameters in a JSON body. The body is
+ * validated before the daily quota is charged, and API keys need
+ * `solver:read` as for GET (this POST only reads).
  *
- * @public No authentication required
- * @query original - 81-char puzzle string (required)
- * @query brutalForce - "true"/"false" - verify uniqueness via brute force (defaults to "true")
- * @returns 200 - Validation data (level, techniques, solution)
- * @returns 400 - Invalid puzzle or validation failed
+ * @auth Optional - as GET /solve
+ * @body original - 81-digit puzzle string (required)
+ * @body user - 81-digit user input string (defaults to 81 zeros)
+ * @body autopencilmarks - boolean (defaults to false)
+ * @body pencilmarks - Comma-separated 81 elements (defaults to empty)
+ * @body techniques - Comma-delimited technique numbers to filter (e.g., "1,2,3")
+ * @returns 200 - Solve data with hints
+ * @returns 400 - Invalid body or solver error (invalid puzzle)
+ * @returns 402 - Daily limit reached
  * @returns 503 - Solver service unavailable
  */
-solverRouter.get("/validate", async c => {
+solverRouter.post(
+  "/solve",
+  zValidator("json", solverSolveBodySchema),
+  createAccessControlMiddleware("solve", "solver:read"),
+  hintAccessMiddleware,
+  c => {
+    const body = c.req.valid("json");
+    return handleSolveRequest(
+      c,
+      {
+        original: body.original,
+        user: body.user ?? EMPTY_BOARD,
+        autopencilmarks: String(body.autopencilmarks ?? false),
+        pencilmarks: body.pencilmarks ?? EMPTY_PENCILMARKS,
+        techniques: body.techniques,
+      },
+      "body"
+    );
+  }
+);
+
+// Helper to handle validate requests; the result is cached
+async function handleValidateRequest(
+  c: Context,
+  getResult: () => Promise<SolverResponse<ValidateData>>
+) {
   try {
-    const original = c.req.query("original") ?? "";
+    const result = await getResult();
 
-    if (!original || original.length !== 81) {
-      return c.json(
-        errorResponse("Invalid puzzle: original must be 81 characters"),
-        400
-      );
+    if (!result.success || !result.data) {
+      const errorMsg = result.error
+        ? `${result.error.code}: ${result.error.message}`
+        : "Validation failed";
+      return c.json(errorResponse(errorMsg), 400);
     }
 
-    const queryString = new URL(c.req.url).search.slice(1);
-    const result = await proxySolverRequest<ValidateData>(
-      "validate",
-      queryString
-    );
+    return c.json(successResponse(result.data));
+  } catch (error) {
+    logger.error("Validate error", { error });
+    return c.json(errorResponse("Solver service unavailable"), 503);
+  }
+}
+
+// Helper to handle generate requests
+async function handleGenerateRequest(
+  c: Context,
+  getResult: () => Promise<SolverResponse<GenerateData>>
+) {
+  try {
+    const result = await getResult();
 
     if (!result.success || !result.data) {
       const errorMsg = result.error
         ? `${result.error.code}: ${result.error.message}`
-        : "Validation failed";
-      return c.json(errorResponse(errorMsg), 400);
+        : "Generation failed";
+      return c.json(errorResponse(errorMsg), 500);
     }
 
     return c.json(successResponse(result.data));
   } catch (error) {
-    console.error("Validate error:", error);
+    logger.error("Solver proxy error", { error });
     return c.json(errorResponse("Solver service unavailable"), 503);
   }
+}
+
+/**
+ * GET /api/v1/solver/validate
+ *
+ * Validate a Sudoku puzzle by proxying to the solver's /validate endpoint.
+ * Checks puzzle validity, uniqueness, and determines difficulty level.
+ *
+ * @public No authentication required
+ * @query original - 81-char puzzle string (required)
+ * @query brutalForce - "true"/"false" - verify uniqueness via brute force (defaults to "true")
+ * @returns 200 - Validation data (level, techniques, solution)
+ * @returns 400 - Invalid parameters, invalid puzzle or validation failed
+ * @returns 429 - Rate limit exceeded
+ * @returns 503 - Solver service unavailable
+ */
+solverRouter.get("/validate", createRateLimitMiddleware("solver"), c => {
+  const original = c.req.query("original") ?? "";
+
+  if (!original || original.length !== 81) {
+    return c.json(
+      errorResponse("Invalid puzzle: original must be 81 characters"),
+      400
+    );
+  }
+
+  const brutalForce = c.req.query("brutalForce");
+  if (brutalForce !== undefined && !/^(true|false)$/i.test(brutalForce)) {
+    return c.json(
+      errorResponse('Invalid brutalForce: must be "true" or "false"'),
+      400
+    );
+  }
+
+  // Only the known parameters reach the solver and the cache key, so extra
+  // query parameters cannot create new cache entries
+  const queryString = solverBodyToQueryString({
+    original,
+    brutalForce: brutalForce?.toLowerCase(),
+  });
+  return handleValidateRequest(c, () =>
+    cachedSolverRequest<ValidateData>("validate", queryString)
+  );
 });
 
+/**
+ * POST /api/v1/solver/validate
+ *
+ * Same as GET /validate, with the parameters in a JSON body. Shares cached
+ * results with GET requests for the same parameters.
+ *
+ * @public No authentication required
+ * @body original - 81-char puzzle string (required)
+ * @body brutalForce - boolean - verify uniqueness via brute force (defaults to true)
+ * @returns 200 - Validation data (level, techniques, solution)
+ * @returns 400 - Invalid body, invalid puzzle or validation failed
+ * @returns 429 - Rate limit exceeded
+ * @returns 503 - Solver service unavailable
+ */
+solverRouter.post(
+  "/validate",
+  zValidator("json", solverValidateBodySchema),
+  createRateLimitMiddleware("solver"),
+  c => {
+    const body = c.req.valid("json");
+    return handleValidateRequest(c, () =>
+      cachedSolverPost<ValidateData>("validate", body)
+    );
+  }
+);
+
 /**
  * GET /api/v1/solver/generate
  *
@@ -303,29 +467,79 @@ solverRouter.get("/validate", async c => {
  * @public No authentication required
  * @query symmetrical - "true"/"false" - generate symmetrical puzzle
  * @returns 200 - Generated puzzle data (board, solution, level, techniques)
+ * @returns 429 - Rate limit exceeded
  * @returns 500 - Generation failed
  * @returns 503 - Solver service unavailable
  */
-solverRouter.get("/generate", async c => {
-  try {
-    const queryString = new URL(c.req.url).search.slice(1);
-    const result = await proxySolverRequest<GenerateData>(
-      "generate",
-      queryString
+solverRouter.get("/generate", createRateLimitMiddleware("solver"), c => {
+  const queryString = new URL(c.req.url).search.slice(1);
+  return handleGenerateRequest(c, () =>
+    proxySolverRequest<GenerateData>("generate", queryString)
+  );
+});
+
+/**
+ * POST /api/v1/solver/generate
+ *
+ * Same as GET /generate, with the parameters in a JSON body.
+ *
+ * @public No authentication required
+ * @body symmetrical - boolean - generate symmetrical puzzle
+ * @returns 200 - Generated puzzle data (board, solution, level, techniques)
+ * @returns 400 - Invalid body
+ * @returns 429 - Rate limit exceeded
+ * @returns 500 - Generation failed
+ * @returns 503 - Solver service unavailable
+ */
+solverRouter.post(
+  "/generate",
+  zValidator("json", solverGenerateBodySchema),
+  createRateLimitMiddleware("solver"),
+  c => {
+    const body = c.req.valid("json");
+    return handleGenerateRequest(c, () =>
+      proxySolverPost<GenerateData>("generate", body)
     );
+  }
+);
 
-    if (!result.success || !result.data) {
-      const errorMsg = result.error
-        ? `${result.error.code}: ${result.error.message}`
-        : "Generation failed";
-      return c.json(errorResponse(errorMsg), 500);
+/**
+ * DELETE /api/v1/solver/cache
+ *
+ * Invalidate cached solve/validate responses, e.g., after a solver release
+ * changes its output. Clears the shared Postgres layer and this instance's
+ * memory layer (other instances' memory entries expire with their TTL).
+ *
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
+ * @query endpoint - Only "solve" or "validate" entries (optional)
+ * @query original - Only entries for this puzzle (optional)
+ * @returns 200 - { memory, postgres } numbers of entries deleted
+ * @returns 401 - Missing or invalid auth token
+ * @returns 403 - Not an admin user
+ * @returns 500 - Failed to invalidate
+ */
+solverRouter.delete(
+  "/cache",
+  adminMiddleware,
+  zValidator("query", solverCacheInvalidateSchema),
+  async c => {
+    const filter = c.req.valid("query");
+
+    try {
+      const deleted = await withAudit(async tx => {
+        const deleted = await invalidateSolverCache(filter, tx);
+        await recordAudit(tx, c, {
+          entityType: "solver_cache",
+          before: { ...filter, deleted },
+        });
+        return deleted;
+      });
+      return c.json(successResponse(deleted));
+    } catch (error) {
+      logger.error("Error invalidating solver cache", { error });
+      return c.json(errorResponse("Failed to invalidate solver cache"), 500);
     }
-
-    return c.json(successResponse(result.data));
-  } catch (error) {
-    console.error("Solver proxy error:", error);
-    return c.json(errorResponse("Solver service unavailable"), 503);
   }
-});
+);
 
 export default solverRouter;
@@ -18,6 +18,7 @@ import {
   strategyStubParamSchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
 import {
   successResponse,
   errorResponse,
@@ -104,7 +105,7 @@ strategiesRouter.get(
  *
  * Create a new strategy. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body strategyCreateSchema - { difficulty, stub }
  * @returns 201 - Created strategy object
  */
@@ -115,14 +116,22 @@ strategiesRouter.post(
   async c => {
     const body = c.req.valid("json");
 
-    const rows = await db
-      .insert(strategies)
-      .values({
-        difficulty: body.difficulty,
-        stub: body.stub,
-      })
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .insert(strategies)
+        .values({
+          difficulty: body.difficulty,
+          stub: body.stub,
+        })
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "strategy",
+        entityId: rows[0]!.strategy,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Strategy), 201);
   }
 );
@@ -132,7 +141,7 @@ strategiesRouter.post(
  *
  * Update an existing strategy. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param strategy - Integer ID
  * @body strategyUpdateSchema - { difficulty?, stub? }
  * @returns 200 - Updated strategy object
@@ -156,16 +165,25 @@ strategiesRouter.put(
     }
 
     const current = existing[0]!;
-    const rows = await db
-      .update(strategies)
-      .set({
-        difficulty: body.difficulty ?? current.difficulty,
-        stub: body.stub ?? current.stub,
-        updated_at: new Date(),
-      })
-      .where(eq(strategies.strategy, strategy))
-      .returning();
-
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .update(strategies)
+        .set({
+          difficulty: body.difficulty ?? current.difficulty,
+          stub: body.stub ?? current.stub,
+          updated_at: new Date(),
+        })
+        .where(eq(strategies.strategy, strategy))
+        .returning();
+
+      await recordAudit(tx, c, {
+        entityType: "strategy",
+        entityId: strategy,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Strategy));
   }
 );
@@ -176,7 +194,7 @@ strategiesRouter.put(
  * Delete a strategy. Requires admin authentication.
  * Sets strategy_id to NULL on associated techniques (ON DELETE SET NULL).
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param strategy - Integer ID
  * @returns 200 - Deleted strategy object
  * @returns 404 - Strategy not found
@@ -188,10 +206,21 @@ strategiesRouter.delete(
   async c => {
     const { strategy } = c.req.valid("param");
 
-    const rows = await db
-      .delete(strategies)
-      .where(eq(strategies.strategy, strategy))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .delete(strategies)
+        .where(eq(strategies.strategy, strategy))
+        .returning();
+
+      if (rows.length > 0) {
+        await recordAudit(tx, c, {
+          entityType: "strategy",
+          entityId: strategy,
+          before: rows[0],
+        });
+      }
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Strategy not found"), 404);
@@ -18,6 +18,7 @@ import {
   techniquePathParamSchema,
 } from "../schemas";
 import { adminMiddleware } from "../middleware/auth";
+import { recordAudit, withAudit } from "../services/audit";
 import {
   successResponse,
   errorResponse,
@@ -131,7 +132,7 @@ techniquesRouter.get(
  *
  * Create a new solving technique. Requires admin authentication.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @body techniqueCreateSchema - { technique, level, title, text? }
  * @returns 201 - Created technique object
  * @returns 401 - Missing or invalid auth token
@@ -144,18 +145,26 @@ techniquesRouter.post(
   async c => {
     const body = c.req.valid("json");
 
-    const rows = await db
-      .insert(techniques)
-      .values({
-        technique: body.technique,
-        level: body.level,
-        title: body.title,
-        text: body.text,
-        percentage: body.percentage ?? null,
-        strategy_id: body.strategy_id ?? null,
-      })
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .insert(techniques)
+        .values({
+          technique: body.technique,
+          level: body.level,
+          title: body.title,
+          text: body.text,
+          percentage: body.percentage ?? null,
+          strategy_id: body.strategy_id ?? null,
+        })
+        .returning();
 
+      await recordAudit(tx, c, {
+        entityType: "technique",
+        entityId: rows[0]!.technique,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Technique), 201);
   }
 );
@@ -166,7 +175,7 @@ techniquesRouter.post(
  * Update an existing technique. Requires admin authentication.
  * Only provided fields are updated; omitted fields retain their current values.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param technique - Integer 1-60
  * @body techniqueUpdateSchema - { level?, title?, text? }
  * @returns 200 - Updated technique object
@@ -192,27 +201,38 @@ techniquesRouter.put(
     }
 
     const current = existing[0]!;
-    const rows = await db
-      .update(techniques)
-      .set({
-        level: body.level ?? current.level,
-        title: body.title ?? current.title,
-        text: body.text ?? current.text,
-        percentage:
-          body.percentage !== undefined ? body.percentage : current.percentage,
-        dependencies:
-          body.dependencies !== undefined
-            ? body.dependencies
-            : current.dependencies,
-        strategy_id:
-          body.strategy_id !== undefined
-            ? body.strategy_id
-            : current.strategy_id,
-        updated_at: new Date(),
-      })
-      .where(eq(techniques.technique, technique))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .update(techniques)
+        .set({
+          level: body.level ?? current.level,
+          title: body.title ?? current.title,
+          text: body.text ?? current.text,
+          percentage:
+            body.percentage !== undefined
+              ? body.percentage
+              : current.percentage,
+          dependencies:
+            body.dependencies !== undefined
+              ? body.dependencies
+              : current.dependencies,
+          strategy_id:
+            body.strategy_id !== undefined
+              ? body.strategy_id
+              : current.strategy_id,
+          updated_at: new Date(),
+        })
+        .where(eq(techniques.technique, technique))
+        .returning();
 
+      await recordAudit(tx, c, {
+        entityType: "technique",
+        entityId: technique,
+        before: current,
+        after: rows[0],
+      });
+      return rows;
+    });
     return c.json(successResponse(rows[0] as Technique));
   }
 );
@@ -223,7 +243,7 @@ techniquesRouter.put(
  * Delete a technique. Requires admin authentication.
  * Cascades to learning entries referencing this technique.
  *
- * @auth Admin (Firebase token + SITEADMIN_EMAILS check)
+ * @auth Admin (Firebase token with the route permission, or scoped API key)
  * @param technique - Integer 1-60
  * @returns 200 - Deleted technique object
  * @returns 401 - Missing or invalid auth token
@@ -237,10 +257,21 @@ techniquesRouter.delete(
   async c => {
     const { technique } = c.req.valid("param");
 
-    const rows = await db
-      .delete(techniques)
-      .where(eq(techniques.technique, technique))
-      .returning();
+    const rows = await withAudit(async tx => {
+      const rows = await tx
+        .delete(techniques)
+        .where(eq(techniques.technique, technique))
+        .returning();
+
+      if (rows.length > 0) {
+        await recordAudit(tx, c, {
+          entityType: "technique",
+          entityId: technique,
+          before: rows[0],
+        });
+      }
+      return rows;
+    });
 
     if (rows.length === 0) {
       return c.json(errorResponse("Technique not found"), 404);
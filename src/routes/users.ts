@@ -9,6 +9,8 @@ import { firebaseAuthMiddleware } from "../middleware/firebaseAuth";
 import { userIdParamSchema } from "../schemas";
 import { NONE_ENTITLEMENT, UserStatus } from "@sudobility/types";
 import { getSubscriptionHelper, getTestMode } from "../middleware/subscription";
+import { getSignedInTiers } from "../middleware/accessControl";
+import { getQuotaUsage } from "../services/access";
 import {
   getUserInfo,
   deleteUserAccount,
@@ -20,6 +22,7 @@ import {
   errorResponse,
   type SubscriptionResult,
 } from "@sudobility/sudojo_types";
+import { logger } from "../lib/logger";
 
 const usersRouter = new Hono();
 
@@ -127,12 +130,46 @@ usersRouter.get(
       } as SubscriptionResult;
       return c.json(successResponse(subscriptionResult));
     } catch (error) {
-      console.error("Error fetching subscription:", error);
+      logger.error("Error fetching subscription", { error });
       return c.json(errorResponse("Failed to fetch subscription status"), 500);
     }
   }
 );
 
+/**
+ * GET /users/:userId/quota
+ *
+ * Get today's usage and remaining daily accesses for each quota-gated
+ * endpoint (boards, dailies, challenges, solve). `limit` and `remaining`
+ * are null when the user's tier is unlimited.
+ * Requires the Firebase token to match the requested userId.
+ */
+usersRouter.get(
+  "/:userId/quota",
+  firebaseAuthMiddleware,
+  zValidator("param", userIdParamSchema),
+  async c => {
+    const { userId } = c.req.valid("param");
+
+    // Ensure the authenticated user can only access their own quota
+    if (c.get("userId") !== userId) {
+      return c.json(errorResponse("You can only access your own quota"), 403);
+    }
+
+    try {
+      // Admins bypass quotas entirely
+      const tiers = c.get("siteAdmin")
+        ? null
+        : await getSignedInTiers(c, userId);
+      const usage = await getQuotaUsage(userId, tiers);
+      return c.json(successResponse(usage));
+    } catch (error) {
+      logger.error("Error fetching quota usage", { error });
+      return c.json(errorResponse("Failed to fetch quota usage"), 500);
+    }
+  }
+);
+
 /**
  * DELETE /users/:userId
  *
@@ -187,7 +224,7 @@ usersRouter.delete(
           );
         }
       } catch (error) {
-        console.error("Error checking subscription for deletion:", error);
+        logger.error("Error checking subscription for deletion", { error });
         // Continue with deletion if subscription check fails
       }
     }
@@ -232,20 +269,20 @@ usersRouter.delete(
       });
 
       if (result.googleTokenRevoked === false) {
-        console.error(
-          `[DeleteAccount] Google token revocation failed for user ${userId}`
-        );
+        logger.error("Google token revocation failed for deleted account", {
+          deletedUserId: userId,
+        });
       }
       if (result.appleTokenRevoked === false) {
-        console.error(
-          `[DeleteAccount] Apple token revocation failed for user ${userId}`
-        );
+        logger.error("Apple token revocation failed for deleted account", {
+          deletedUserId: userId,
+        });
       }
     } catch (error) {
-      console.error(
-        `[DeleteAccount] Error deleting Firebase user ${userId}:`,
-        error
-      );
+      logger.error("Error deleting Firebase user", {
+        deletedUserId: userId,
+        error,
+      });
       // Account is already marked as deleted in DB, so we don't revert
       // The Firebase user may need manual cleanup
     }
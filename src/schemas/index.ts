@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../lib/streak";
+import { API_KEY_SCOPES, type ApiKeyScope } from "../lib/api-keys";
+import { PERMISSIONS, type Permission } from "../lib/permissions";
 
 // Level schemas
 export const levelCreateSchema = z.object({
@@ -232,9 +235,60 @@ export const gameStartSchema = z.object({
 });
 
 export const gameFinishSchema = z.object({
+  sessionId: z.string().uuid().optional(), // defaults to most recently started session
   elapsedTime: z.number().int().min(0), // seconds from frontend timer
+  grid: z
+    .string()
+    .regex(/^[1-9]{81}$/)
+    .optional(), // completed grid; falls back to the last synced progress
+  timezone: z
+    .string()
+    .max(64)
+    .refine(isValidTimeZone, "Invalid IANA timezone")
+    .optional(), // client timezone for daily streaks, e.g. "America/New_York" (see canChangeTimezone)
+});
+
+// Progress sync: user entries (0 = empty) and comma-delimited pencilmarks
+export const gameProgressSchema = z.object({
+  sessionId: z.string().uuid().optional(),
+  user: z.string().regex(/^[0-9]{81}$/),
+  pencilmarks: z.string().max(1000).nullish(),
+  elapsedTime: z.number().int().min(0).optional(), // active seconds so far
+});
+
+// Pause/resume a session (defaults to most recently started session)
+export const gamePauseSchema = z.object({
+  sessionId: z.string().uuid().optional(),
 });
 
+// Selects one of the user's open sessions (GET /play/current)
+export const gameSessionQuerySchema = z.object({
+  sessionId: z.string().uuid().optional(),
+  puzzleType: z.enum(["daily", "level"]).optional(),
+  puzzleId: z.string().max(100).optional(),
+});
+
+// Declarative badge earning rule (see lib/badge-rules.ts)
+const positiveInt = z.number().int().min(1);
+const puzzleLevel = z.number().int().min(1).max(12);
+export const badgeRuleSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("points_threshold"), points: positiveInt }),
+  z.object({ type: z.literal("games_completed"), count: positiveInt }),
+  z.object({ type: z.literal("level_perfect"), level: puzzleLevel }),
+  z.object({ type: z.literal("daily_streak"), days: positiveInt }),
+  z.object({ type: z.literal("hint_free_streak"), count: positiveInt }),
+  z.object({
+    type: z.literal("technique_mastery"),
+    technique: z.number().int().min(0).max(62),
+    count: positiveInt,
+  }),
+  z.object({
+    type: z.literal("solve_time"),
+    level: puzzleLevel,
+    seconds: positiveInt,
+  }),
+]);
+
 // Badge definition schemas (admin)
 export const badgeDefinitionCreateSchema = z.object({
   badgeType: z.string().min(1).max(50),
@@ -243,6 +297,7 @@ export const badgeDefinitionCreateSchema = z.object({
   description: z.string().nullish(),
   iconUrl: z.string().url().max(500).nullish(),
   requirementValue: z.number().int().nullish(),
+  rule: badgeRuleSchema.nullish(), // null: derived from badgeType + requirementValue
 });
 
 export const badgeDefinitionUpdateSchema = z.object({
@@ -251,8 +306,178 @@ export const badgeDefinitionUpdateSchema = z.object({
   description: z.string().nullish(),
   iconUrl: z.string().url().max(500).nullish(),
   requirementValue: z.number().int().nullish(),
+  rule: badgeRuleSchema.nullish(), // null: derived from badgeType + requirementValue
+});
+
+// Badge backfill (admin) - dry run unless explicitly disabled
+export const badgeBackfillSchema = z.object({
+  dryRun: z.boolean().optional().default(true),
+  badgeKeys: z.array(z.string().min(1).max(100)).min(1).optional(),
 });
 
 export const badgeKeyParamSchema = z.object({
   badgeKey: z.string().min(1).max(100),
 });
+
+// Access quotas (admin) - endpoints match services/access ACCESS_ENDPOINTS
+export const accessQuotaParamSchema = z.object({
+  tier: z
+    .string()
+    .min(1)
+    .max(100)
+    .regex(/^[a-z0-9_-]+$/, "Tier must be lowercase letters, digits, _ or -"), // 'anonymous', 'signed_in' or an entitlement
+  endpoint: z.enum(["boards", "dailies", "challenges", "solve"]),
+});
+
+export const accessQuotaUpdateSchema = z.object({
+  dailyLimit: z.number().int().min(0).max(100_000).nullable(), // null = unlimited
+});
+
+// Point ledger (admin)
+export const ledgerQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+// Manual credit (positive) or debit (negative); a reason is required
+export const pointAdjustmentSchema = z.object({
+  points: z
+    .number()
+    .int()
+    .min(-1_000_000)
+    .max(1_000_000)
+    .refine(points => points !== 0, "Points must not be zero"),
+  reason: z.string().trim().min(3).max(500),
+});
+
+export const ledgerReconcileSchema = z.object({
+  apply: z.boolean().optional().default(false),
+});
+
+// API keys (admin) - scopes are `<route module>:<read|write>`
+const apiKeyScopesSchema = z
+  .array(z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]]))
+  .min(1)
+  .transform(scopes => [...new Set(scopes)]);
+
+const apiKeyExpirySchema = z.iso
+  .datetime({ offset: true })
+  .transform(value => new Date(value));
+
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  scopes: apiKeyScopesSchema,
+  ownerId: z.string().min(1).max(128).optional(), // defaults to the creating admin
+  expiresAt: apiKeyExpirySchema.nullish(), // null/omitted = never expires
+});
+
+export const apiKeyUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  scopes: apiKeyScopesSchema.optional(),
+  ownerId: z.string().min(1).max(128).optional(),
+  expiresAt: apiKeyExpirySchema.nullable().optional(),
+});
+
+// Admin roles (super admin) - permissions are `<route module>:<read|write>`
+const permissionsSchema = z
+  .array(z.enum(PERMISSIONS as [Permission, ...Permission[]]))
+  .transform(permissions => [...new Set(permissions)]);
+
+const roleNameSchema = z
+  .string()
+  .min(1)
+  .max(50)
+  .regex(/^[a-z0-9_]+$/, "Role must be lowercase letters, digits or _");
+
+export const roleParamSchema = z.object({
+  name: roleNameSchema,
+});
+
+export const roleCreateSchema = z.object({
+  name: roleNameSchema,
+  description: z.string().trim().max(500).nullish(),
+  permissions: permissionsSchema,
+});
+
+export const roleUpdateSchema = z.object({
+  description: z.string().trim().max(500).nullish(),
+  permissions: permissionsSchema.optional(),
+});
+
+export const userRoleParamSchema = z.object({
+  userId: z.string().min(1).max(128),
+  role: roleNameSchema,
+});
+
+// Admin audit log query (super admin)
+export const auditQuerySchema = z
+  .object({
+    actorId: z.string().min(1).max(128).optional(),
+    entityType: z.string().min(1).max(50).optional(),
+    entityId: z.string().min(1).max(128).optional(),
+    method: z.enum(["POST", "PUT", "PATCH", "DELETE"]).optional(),
+    from: z.iso
+      .datetime({ offset: true })
+      .transform(value => new Date(value))
+      .optional(),
+    to: z.iso
+      .datetime({ offset: true })
+      .transform(value => new Date(value))
+      .optional(),
+    limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+    offset: z.coerce.number().int().min(0).optional().default(0),
+  })
+  .refine(query => !query.from || !query.to || query.from < query.to, {
+    message: "from must be before to",
+    path: ["to"],
+  });
+
+// Daily leaderboard query (pagination applies to each section)
+export const dailyLeaderboardQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+// Leaderboard query (level is required for the per-level scope)
+export const leaderboardQuerySchema = z
+  .object({
+    scope: z
+      .enum(["all_time", "weekly", "monthly", "level"])
+      .optional()
+      .default("all_time"),
+    level: z.coerce.number().int().min(1).max(12).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+    offset: z.coerce.number().int().min(0).optional().default(0),
+  })
+  .refine(query => query.scope !== "level" || query.level !== undefined, {
+    message: "level is required for the level scope",
+    path: ["level"],
+  });
+
+// Solver cache invalidation (admin); no filter clears everything
+export const solverCacheInvalidateSchema = z.object({
+  endpoint: z.enum(["solve", "validate"]).optional(),
+  original: z.string().min(1).max(255).optional(),
+});
+
+// Solver request bodies (POST variants of the solver GET routes, with the
+// same parameters and defaults as their query strings)
+export const solverSolveBodySchema = z.object({
+  original: z.string().length(81),
+  user: z.string().length(81).optional(),
+  autopencilmarks: z.boolean().optional(),
+  pencilmarks: z.string().max(1000).optional(),
+  techniques: z
+    .string()
+    .regex(/^\d+(,\d+)*$/, "techniques must be comma-separated numbers")
+    .optional(),
+});
+
+export const solverValidateBodySchema = z.object({
+  original: z.string().length(81),
+  brutalForce: z.boolean().optional(),
+});
+
+export const solverGenerateBodySchema = z.object({
+  symmetrical: z.boolean().optional(),
+});
@@ -1,35 +1,229 @@
 /**
  * @fileoverview Access control service for content-gating
  *
- * Manages daily access limits for non-subscriber users.
- * Each endpoint has a configurable daily limit. When the limit is reached,
- * access is denied and the user is prompted to subscribe.
+ * Manages daily access quotas per access tier and endpoint.
+ * Callers belong to one or more tiers: "anonymous", "signed_in", or one tier
+ * per RevenueCat entitlement they hold. Quotas are stored in the
+ * access_quotas table and editable by admins; tiers without a stored quota
+ * fall back to DEFAULT_QUOTAS. When the limit is reached, access is denied
+ * and the caller is prompted to sign in or subscribe.
+ *
+ * Usage is counted in access_counters, one row per (caller, endpoint, day).
+ * The access_logs table (one row per access) is no longer written; the
+ * retention job folds any remaining rows into counters.
  *
  * This is separate from rate limiting (which prevents API abuse).
- * Subscribers bypass this system entirely via the access control middleware.
  */
 
-import { eq, and, count } from "drizzle-orm";
-import { db, accessLogs } from "../db";
+import { eq, and, asc, lt, sql } from "drizzle-orm";
+import { db, accessCounters, accessLogs, accessQuotas } from "../db";
+import type { AuditTx } from "./audit";
+
+/** Tier of callers without a Firebase token */
+export const ANONYMOUS_TIER = "anonymous";
+
+/** Tier of signed-in callers, whatever their entitlements */
+export const SIGNED_IN_TIER = "signed_in";
+
+/** Endpoints gated by daily quotas */
+export const ACCESS_ENDPOINTS = [
+  "boards",
+  "dailies",
+  "challenges",
+  "solve",
+] as const;
+
+export type AccessEndpoint = (typeof ACCESS_ENDPOINTS)[number];
 
-/** Daily access limits per endpoint for non-subscriber users */
-const DAILY_LIMITS: Record<string, number> = {
-  boards: 2,
-  dailies: 2,
-  challenges: 2,
-  solve: 10,
+/**
+ * Built-in daily limits per tier, used when no quota is stored.
+ * Entitlement tiers are unlimited unless a quota is stored for them.
+ */
+const DEFAULT_QUOTAS: Record<string, Record<AccessEndpoint, number>> = {
+  [ANONYMOUS_TIER]: { boards: 1, dailies: 1, challenges: 1, solve: 5 },
+  [SIGNED_IN_TIER]: { boards: 2, dailies: 2, challenges: 2, solve: 10 },
 };
 
-/** Default daily limit for endpoints not explicitly configured */
-const DEFAULT_DAILY_LIMIT = 2;
+/** How long stored quotas are cached in memory */
+const QUOTA_CACHE_TTL_MS = 60 * 1000;
+
+/** A tier's daily limit for an endpoint; null means unlimited */
+export interface AccessQuota {
+  tier: string;
+  endpoint: AccessEndpoint;
+  dailyLimit: number | null;
+  /** Whether the quota comes from the database or the built-in defaults */
+  source: "stored" | "default";
+}
+
+/** Result of checking (and recording) an access */
+export interface AccessCheckResult {
+  granted: boolean;
+  /** Daily limit that applied, null if unlimited */
+  limit: number | null;
+  /** Accesses left today, null if unlimited */
+  remaining: number | null;
+}
+
+let quotaCache: {
+  quotas: Map<string, number | null>;
+  expiresAt: number;
+} | null = null;
+
+function quotaKey(tier: string, endpoint: string): string {
+  return `${tier}:${endpoint}`;
+}
+
+/**
+ * Drop the cached stored quotas. Call once a quota change has committed:
+ * clearing inside the transaction would let a concurrent read cache the
+ * old quotas again until the cache expires.
+ */
+export function clearQuotaCache(): void {
+  quotaCache = null;
+}
+
+/**
+ * Load stored quotas, keyed by tier and endpoint (cached briefly).
+ */
+async function getStoredQuotas(): Promise<Map<string, number | null>> {
+  if (quotaCache && quotaCache.expiresAt > Date.now()) {
+    return quotaCache.quotas;
+  }
+  const rows = await db.select().from(accessQuotas);
+  const quotas = new Map(
+    rows.map(row => [quotaKey(row.tier, row.endpoint), row.dailyLimit])
+  );
+  quotaCache = { quotas, expiresAt: Date.now() + QUOTA_CACHE_TTL_MS };
+  return quotas;
+}
+
+/**
+ * Get a single tier's daily limit for an endpoint.
+ * @returns The limit, or null if unlimited
+ */
+function getTierLimit(
+  stored: Map<string, number | null>,
+  tier: string,
+  endpoint: AccessEndpoint
+): number | null {
+  const key = quotaKey(tier, endpoint);
+  if (stored.has(key)) {
+    return stored.get(key)!;
+  }
+  return DEFAULT_QUOTAS[tier]?.[endpoint] ?? null;
+}
 
 /**
- * Get the daily access limit for a given endpoint.
+ * Get the daily access limit for a caller on an endpoint.
+ * A caller in several tiers gets the most generous of their limits.
+ * @param tiers - The caller's access tiers
  * @param endpoint - The endpoint identifier (e.g., "boards", "solve")
- * @returns The maximum number of daily accesses allowed
+ * @returns The maximum number of daily accesses allowed, or null if unlimited
+ */
+export async function getDailyLimit(
+  tiers: string[],
+  endpoint: AccessEndpoint
+): Promise<number | null> {
+  const stored = await getStoredQuotas();
+  let limit: number | null = 0;
+  for (const tier of tiers) {
+    const tierLimit = getTierLimit(stored, tier, endpoint);
+    if (tierLimit === null) {
+      return null;
+    }
+    limit = Math.max(limit, tierLimit);
+  }
+  return limit;
+}
+
+/**
+ * List the effective quota of every known tier and endpoint: built-in
+ * tiers plus any tier with a stored quota.
+ */
+export async function listQuotas(): Promise<AccessQuota[]> {
+  const rows = await db
+    .select()
+    .from(accessQuotas)
+    .orderBy(asc(accessQuotas.tier), asc(accessQuotas.endpoint));
+  const stored = new Map(
+    rows.map(row => [quotaKey(row.tier, row.endpoint), row.dailyLimit])
+  );
+  const tiers = [
+    ...new Set([...Object.keys(DEFAULT_QUOTAS), ...rows.map(row => row.tier)]),
+  ];
+
+  return tiers.flatMap(tier =>
+    ACCESS_ENDPOINTS.map(endpoint => ({
+      tier,
+      endpoint,
+      dailyLimit: getTierLimit(stored, tier, endpoint),
+      source: stored.has(quotaKey(tier, endpoint))
+        ? ("stored" as const)
+        : ("default" as const),
+    }))
+  );
+}
+
+/**
+ * Get a tier's stored quota for an endpoint, bypassing the cache.
+ * @returns The stored quota, or null if the tier uses its default
  */
-function getDailyLimit(endpoint: string): number {
-  return DAILY_LIMITS[endpoint] ?? DEFAULT_DAILY_LIMIT;
+export async function getStoredQuota(
+  tier: string,
+  endpoint: AccessEndpoint,
+  executor: AuditTx | typeof db = db
+): Promise<AccessQuota | null> {
+  const [stored] = await executor
+    .select({ dailyLimit: accessQuotas.dailyLimit })
+    .from(accessQuotas)
+    .where(
+      and(eq(accessQuotas.tier, tier), eq(accessQuotas.endpoint, endpoint))
+    );
+  return stored
+    ? { tier, endpoint, dailyLimit: stored.dailyLimit, source: "stored" }
+    : null;
+}
+
+/**
+ * Store a tier's daily limit for an endpoint (null for unlimited).
+ * Call clearQuotaCache once the change has committed.
+ */
+export async function setQuota(
+  tier: string,
+  endpoint: AccessEndpoint,
+  dailyLimit: number | null,
+  executor: AuditTx | typeof db = db
+): Promise<AccessQuota> {
+  await executor
+    .insert(accessQuotas)
+    .values({ tier, endpoint, dailyLimit })
+    .onConflictDoUpdate({
+      target: [accessQuotas.tier, accessQuotas.endpoint],
+      set: { dailyLimit, updatedAt: new Date() },
+    });
+  return { tier, endpoint, dailyLimit, source: "stored" };
+}
+
+/**
+ * Remove a stored quota so the tier falls back to its default.
+ * Call clearQuotaCache once the change has committed.
+ * @returns The removed quota, or null if none was stored
+ */
+export async function deleteQuota(
+  tier: string,
+  endpoint: AccessEndpoint,
+  executor: AuditTx | typeof db = db
+): Promise<AccessQuota | null> {
+  const [deleted] = await executor
+    .delete(accessQuotas)
+    .where(
+      and(eq(accessQuotas.tier, tier), eq(accessQuotas.endpoint, endpoint))
+    )
+    .returning();
+  return deleted
+    ? { tier, endpoint, dailyLimit: deleted.dailyLimit, source: "stored" }
+    : null;
 }
 
 /**
@@ -40,8 +234,8 @@ function getTodayDate(): string {
 }
 
 /**
- * Count how many times a user has accessed an endpoint today.
- * @param userId - Firebase user ID
+ * Count how many times a caller has accessed an endpoint today.
+ * @param userId - Firebase user ID, or "anon:<ip>" for anonymous callers
  * @param endpoint - The endpoint identifier
  * @returns The number of accesses recorded today
  */
@@ -49,54 +243,154 @@ export async function getAccessCountToday(
   userId: string,
   endpoint: string
 ): Promise<number> {
-  const today = getTodayDate();
   const result = await db
-    .select({ count: count() })
-    .from(accessLogs)
+    .select({ count: accessCounters.count })
+    .from(accessCounters)
     .where(
       and(
-        eq(accessLogs.user_id, userId),
-        eq(accessLogs.endpoint, endpoint),
-        eq(accessLogs.access_date, today)
+        eq(accessCounters.user_id, userId),
+        eq(accessCounters.endpoint, endpoint),
+        eq(accessCounters.access_date, getTodayDate())
       )
     );
   return result[0]?.count ?? 0;
 }
 
 /**
- * Record an access log entry for a user on an endpoint.
- * @param userId - Firebase user ID
+ * Check if a caller can access an endpoint and count the access if granted.
+ * The counter is incremented with a single conditional upsert, so
+ * concurrent requests cannot exceed the limit. Unlimited callers are
+ * granted without counting.
+ *
+ * @param userId - Firebase user ID, or "anon:<ip>" for anonymous callers
  * @param endpoint - The endpoint identifier
+ * @param tiers - The caller's access tiers
  */
-export async function recordAccess(
+export async function checkAndRecordAccess(
   userId: string,
-  endpoint: string
-): Promise<void> {
-  const today = getTodayDate();
-  await db.insert(accessLogs).values({
-    user_id: userId,
-    endpoint,
-    access_date: today,
-  });
+  endpoint: AccessEndpoint,
+  tiers: string[]
+): Promise<AccessCheckResult> {
+  const limit = await getDailyLimit(tiers, endpoint);
+  if (limit === null) {
+    return { granted: true, limit: null, remaining: null };
+  }
+  if (limit === 0) {
+    return { granted: false, limit, remaining: 0 };
+  }
+
+  // Increment only while below the limit; no row returned means denied
+  const counted = await db
+    .insert(accessCounters)
+    .values({
+      user_id: userId,
+      endpoint,
+      access_date: getTodayDate(),
+      count: 1,
+    })
+    .onConflictDoUpdate({
+      target: [
+        accessCounters.user_id,
+        accessCounters.endpoint,
+        accessCounters.access_date,
+      ],
+      set: { count: sql`${accessCounters.count} + 1` },
+      setWhere: sql`${accessCounters.count} < ${limit}`,
+    })
+    .returning({ count: accessCounters.count });
+
+  if (counted.length === 0) {
+    return { granted: false, limit, remaining: 0 };
+  }
+  return { granted: true, limit, remaining: limit - counted[0]!.count };
+}
+
+/** Today's usage of one gated endpoint */
+export interface QuotaUsage {
+  endpoint: AccessEndpoint;
+  /** Daily limit, null if unlimited */
+  limit: number | null;
+  used: number;
+  /** Accesses left today, null if unlimited */
+  remaining: number | null;
 }
 
 /**
- * Check if a user can access an endpoint and record the access if granted.
- *
+ * Report today's usage and remaining accesses of every gated endpoint.
  * @param userId - Firebase user ID
- * @param endpoint - The endpoint identifier
- * @returns Object with `granted` (whether access was allowed) and `remaining`
- *          (number of accesses left today, 0 if denied)
+ * @param tiers - The user's access tiers, or null if they bypass quotas
  */
-export async function checkAndRecordAccess(
+export async function getQuotaUsage(
   userId: string,
-  endpoint: string
-): Promise<{ granted: boolean; remaining: number }> {
-  const limit = getDailyLimit(endpoint);
-  const accessCount = await getAccessCountToday(userId, endpoint);
-  if (accessCount >= limit) {
-    return { granted: false, remaining: 0 };
-  }
-  await recordAccess(userId, endpoint);
-  return { granted: true, remaining: limit - accessCount - 1 };
+  tiers: string[] | null
+): Promise<QuotaUsage[]> {
+  const counters = await db
+    .select({ endpoint: accessCounters.endpoint, count: accessCounters.count })
+    .from(accessCounters)
+    .where(
+      and(
+        eq(accessCounters.user_id, userId),
+        eq(accessCounters.access_date, getTodayDate())
+      )
+    );
+  const used = new Map(counters.map(row => [row.endpoint, row.count]));
+
+  return Promise.all(
+    ACCESS_ENDPOINTS.map(async endpoint => {
+      const limit = tiers ? await getDailyLimit(tiers, endpoint) : null;
+      const count = used.get(endpoint) ?? 0;
+      return {
+        endpoint,
+        limit,
+        used: count,
+        remaining: limit === null ? null : Math.max(0, limit - count),
+      };
+    })
+  );
+}
+
+/** Result of an access log retention pass */
+export interface AccessRetentionResult {
+  /** Legacy access_logs rows folded into daily counters */
+  compactedLogs: number;
+  /** Daily counters older than the retention period that were deleted */
+  purgedCounters: number;
+}
+
+/**
+ * Retention job for access tracking.
+ * Folds legacy per-access access_logs rows into daily access_counters
+ * (deleting the rows), then purges counters older than `retentionDays`.
+ * Each step is a single statement, so concurrent runs do not double count.
+ */
+export async function compactAccessLogs(
+  retentionDays: number
+): Promise<AccessRetentionResult> {
+  const compacted = await db.execute<{ compacted: number }>(sql`
+    WITH moved AS (
+      DELETE FROM ${accessLogs}
+      RETURNING user_id, endpoint, access_date
+    ), folded AS (
+      INSERT INTO ${accessCounters} (user_id, endpoint, access_date, count)
+      SELECT user_id, endpoint, access_date, count(*)::int
+      FROM moved
+      GROUP BY user_id, endpoint, access_date
+      ON CONFLICT (user_id, endpoint, access_date)
+      DO UPDATE SET count = ${accessCounters}.count + excluded.count
+    )
+    SELECT count(*)::int AS compacted FROM moved
+  `);
+
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .split("T")[0]!;
+  const purged = await db
+    .delete(accessCounters)
+    .where(lt(accessCounters.access_date, cutoff))
+    .returning({ user_id: accessCounters.user_id });
+
+  return {
+    compactedLogs: compacted[0]?.compacted ?? 0,
+    purgedCounters: purged.length,
+  };
 }
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Scoped API key management
+ *
+ * API keys let scripts and tools call the API without a Firebase token.
+ * Keys are stored as SHA-256 hashes in the api_keys table; the raw key is
+ * only returned when it is created. Each key has scopes, an owning admin,
+ * an optional expiry and a last-used timestamp.
+ */
+
+import { desc, eq, lt, or, isNull, and } from "drizzle-orm";
+import { db, apiKeys } from "../db";
+import type { AuditTx } from "./audit";
+import { generateApiKey, hashApiKey, type ApiKeyScope } from "../lib/api-keys";
+
+/** Minimum time between last_used_at updates for one key */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/** An API key as shown to admins (never includes the hash) */
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  ownerId: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date | null;
+}
+
+const apiKeyInfoColumns = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  keyPrefix: apiKeys.keyPrefix,
+  scopes: apiKeys.scopes,
+  ownerId: apiKeys.ownerId,
+  expiresAt: apiKeys.expiresAt,
+  lastUsedAt: apiKeys.lastUsedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+/**
+ * List all API keys, newest first.
+ */
+export async function listApiKeys(): Promise<ApiKeyInfo[]> {
+  return db
+    .select(apiKeyInfoColumns)
+    .from(apiKeys)
+    .orderBy(desc(apiKeys.createdAt));
+}
+
+/**
+ * Get an API key by ID.
+ * @returns The key, or null if not found
+ */
+export async function getApiKey(
+  id: string,
+  executor: AuditTx | typeof db = db
+): Promise<ApiKeyInfo | null> {
+  const [apiKey] = await executor
+    .select(apiKeyInfoColumns)
+    .from(apiKeys)
+    .where(eq(apiKeys.id, id));
+  return apiKey ?? null;
+}
+
+/**
+ * Create an API key.
+ * @returns The stored key and the raw key, which cannot be retrieved later
+ */
+export async function createApiKey(
+  input: {
+    name: string;
+    scopes: ApiKeyScope[];
+    ownerId: string;
+    expiresAt: Date | null;
+  },
+  executor: AuditTx | typeof db = db
+): Promise<{ apiKey: ApiKeyInfo; key: string }> {
+  const { key, hash, prefix } = generateApiKey();
+  const [apiKey] = await executor
+    .insert(apiKeys)
+    .values({
+      name: input.name,
+      keyPrefix: prefix,
+      keyHash: hash,
+      scopes: input.scopes,
+      ownerId: input.ownerId,
+      expiresAt: input.expiresAt,
+    })
+    .returning(apiKeyInfoColumns);
+  return { apiKey: apiKey!, key };
+}
+
+/**
+ * Update an API key's name, scopes, owner or expiry.
+ * @returns The updated key, or null if not found
+ */
+export async function updateApiKey(
+  id: string,
+  changes: {
+    name?: string;
+    scopes?: ApiKeyScope[];
+    ownerId?: string;
+    expiresAt?: Date | null;
+  },
+  executor: AuditTx | typeof db = db
+): Promise<ApiKeyInfo | null> {
+  const [apiKey] = await executor
+    .update(apiKeys)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(apiKeys.id, id))
+    .returning(apiKeyInfoColumns);
+  return apiKey ?? null;
+}
+
+/**
+ * Delete (revoke) an API key.
+ * @returns The deleted key, or null if not found
+ */
+export async function deleteApiKey(
+  id: string,
+  executor: AuditTx | typeof db = db
+): Promise<ApiKeyInfo | null> {
+  const [apiKey] = await executor
+    .delete(apiKeys)
+    .where(eq(apiKeys.id, id))
+    .returning(apiKeyInfoColumns);
+  return apiKey ?? null;
+}
+
+/**
+ * Look up a raw API key and record that it was used.
+ * @returns The key, or null if it is unknown or expired
+ */
+export async function findApiKey(rawKey: string): Promise<ApiKeyInfo | null> {
+  const [apiKey] = await db
+    .select(apiKeyInfoColumns)
+    .from(apiKeys)
+    .where(eq(apiKeys.keyHash, hashApiKey(rawKey)));
+
+  const now = new Date();
+  if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    return null;
+  }
+
+  if (
+    !apiKey.lastUsedAt ||
+    now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+  ) {
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: now })
+      .where(
+        and(
+          eq(apiKeys.id, apiKey.id),
+          or(
+            isNull(apiKeys.lastUsedAt),
+            lt(
+              apiKeys.lastUsedAt,
+              new Date(now.getTime() - LAST_USED_RESOLUTION_MS)
+            )
+          )
+        )
+      );
+  }
+
+  return apiKey;
+}
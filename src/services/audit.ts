@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Admin audit log
+ *
+ * Every admin mutation records who made it (Firebase UID, plus the API key
+ * if one was used), the route, the affected entity and before/after
+ * snapshots. Entries are written in the same database transaction as the
+ * change (see withAudit), so a change is never committed without its entry:
+ * if the entry cannot be written, the change is rolled back.
+ */
+
+import type { Context } from "hono";
+import { and, desc, eq, gte, lt, type SQL } from "drizzle-orm";
+import { db, adminAuditLog } from "../db";
+
+/** Database transaction handle audited changes are made with */
+export type AuditTx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** A change made by an admin route */
+export interface AuditChange {
+  /** Kind of entity changed (e.g., "board", "level", "badge") */
+  entityType: string;
+  /** Entity identifier; omit for bulk operations */
+  entityId?: string | number | null;
+  /** Snapshot before the change (omit for creations) */
+  before?: unknown;
+  /** Snapshot after the change (omit for hard deletions) */
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  actorId: string;
+  apiKeyId: string | null;
+  method: string;
+  route: string;
+  entityType: string;
+  entityId: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: Date;
+}
+
+export interface AuditQuery {
+  actorId?: string;
+  entityType?: string;
+  entityId?: string;
+  method?: string;
+  /** Only entries at or after this time */
+  from?: Date;
+  /** Only entries before this time */
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Make an admin change and record it in a single database transaction.
+ * Everything inside is committed together or rolled back on error.
+ */
+export function withAudit<T>(fn: (tx: AuditTx) => Promise<T>): Promise<T> {
+  return db.transaction(fn);
+}
+
+/**
+ * Record an admin change made by the current request, in the transaction
+ * that makes the change. The actor is the authenticated admin (set by
+ * adminMiddleware).
+ * @throws Error if the entry cannot be written (rolling back the change)
+ */
+export async function recordAudit(
+  tx: AuditTx,
+  c: Context,
+  change: AuditChange
+): Promise<void> {
+  await tx.insert(adminAuditLog).values({
+    actorId: c.get("userId"),
+    apiKeyId: c.get("apiKey")?.id ?? null,
+    method: c.req.method,
+    route: c.req.path,
+    entityType: change.entityType,
+    entityId:
+      change.entityId === undefined || change.entityId === null
+        ? null
+        : String(change.entityId),
+    before: change.before ?? null,
+    after: change.after ?? null,
+  });
+}
+
+/**
+ * List audit entries matching the filters, newest first.
+ */
+export async function listAuditEntries(
+  query: AuditQuery
+): Promise<AuditEntry[]> {
+  const conditions: SQL[] = [];
+  if (query.actorId) {
+    conditions.push(eq(adminAuditLog.actorId, query.actorId));
+  }
+  if (query.entityType) {
+    conditions.push(eq(adminAuditLog.entityType, query.entityType));
+  }
+  if (query.entityId) {
+    conditions.push(eq(adminAuditLog.entityId, query.entityId));
+  }
+  if (query.method) {
+    conditions.push(eq(adminAuditLog.method, query.method));
+  }
+  if (query.from) {
+    conditions.push(gte(adminAuditLog.createdAt, query.from));
+  }
+  if (query.to) {
+    conditions.push(lt(adminAuditLog.createdAt, query.to));
+  }
+
+  return db
+    .select()
+    .from(adminAuditLog)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(adminAuditLog.createdAt))
+    .limit(query.limit)
+    .offset(query.offset);
+}
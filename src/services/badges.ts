@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Badge awarding service
+ *
+ * Evaluates the declarative rule of every badge definition (see
+ * lib/badge-rules.ts) against a user's progress and awards the badges
+ * whose rules are satisfied. Badges are only ever awarded once.
+ *
+ * The backfill replays historical progress to award badges that existing
+ * users qualified for before a badge (or its rule) was added.
+ */
+
+import { and, asc, eq, gt, ne, sql } from "drizzle-orm";
+import { UserStatus } from "@sudobility/types";
+import type { NewBadge } from "@sudobility/sudojo_types";
+import {
+  db,
+  badgeDefinitions,
+  pointTransactions,
+  userBadges,
+  userStats,
+} from "../db";
+import { badgeLocalization } from "../lib/localization";
+import type { LedgerTx } from "./ledger";
+import {
+  isRuleSatisfied,
+  resolveBadgeRule,
+  type BadgeProgress,
+  type BadgeRule,
+  type CompletedGame,
+} from "../lib/badge-rules";
+
+/**
+ * Count a user's hint-free puzzle completions requiring a technique.
+ * Uses the techniques bitfield recorded on puzzle_complete transactions.
+ */
+export async function countTechniqueSolves(
+  userId: string,
+  technique: number,
+  executor: LedgerTx | typeof db = db
+): Promise<number> {
+  const rows = await executor
+    .select({ total: sql<number>`count(*)`.mapWith(Number) })
+    .from(pointTransactions)
+    .where(
+      and(
+        eq(pointTransactions.userId, userId),
+        eq(pointTransactions.transactionType, "puzzle_complete"),
+        sql`(${pointTransactions.metadata}->>'hintUsed')::boolean = false`,
+        sql`(coalesce(${pointTransactions.metadata}->>'techniques', '0')::bigint & (1::bigint << ${technique})) != 0`
+      )
+    );
+  return rows[0]?.total ?? 0;
+}
+
+/**
+ * Check all badge rules against a user's progress and award new badges.
+ * Technique solve counts are loaded on demand when
+ * `progress.techniqueSolves` lacks a technique a rule refers to.
+ * Pass the ledger transaction when awarding as part of a game completion.
+ * @returns Array of newly earned badges
+ */
+export async function checkAndAwardBadges(
+  userId: string,
+  progress: BadgeProgress,
+  executor: LedgerTx | typeof db = db
+): Promise<NewBadge[]> {
+  const newBadges: NewBadge[] = [];
+
+  const [definitions, existingBadges] = await Promise.all([
+    executor.select().from(badgeDefinitions),
+    executor
+      .select({ badgeKey: userBadges.badgeKey })
+      .from(userBadges)
+      .where(eq(userBadges.userId, userId)),
+  ]);
+  const existingBadgeKeys = new Set(existingBadges.map(b => b.badgeKey));
+
+  for (const definition of definitions) {
+    if (existingBadgeKeys.has(definition.badgeKey)) {
+      continue;
+    }
+
+    const rule = resolveBadgeRule(definition);
+    if (!rule) {
+      continue;
+    }
+
+    if (
+      rule.type === "technique_mastery" &&
+      !progress.techniqueSolves.has(rule.technique)
+    ) {
+      progress.techniqueSolves.set(
+        rule.technique,
+        await countTechniqueSolves(userId, rule.technique, executor)
+      );
+    }
+
+    if (!isRuleSatisfied(rule, progress)) {
+      continue;
+    }
+
+    const inserted = await executor
+      .insert(userBadges)
+      .values({ userId, badgeKey: definition.badgeKey })
+      .onConflictDoNothing()
+      .returning();
+
+    // Another request may have awarded the badge concurrently
+    if (inserted.length > 0) {
+      newBadges.push({
+        badgeKey: definition.badgeKey,
+        title: definition.title,
+        description: definition.description,
+        localization: badgeLocalization(definition.badgeKey),
+      });
+    }
+    existingBadgeKeys.add(definition.badgeKey);
+  }
+
+  return newBadges;
+}
+
+// =============================================================================
+// Backfill
+// =============================================================================
+
+/** Users processed per batch when backfilling */
+const BACKFILL_BATCH_SIZE = 500;
+
+export interface BadgeBackfillOptions {
+  /** Report missing badges without awarding them */
+  dryRun: boolean;
+  /** Only consider these badges (all badges with a rule when omitted) */
+  badgeKeys?: string[];
+}
+
+export interface BadgeBackfillAward {
+  userId: string;
+  badgeKey: string;
+}
+
+export interface BadgeBackfillReport {
+  dryRun: boolean;
+  usersScanned: number;
+  /** Badges awarded, or that would be awarded in a dry run */
+  awarded: BadgeBackfillAward[];
+}
+
+/** Puzzle completion recorded in point_transactions metadata */
+interface CompletionMetadata {
+  puzzleLevel?: number;
+  hintUsed?: boolean;
+  interrupted?: boolean;
+  verifiedSeconds?: number;
+  techniques?: number;
+}
+
+/**
+ * Rebuild a user's badge progress from user_stats and their puzzle_complete
+ * transactions. Streaks use their best value so past achievements count.
+ * @returns The aggregate progress and each completed game
+ */
+async function replayUserProgress(
+  stats: typeof userStats.$inferSelect,
+  techniques: number[]
+): Promise<{ progress: BadgeProgress; games: CompletedGame[] }> {
+  const completions = await db
+    .select({ metadata: pointTransactions.metadata })
+    .from(pointTransactions)
+    .where(
+      and(
+        eq(pointTransactions.userId, stats.userId),
+        eq(pointTransactions.transactionType, "puzzle_complete")
+      )
+    )
+    .orderBy(asc(pointTransactions.createdAt));
+
+  const games: CompletedGame[] = [];
+  const techniqueSolves = new Map(techniques.map(t => [t, 0]));
+  let hintFreeStreak = 0;
+  let bestHintFreeStreak = stats.hintFreeStreak;
+
+  for (const { metadata } of completions) {
+    const completion = (metadata ?? {}) as CompletionMetadata;
+    const hintUsed = completion.hintUsed ?? true;
+
+    hintFreeStreak = hintUsed ? 0 : hintFreeStreak + 1;
+    bestHintFreeStreak = Math.max(bestHintFreeStreak, hintFreeStreak);
+
+    if (!hintUsed && completion.techniques) {
+      const bitfield = BigInt(completion.techniques);
+      for (const technique of techniques) {
+        if ((bitfield & (1n << BigInt(technique))) !== 0n) {
+          techniqueSolves.set(technique, techniqueSolves.get(technique)! + 1);
+        }
+      }
+    }
+
+    if (completion.puzzleLevel !== undefined) {
+      games.push({
+        level: completion.puzzleLevel,
+        hintUsed,
+        perfectPlay: !hintUsed && completion.interrupted === false,
+        // Completions recorded before verified times existed never qualify
+        verifiedSeconds: completion.verifiedSeconds ?? Infinity,
+      });
+    }
+  }
+
+  return {
+    progress: {
+      totalPoints: stats.totalPoints,
+      gamesCompleted: stats.gamesCompleted,
+      currentStreak: stats.longestStreak,
+      hintFreeStreak: bestHintFreeStreak,
+      techniqueSolves,
+    },
+    games,
+  };
+}
+
+/**
+ * Award badges that existing users already qualify for, e.g. after a badge
+ * is added or its rule changes. Replays the point_transactions and
+ * user_stats of every account that is not deleted; badges a user already
+ * holds are skipped, so running it again awards nothing new.
+ * @param executor - Transaction to award in (e.g., the admin route's audit
+ *   transaction, making the backfill all or nothing)
+ */
+export async function backfillBadges(
+  options: BadgeBackfillOptions,
+  executor: LedgerTx | typeof db = db
+): Promise<BadgeBackfillReport> {
+  const definitions = (await db.select().from(badgeDefinitions))
+    .filter(d => !options.badgeKeys || options.badgeKeys.includes(d.badgeKey))
+    .map(d => ({ badgeKey: d.badgeKey, rule: resolveBadgeRule(d) }))
+    .filter((d): d is { badgeKey: string; rule: BadgeRule } => d.rule !== null);
+
+  const techniques = [
+    ...new Set(
+      definitions.flatMap(d =>
+        d.rule.type === "technique_mastery" ? [d.rule.technique] : []
+      )
+    ),
+  ];
+
+  const report: BadgeBackfillReport = {
+    dryRun: options.dryRun,
+    usersScanned: 0,
+    awarded: [],
+  };
+  if (definitions.length === 0) {
+    return report;
+  }
+
+  let lastUserId = "";
+  for (;;) {
+    const batch = await db
+      .select()
+      .from(userStats)
+      .where(
+        and(
+          gt(userStats.userId, lastUserId),
+          ne(userStats.status, UserStatus.DELETED)
+        )
+      )
+      .orderBy(asc(userStats.userId))
+      .limit(BACKFILL_BATCH_SIZE);
+    if (batch.length === 0) {
+      break;
+    }
+    lastUserId = batch[batch.length - 1]!.userId;
+
+    for (const stats of batch) {
+      report.usersScanned++;
+
+      const existing = await db
+        .select({ badgeKey: userBadges.badgeKey })
+        .from(userBadges)
+        .where(eq(userBadges.userId, stats.userId));
+      const existingBadgeKeys = new Set(existing.map(b => b.badgeKey));
+      const missing = definitions.filter(
+        d => !existingBadgeKeys.has(d.badgeKey)
+      );
+      if (missing.length === 0) {
+        continue;
+      }
+
+      const { progress, games } = await replayUserProgress(stats, techniques);
+
+      for (const { badgeKey, rule } of missing) {
+        const qualifies =
+          isRuleSatisfied(rule, progress) ||
+          games.some(game => isRuleSatisfied(rule, { ...progress, game }));
+        if (!qualifies) {
+          continue;
+        }
+
+        if (options.dryRun) {
+          report.awarded.push({ userId: stats.userId, badgeKey });
+          continue;
+        }
+
+        const inserted = await executor
+          .insert(userBadges)
+          .values({ userId: stats.userId, badgeKey })
+          .onConflictDoNothing()
+          .returning();
+        if (inserted.length > 0) {
+          report.awarded.push({ userId: stats.userId, badgeKey });
+        }
+      }
+    }
+  }
+
+  return report;
+}
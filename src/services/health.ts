@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Readiness checks for /health/ready
+ *
+ * Checks every dependency in parallel, each bounded by
+ * HEALTH_CHECK_TIMEOUT_MS (default 3000):
+ * - database (critical): a trivial query
+ * - solver (critical): a cheap validate request to each instance, aborted
+ *   at the timeout (no retries, hedging or circuit breaking)
+ * - firebase (critical): an Admin SDK call with the configured credentials
+ * - revenuecat: subscription helper configured (REVENUECAT_API_KEY)
+ * - ocr: canvas adapter created (warms it up for the first OCR request)
+ */
+
+import { sql } from "drizzle-orm";
+import packageJson from "../../package.json";
+import { db } from "../db";
+import { getApps } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { probeSolver } from "./solver-proxy";
+import { getOcrAdapter } from "./ocr";
+import { getSubscriptionHelper } from "../middleware/subscription";
+import { getEnv } from "../lib/env-helper";
+import {
+  getReadinessStatus,
+  runDependencyCheck,
+  type DependencyCheck,
+  type ReadinessStatus,
+} from "../lib/health";
+
+export const API_NAME = "Sudojo API";
+
+/** Version from package.json */
+export const API_VERSION: string = packageJson.version;
+
+const HEALTH_CHECK_TIMEOUT_MS = parseInt(
+  getEnv("HEALTH_CHECK_TIMEOUT_MS", "3000")!,
+  10
+);
+
+/** A solved grid: validating it is the cheapest request the solver serves */
+const SOLVER_PROBE_PUZZLE =
+  "534678912672195348198342567859761423426853791713924856961537284287419635345286179";
+
+export interface ReadinessReport {
+  name: string;
+  version: string;
+  status: ReadinessStatus;
+  checks: Record<string, DependencyCheck>;
+}
+
+async function checkDatabase(): Promise<"up"> {
+  await db.execute(sql`SELECT 1`);
+  return "up";
+}
+
+async function checkSolver(): Promise<"up"> {
+  // Any 2xx response counts; the request is aborted at the check timeout
+  const params = new URLSearchParams({
+    original: SOLVER_PROBE_PUZZLE,
+    brutalForce: "false",
+  });
+  await probeSolver(
+    "validate",
+    params.toString(),
+    AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS)
+  );
+  return "up";
+}
+
+async function checkFirebase(): Promise<"up"> {
+  // Loading the module initializes auth_service (and the Admin SDK app)
+  await import("./firebase");
+  const [app] = getApps();
+  if (!app) {
+    throw new Error("Firebase Admin SDK is not initialized");
+  }
+  // Listing one user needs valid credentials and a reachable Auth API
+  await getAuth(app).listUsers(1);
+  return "up";
+}
+
+async function checkRevenueCat(): Promise<"up" | "not_configured"> {
+  return getSubscriptionHelper() ? "up" : "not_configured";
+}
+
+async function checkOcr(): Promise<"up"> {
+  await getOcrAdapter();
+  return "up";
+}
+
+/**
+ * Check every dependency and summarize readiness.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const critical = { critical: true, timeoutMs: HEALTH_CHECK_TIMEOUT_MS };
+  const optional = { critical: false, timeoutMs: HEALTH_CHECK_TIMEOUT_MS };
+
+  const [database, solver, firebase, revenuecat, ocr] = await Promise.all([
+    runDependencyCheck(checkDatabase, critical),
+    runDependencyCheck(checkSolver, critical),
+    runDependencyCheck(checkFirebase, critical),
+    runDependencyCheck(checkRevenueCat, optional),
+    runDependencyCheck(checkOcr, optional),
+  ]);
+  const checks = { database, solver, firebase, revenuecat, ocr };
+
+  return {
+    name: API_NAME,
+    version: API_VERSION,
+    status: getReadinessStatus(checks),
+    checks,
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * @fileoverview Leaderboard service
+ *
+ * Ranks users by points for a given scope:
+ * - all_time: user_stats.total_points
+ * - weekly / monthly: sum of point_transactions since the start of the
+ *   current calendar week / month (UTC)
+ * - level: sum of point_transactions for puzzles of a given level
+ *
+ * Period and level scopes count gameplay transactions only; admin
+ * credits/debits and ledger reconciliations adjust all-time totals but do
+ * not earn a place on them.
+ *
+ * Daily leaderboards rank the first completion of a date's daily puzzle by
+ * verified solve time, separately for hint-free and hinted solves. Only
+ * dates with a stored daily have one: fallback dailies are generated per
+ * request, so their solves cannot be verified.
+ *
+ * Deleted accounts (user_stats.status = 'deleted') are excluded.
+ * Ties share a rank (SQL RANK()).
+ */
+
+import {
+  and,
+  asc,
+  count,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNull,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
+import { UserStatus } from "@sudobility/types";
+import {
+  db,
+  dailies,
+  dailyCompletions,
+  pointTransactions,
+  userStats,
+} from "../db";
+
+export type LeaderboardScope = "all_time" | "weekly" | "monthly" | "level";
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  points: number;
+}
+
+export interface Leaderboard {
+  scope: LeaderboardScope;
+  /** Puzzle level for the level scope, null otherwise */
+  level: number | null;
+  /** Start of the ranking period for weekly/monthly scopes, null otherwise */
+  periodStart: string | null;
+  /** Number of ranked users */
+  total: number;
+  entries: LeaderboardEntry[];
+  /** The caller's own entry, null if they are not ranked */
+  me: LeaderboardEntry | null;
+}
+
+export interface LeaderboardOptions {
+  scope: LeaderboardScope;
+  level?: number;
+  limit: number;
+  offset: number;
+  /** User whose own rank is included in the result */
+  userId: string;
+}
+
+/** Condition excluding deleted accounts from a query joined with user_stats */
+const notDeleted = or(
+  isNull(userStats.status),
+  ne(userStats.status, UserStatus.DELETED)
+);
+
+/** Transaction types earned by playing, counted by the period and level scopes */
+const GAMEPLAY_TRANSACTION_TYPES = ["puzzle_complete", "hint_used"];
+
+/**
+ * Get the start (UTC midnight) of the current calendar week or month.
+ * Weeks start on Monday.
+ */
+export function getPeriodStart(period: "week" | "month", now: Date): Date {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+  if (period === "month") {
+    start.setUTCDate(1);
+  } else {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+  return start;
+}
+
+/** Build the (userId, points) subquery for a scope */
+function scoresSubquery(
+  scope: LeaderboardScope,
+  options: {
+    level?: number;
+    since?: Date;
+  }
+) {
+  if (scope === "all_time") {
+    return db
+      .select({
+        userId: userStats.userId,
+        points: sql<number>`${userStats.totalPoints}`.as("points"),
+      })
+      .from(userStats)
+      .where(and(gt(userStats.totalPoints, 0), notDeleted))
+      .as("scores");
+  }
+
+  const conditions = [
+    notDeleted,
+    inArray(pointTransactions.transactionType, GAMEPLAY_TRANSACTION_TYPES),
+  ];
+  if (options.since) {
+    conditions.push(gte(pointTransactions.createdAt, options.since));
+  }
+  if (options.level !== undefined) {
+    conditions.push(
+      sql`(${pointTransactions.metadata}->>'puzzleLevel')::int = ${options.level}`
+    );
+  }
+
+  return db
+    .select({
+      userId: pointTransactions.userId,
+      points: sql<number>`sum(${pointTransactions.points})::bigint`.as(
+        "points"
+      ),
+    })
+    .from(pointTransactions)
+    .leftJoin(userStats, eq(userStats.userId, pointTransactions.userId))
+    .where(and(...conditions))
+    .groupBy(pointTransactions.userId)
+    .having(sql`sum(${pointTransactions.points}) > 0`)
+    .as("scores");
+}
+
+/**
+ * Get a page of the leaderboard for a scope, plus the caller's own entry.
+ * The page, `total` and the caller's entry are separate reads, so under
+ * concurrent writes `total` may not match the ranks in `entries`.
+ *
+ * @throws Error if scope is "level" and no level is given
+ */
+export async function getLeaderboard(
+  options: LeaderboardOptions
+): Promise<Leaderboard> {
+  const { scope, limit, offset, userId } = options;
+
+  if (scope === "level" && options.level === undefined) {
+    throw new Error("A level is required for the level leaderboard");
+  }
+
+  let periodStart: Date | undefined;
+  if (scope === "weekly") {
+    periodStart = getPeriodStart("week", new Date());
+  } else if (scope === "monthly") {
+    periodStart = getPeriodStart("month", new Date());
+  }
+
+  const scores = scoresSubquery(scope, {
+    level: scope === "level" ? options.level : undefined,
+    since: periodStart,
+  });
+
+  const ranked = db
+    .select({
+      userId: scores.userId,
+      points: sql<number>`${scores.points}`.mapWith(Number).as("points"),
+      rank: sql<number>`rank() over (order by ${scores.points} desc)`
+        .mapWith(Number)
+        .as("rank"),
+    })
+    .from(scores)
+    .as("ranked");
+
+  const [entries, mine, [totalRow]] = await Promise.all([
+    db
+      .select()
+      .from(ranked)
+      .orderBy(asc(ranked.rank), asc(ranked.userId))
+      .limit(limit)
+      .offset(offset),
+    db.select().from(ranked).where(eq(ranked.userId, userId)),
+    db.select({ total: count() }).from(ranked),
+  ]);
+
+  return {
+    scope,
+    level: scope === "level" ? options.level! : null,
+    periodStart: periodStart?.toISOString() ?? null,
+    total: totalRow?.total ?? 0,
+    entries,
+    me: mine[0] ?? null,
+  };
+}
+
+export interface DailyLeaderboardEntry {
+  rank: number;
+  userId: string;
+  /** Verified solve time in seconds */
+  seconds: number;
+  hintsCount: number;
+  completedAt: string | null;
+}
+
+export interface DailyLeaderboardSection {
+  /** Number of ranked solves in this section */
+  total: number;
+  entries: DailyLeaderboardEntry[];
+}
+
+export interface DailyLeaderboard {
+  date: string;
+  hintFree: DailyLeaderboardSection;
+  hinted: DailyLeaderboardSection;
+}
+
+/** Get one section (hint-free or hinted) of a daily leaderboard */
+async function getDailySection(
+  date: string,
+  hintUsed: boolean,
+  limit: number,
+  offset: number
+): Promise<DailyLeaderboardSection> {
+  const conditions = and(
+    eq(dailyCompletions.date, date),
+    eq(dailyCompletions.hintUsed, hintUsed),
+    notDeleted
+  );
+
+  const [rows, [totalRow]] = await Promise.all([
+    db
+      .select({
+        userId: dailyCompletions.userId,
+        seconds: dailyCompletions.verifiedSeconds,
+        hintsCount: dailyCompletions.hintsCount,
+        completedAt: dailyCompletions.completedAt,
+        rank: sql<number>`rank() over (order by ${dailyCompletions.verifiedSeconds} asc)`.mapWith(
+          Number
+        ),
+      })
+      .from(dailyCompletions)
+      .leftJoin(userStats, eq(userStats.userId, dailyCompletions.userId))
+      .where(conditions)
+      .orderBy(
+        asc(dailyCompletions.verifiedSeconds),
+        asc(dailyCompletions.completedAt)
+      )
+      .limit(limit)
+      .offset(offset),
+    db
+      .select({ total: count() })
+      .from(dailyCompletions)
+      .leftJoin(userStats, eq(userStats.userId, dailyCompletions.userId))
+      .where(conditions),
+  ]);
+
+  return {
+    total: totalRow?.total ?? 0,
+    entries: rows.map(row => ({
+      ...row,
+      completedAt: row.completedAt?.toISOString() ?? null,
+    })),
+  };
+}
+
+/**
+ * Get the leaderboard for a date's daily puzzle, ranked by fastest verified
+ * solve time and split into hint-free and hinted solves.
+ * `limit` and `offset` apply to each section. Each section's page and count
+ * are separate reads, so `total` and `entries` may disagree under concurrent
+ * completions. Both sections are empty for a date without a stored daily.
+ */
+export async function getDailyLeaderboard(
+  date: string,
+  limit: number,
+  offset: number
+): Promise<DailyLeaderboard> {
+  const stored = await db
+    .select({ uuid: dailies.uuid })
+    .from(dailies)
+    .where(and(eq(dailies.date, date), isNull(dailies.deleted_at)))
+    .limit(1);
+  if (stored.length === 0) {
+    const empty = { total: 0, entries: [] };
+    return { date, hintFree: empty, hinted: empty };
+  }
+
+  const [hintFree, hinted] = await Promise.all([
+    getDailySection(date, false, limit, offset),
+    getDailySection(date, true, limit, offset),
+  ]);
+  return { date, hintFree, hinted };
+}
@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Point ledger service
+ *
+ * Single write path for points and the stats derived from them.
+ * Every change to user_stats.total_points is posted together with its
+ * point_transactions row inside one database transaction, and totals are
+ * incremented in SQL rather than read-modify-write, so concurrent requests
+ * cannot lose points and a crash cannot leave the ledger half-written.
+ *
+ * Invariant: user_stats.total_points = sum(point_transactions.points).
+ * Support staff can inspect ledgers, post manual credits/debits and
+ * reconcile users whose totals have drifted from their transactions.
+ */
+
+import { asc, eq, sql } from "drizzle-orm";
+import { db, pointTransactions, userStats } from "../db";
+
+/** Database transaction handle passed to ledger operations */
+export type LedgerTx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** A point transaction to post */
+export interface LedgerEntry {
+  userId: string;
+  /** Points to add (negative to deduct) */
+  points: number;
+  transactionType: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Non-point user_stats fields that may change together with an entry */
+export type LedgerStatsUpdate = Partial<
+  Omit<
+    typeof userStats.$inferInsert,
+    "userId" | "totalPoints" | "createdAt" | "updatedAt"
+  >
+>;
+
+/** Result of checking a user's stored total against their transactions */
+export interface LedgerVerification {
+  userId: string;
+  storedTotal: number;
+  transactionTotal: number;
+  consistent: boolean;
+}
+
+/**
+ * Run ledger operations in a single database transaction.
+ * Everything inside is committed together or rolled back on error.
+ */
+export function withLedger<T>(fn: (tx: LedgerTx) => Promise<T>): Promise<T> {
+  return db.transaction(fn);
+}
+
+/**
+ * Get a user's stats row, creating it if needed, and lock it until the
+ * transaction ends. Use before deriving new stats from the current ones.
+ */
+export async function lockUserStats(tx: LedgerTx, userId: string) {
+  await tx.insert(userStats).values({ userId }).onConflictDoNothing();
+
+  const rows = await tx
+    .select()
+    .from(userStats)
+    .where(eq(userStats.userId, userId))
+    .for("update");
+
+  return rows[0]!;
+}
+
+/**
+ * Post a point transaction and add its points to the user's total.
+ * Optional `stats` fields (level, games completed, streaks...) are updated
+ * in the same statement.
+ * @returns The user's new total points
+ */
+export async function postPoints(
+  tx: LedgerTx,
+  entry: LedgerEntry,
+  stats: LedgerStatsUpdate = {}
+): Promise<number> {
+  await tx
+    .insert(userStats)
+    .values({ userId: entry.userId })
+    .onConflictDoNothing();
+
+  const updated = await tx
+    .update(userStats)
+    .set({
+      ...stats,
+      totalPoints: sql`${userStats.totalPoints} + ${entry.points}`,
+      updatedAt: new Date(),
+    })
+    .where(eq(userStats.userId, entry.userId))
+    .returning({ totalPoints: userStats.totalPoints });
+
+  await tx.insert(pointTransactions).values({
+    userId: entry.userId,
+    points: entry.points,
+    transactionType: entry.transactionType,
+    metadata: entry.metadata,
+  });
+
+  return updated[0]!.totalPoints;
+}
+
+/**
+ * Check that a user's stored total equals the sum of their transactions.
+ */
+export async function verifyUserLedger(
+  userId: string
+): Promise<LedgerVerification> {
+  const [statsRows, sumRows] = await Promise.all([
+    db
+      .select({ totalPoints: userStats.totalPoints })
+      .from(userStats)
+      .where(eq(userStats.userId, userId)),
+    db
+      .select({
+        total:
+          sql<number>`coalesce(sum(${pointTransactions.points}), 0)`.mapWith(
+            Number
+          ),
+      })
+      .from(pointTransactions)
+      .where(eq(pointTransactions.userId, userId)),
+  ]);
+
+  const storedTotal = statsRows[0]?.totalPoints ?? 0;
+  const transactionTotal = sumRows[0]?.total ?? 0;
+
+  return {
+    userId,
+    storedTotal,
+    transactionTotal,
+    consistent: storedTotal === transactionTotal,
+  };
+}
+
+/** Transaction types posted by support staff and reconciliation */
+export const ADMIN_CREDIT = "admin_credit";
+export const ADMIN_DEBIT = "admin_debit";
+export const LEDGER_RECONCILIATION = "ledger_reconciliation";
+
+/** A user's ledger: totals plus a page of transactions */
+export interface UserLedger extends LedgerVerification {
+  transactions: (typeof pointTransactions.$inferSelect)[];
+}
+
+/** Result of a reconciliation pass */
+export interface LedgerReconciliationReport {
+  /** Whether correcting transactions were posted */
+  applied: boolean;
+  /** Users whose stored total disagreed with their transaction sum */
+  discrepancies: LedgerVerification[];
+}
+
+/**
+ * Get a user's totals and a page of their transactions (oldest first).
+ */
+export async function getUserLedger(
+  userId: string,
+  limit: number,
+  offset: number
+): Promise<UserLedger> {
+  const [verification, transactions] = await Promise.all([
+    verifyUserLedger(userId),
+    db
+      .select()
+      .from(pointTransactions)
+      .where(eq(pointTransactions.userId, userId))
+      .orderBy(asc(pointTransactions.createdAt))
+      .limit(limit)
+      .offset(offset),
+  ]);
+  return { ...verification, transactions };
+}
+
+/**
+ * Manually credit (positive points) or debit (negative points) a user.
+ * Recorded as admin_credit / admin_debit with the reason and acting admin.
+ * @param executor - Transaction to post in (e.g., the admin route's audit
+ *   transaction); a new one is used by default
+ * @returns The user's new total, or null if a debit exceeds their total
+ */
+export async function adjustPoints(
+  adjustment: {
+    userId: string;
+    points: number;
+    reason: string;
+    adjustedBy: string;
+  },
+  executor?: LedgerTx
+): Promise<number | null> {
+  const adjust = async (tx: LedgerTx) => {
+    const stats = await lockUserStats(tx, adjustment.userId);
+    if (stats.totalPoints + adjustment.points < 0) {
+      return null;
+    }
+
+    return postPoints(tx, {
+      userId: adjustment.userId,
+      points: adjustment.points,
+      transactionType: adjustment.points > 0 ? ADMIN_CREDIT : ADMIN_DEBIT,
+      metadata: {
+        reason: adjustment.reason,
+        adjustedBy: adjustment.adjustedBy,
+      },
+    });
+  };
+  return executor ? adjust(executor) : withLedger(adjust);
+}
+
+/**
+ * Find users whose stored total disagrees with the sum of their
+ * transactions. With `apply`, post a ledger_reconciliation transaction for
+ * each difference so the ledger matches the stored total the user sees
+ * (the stored total itself is left unchanged).
+ * @param executor - Transaction to post every correction in; by default
+ *   each user is corrected in a transaction of its own
+ */
+export async function reconcileLedgers(
+  options: {
+    apply: boolean;
+    reconciledBy: string;
+  },
+  executor?: LedgerTx
+): Promise<LedgerReconciliationReport> {
+  const transactionTotal = sql<number>`coalesce(sum(${pointTransactions.points}), 0)`;
+  const rows = await (executor ?? db)
+    .select({
+      userId: userStats.userId,
+      storedTotal: userStats.totalPoints,
+      transactionTotal: transactionTotal.mapWith(Number),
+    })
+    .from(userStats)
+    .leftJoin(pointTransactions, eq(pointTransactions.userId, userStats.userId))
+    .groupBy(userStats.userId, userStats.totalPoints)
+    .having(sql`${userStats.totalPoints} <> ${transactionTotal}`)
+    .orderBy(asc(userStats.userId));
+
+  const discrepancies = rows.map(row => ({ ...row, consistent: false }));
+
+  if (options.apply) {
+    for (const discrepancy of discrepancies) {
+      const correct = async (tx: LedgerTx) => {
+        // Re-check under lock; the user may have changed since the scan
+        const stats = await lockUserStats(tx, discrepancy.userId);
+        const [sumRow] = await tx
+          .select({ total: transactionTotal.mapWith(Number) })
+          .from(pointTransactions)
+          .where(eq(pointTransactions.userId, discrepancy.userId));
+        const difference = stats.totalPoints - (sumRow?.total ?? 0);
+        if (difference === 0) {
+          return;
+        }
+
+        await tx.insert(pointTransactions).values({
+          userId: discrepancy.userId,
+          points: difference,
+          transactionType: LEDGER_RECONCILIATION,
+          metadata: {
+            storedTotal: stats.totalPoints,
+            transactionTotal: sumRow?.total ?? 0,
+            reconciledBy: options.reconciledBy,
+          },
+        });
+      };
+      await (executor ? correct(executor) : withLedger(correct));
+    }
+  }
+
+  return { applied: options.apply, discrepancies };
+}
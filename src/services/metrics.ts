@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Application metrics exposed at GET /metrics
+ *
+ * All series are prefixed `sudojo_`:
+ * - HTTP: requests and latency per matched route
+ * - Solver: latency, errors, retries, hedges and cache hits per endpoint;
+ *   circuit breaker state per instance
+ * - OCR: extraction duration and confidence
+ * - Database: pool size and this process's connections by state
+ * - Gamification: games finished, hints used, badges and points awarded
+ * - Access: daily quota and rate limit denials
+ *
+ * Gamification counters are incremented after their transaction commits,
+ * so rolled-back work is not counted.
+ */
+
+import { sql } from "drizzle-orm";
+import { db, DB_APPLICATION_NAME, DB_POOL_MAX } from "../db";
+import { createMetricsRegistry, DEFAULT_LATENCY_BUCKETS } from "../lib/metrics";
+import { logger } from "../lib/logger";
+
+export const metricsRegistry = createMetricsRegistry();
+
+// =============================================================================
+// HTTP
+// =============================================================================
+
+export const httpRequestsTotal = metricsRegistry.counter(
+  "sudojo_http_requests_total",
+  "HTTP requests by method, matched route and status",
+  ["method", "route", "status"]
+);
+
+export const httpRequestDuration = metricsRegistry.histogram(
+  "sudojo_http_request_duration_seconds",
+  "HTTP request latency by method and matched route",
+  ["method", "route"]
+);
+
+// =============================================================================
+// Solver
+// =============================================================================
+
+export const solverRequestDuration = metricsRegistry.histogram(
+  "sudojo_solver_request_duration_seconds",
+  "Solver call latency by endpoint, retries included (including failed calls)",
+  ["endpoint"],
+  [...DEFAULT_LATENCY_BUCKETS, 30, 60]
+);
+
+export const solverErrorsTotal = metricsRegistry.counter(
+  "sudojo_solver_errors_total",
+  "Failed solver attempts by endpoint and reason (status, timeout, network, circuit_open)",
+  ["endpoint", "reason"]
+);
+
+export const solverRetriesTotal = metricsRegistry.counter(
+  "sudojo_solver_retries_total",
+  "Solver calls retried, by endpoint",
+  ["endpoint"]
+);
+
+export const solverHedgesTotal = metricsRegistry.counter(
+  "sudojo_solver_hedges_total",
+  "Hedged solver requests sent to a second instance, by endpoint",
+  ["endpoint"]
+);
+
+export const solverCacheRequestsTotal = metricsRegistry.counter(
+  "sudojo_solver_cache_requests_total",
+  "Solver cache lookups by endpoint and result (memory_hit, postgres_hit, coalesced, miss)",
+  ["endpoint", "result"]
+);
+
+export const solverCacheEntries = metricsRegistry.gauge(
+  "sudojo_solver_cache_entries",
+  "Entries in this process's in-memory solver cache"
+);
+
+export const solverCircuitOpen = metricsRegistry.gauge(
+  "sudojo_solver_circuit_open",
+  "Whether the circuit breaker of a solver instance is open (1) or not (0)",
+  ["solver"]
+);
+
+// =============================================================================
+// OCR
+// =============================================================================
+
+export const ocrExtractionDuration = metricsRegistry.histogram(
+  "sudojo_ocr_extraction_duration_seconds",
+  "OCR extraction duration by outcome (success, rejected, error)",
+  ["outcome"],
+  [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60]
+);
+
+export const ocrConfidence = metricsRegistry.histogram(
+  "sudojo_ocr_confidence",
+  "Confidence score (0-100) of OCR extractions",
+  [],
+  [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+);
+
+// =============================================================================
+// Database
+// =============================================================================
+
+const dbPoolMaxConnections = metricsRegistry.gauge(
+  "sudojo_db_pool_max_connections",
+  "Maximum connections in this process's database pool"
+);
+
+const dbPoolConnections = metricsRegistry.gauge(
+  "sudojo_db_pool_connections",
+  "This process's open database connections by state (the scrape itself holds one active)",
+  ["state"]
+);
+
+metricsRegistry.addCollector(async () => {
+  dbPoolMaxConnections.set(undefined, DB_POOL_MAX);
+  dbPoolConnections.reset();
+  try {
+    const rows = await db.execute<{ state: string | null; count: number }>(
+      sql`
+        SELECT state, count(*)::int AS count
+        FROM pg_stat_activity
+        WHERE application_name = ${DB_APPLICATION_NAME}
+        GROUP BY state
+      `
+    );
+    for (const row of rows) {
+      dbPoolConnections.set({ state: row.state ?? "unknown" }, row.count);
+    }
+  } catch (error) {
+    // Leave the series empty rather than reporting stale counts
+    logger.warn("Database pool metrics unavailable", { error });
+  }
+});
+
+// =============================================================================
+// Gamification
+// =============================================================================
+
+export const gamesFinishedTotal = metricsRegistry.counter(
+  "sudojo_games_finished_total",
+  "Games finished by puzzle type",
+  ["puzzle_type"]
+);
+
+export const hintsUsedTotal = metricsRegistry.counter(
+  "sudojo_hints_used_total",
+  "Hints used in game sessions by technique level",
+  ["technique_level"]
+);
+
+export const badgesAwardedTotal = metricsRegistry.counter(
+  "sudojo_badges_awarded_total",
+  "Badges awarded by badge key",
+  ["badge"]
+);
+
+export const pointsAwardedTotal = metricsRegistry.counter(
+  "sudojo_points_awarded_total",
+  "Points awarded by transaction type",
+  ["transaction_type"]
+);
+
+// =============================================================================
+// Access
+// =============================================================================
+
+export const quotaDenialsTotal = metricsRegistry.counter(
+  "sudojo_quota_denials_total",
+  "Requests denied by a daily access quota, by endpoint and caller (anonymous, signed_in)",
+  ["endpoint", "caller"]
+);
+
+export const rateLimitDenialsTotal = metricsRegistry.counter(
+  "sudojo_rate_limit_denials_total",
+  "Requests rejected by rate limiting, by route group and caller identity",
+  ["group", "identity"]
+);
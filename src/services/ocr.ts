@@ -0,0 +1,23 @@
+/**
+ * @fileoverview OCR adapter service
+ *
+ * The canvas adapter used by @sudobility/sudojo_ocr loads native canvas
+ * bindings, so it is created once and shared. The readiness check creates
+ * it ahead of the first OCR request.
+ */
+
+import type { CanvasAdapter } from "@sudobility/sudojo_ocr";
+import { createNodeAdapter } from "@sudobility/sudojo_ocr/node";
+
+// Singleton adapter for efficiency
+let nodeAdapter: CanvasAdapter | null = null;
+
+/**
+ * Get the shared OCR canvas adapter, creating it on first use.
+ */
+export async function getOcrAdapter(): Promise<CanvasAdapter> {
+  if (!nodeAdapter) {
+    nodeAdapter = await createNodeAdapter();
+  }
+  return nodeAdapter;
+}
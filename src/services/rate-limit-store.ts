@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Storage backends for the token-bucket rate limiter
+ *
+ * - memory: process-local buckets, for tests and single-instance development
+ * - postgres: buckets in the rate_limit_buckets table, shared by all API
+ *   instances (production)
+ *
+ * Select with RATE_LIMIT_STORE ("postgres" by default, or "memory").
+ */
+
+import { eq, lt } from "drizzle-orm";
+import { db, rateLimitBuckets } from "../db";
+import { getEnv } from "../lib/env-helper";
+import { createLruCache } from "../lib/lru-cache";
+import {
+  takeToken,
+  type TokenBucketConfig,
+  type TokenBucketResult,
+  type TokenBucketState,
+} from "../lib/token-bucket";
+
+export interface RateLimitStore {
+  /** Take one token from the bucket for `key` */
+  consume(
+    key: string,
+    config: TokenBucketConfig,
+    now: number
+  ): Promise<TokenBucketResult>;
+}
+
+/** Buckets idle for this long are full again and can be dropped */
+const IDLE_BUCKET_MS = 60 * 60 * 1000;
+
+/** Maximum buckets kept in memory; the least recently used is evicted */
+const MAX_MEMORY_BUCKETS = 10_000;
+
+/**
+ * Create an in-memory store. Buckets are not shared between processes.
+ * At most `maxBuckets` are kept: idle buckets expire, and beyond that the
+ * least recently used is evicted (and starts full when seen again).
+ */
+export function createMemoryRateLimitStore(
+  maxBuckets = MAX_MEMORY_BUCKETS
+): RateLimitStore {
+  const buckets = createLruCache<TokenBucketState>(maxBuckets);
+
+  return {
+    async consume(key, config, now) {
+      const result = takeToken(buckets.get(key, now) ?? null, config, now);
+      buckets.set(key, result.state, now + IDLE_BUCKET_MS);
+      return result;
+    },
+  };
+}
+
+/**
+ * Create a Postgres-backed store. Each bucket row is locked while it is
+ * updated, so concurrent requests across instances are counted correctly.
+ */
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    async consume(key, config, now) {
+      return db.transaction(async tx => {
+        await tx
+          .insert(rateLimitBuckets)
+          .values({
+            key,
+            tokens: config.capacity,
+            updatedAt: new Date(now),
+          })
+          .onConflictDoNothing();
+
+        const [row] = await tx
+          .select()
+          .from(rateLimitBuckets)
+          .where(eq(rateLimitBuckets.key, key))
+          .for("update");
+
+        const result = takeToken(
+          row
+            ? { tokens: row.tokens, updatedAt: row.updatedAt.getTime() }
+            : null,
+          config,
+          now
+        );
+
+        await tx
+          .update(rateLimitBuckets)
+          .set({
+            tokens: result.state.tokens,
+            updatedAt: new Date(result.state.updatedAt),
+          })
+          .where(eq(rateLimitBuckets.key, key));
+
+        return result;
+      });
+    },
+  };
+}
+
+/**
+ * Delete Postgres buckets that have been idle long enough to be full.
+ * @returns Number of buckets deleted
+ */
+export async function purgeIdleRateLimitBuckets(): Promise<number> {
+  const deleted = await db
+    .delete(rateLimitBuckets)
+    .where(
+      lt(rateLimitBuckets.updatedAt, new Date(Date.now() - IDLE_BUCKET_MS))
+    )
+    .returning({ key: rateLimitBuckets.key });
+  return deleted.length;
+}
+
+let _store: RateLimitStore | null = null;
+
+/**
+ * Get the configured store (singleton, lazily initialized).
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!_store) {
+    _store =
+      getEnv("RATE_LIMIT_STORE", "postgres") === "memory"
+        ? createMemoryRateLimitStore()
+        : createPostgresRateLimitStore();
+  }
+  return _store;
+}
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Admin roles and permissions
+ *
+ * Admin routes are guarded per route module: a write to /boards needs the
+ * `boards:write` permission (see lib/permissions.ts). Permissions are
+ * granted through roles stored in admin_roles and assigned to users in
+ * user_roles, so access can change without redeploying.
+ *
+ * The super_admin role (and anyone listed in SITEADMIN_EMAILS, used to
+ * bootstrap the first super admin) has every permission and is the only
+ * one that can manage roles and API keys.
+ */
+
+import { asc, eq, and } from "drizzle-orm";
+import { db, adminRoles, userRoles } from "../db";
+import type { AuditTx } from "./audit";
+import type { Permission } from "../lib/permissions";
+
+/** Role with every permission, including role and API key management */
+export const SUPER_ADMIN_ROLE = "super_admin";
+
+/** Built-in roles, created by the seed script (db:seed-roles) */
+export const DEFAULT_ROLES: Array<{
+  name: string;
+  description: string;
+  permissions: Permission[];
+}> = [
+  {
+    name: SUPER_ADMIN_ROLE,
+    description: "Full access, including roles and API keys",
+    permissions: [],
+  },
+  {
+    name: "content_editor",
+    description: "Edits levels, techniques, strategies and learning content",
+    permissions: [
+      "levels:read",
+      "levels:write",
+      "techniques:read",
+      "techniques:write",
+      "strategies:read",
+      "strategies:write",
+      "learning:read",
+      "learning:write",
+      "examples:read",
+      "examples:write",
+      "practices:read",
+      "practices:write",
+    ],
+  },
+  {
+    name: "puzzle_curator",
+    description: "Manages boards, dailies and challenges",
+    permissions: [
+      "boards:read",
+      "boards:write",
+      "dailies:read",
+      "dailies:write",
+      "challenges:read",
+      "challenges:write",
+    ],
+  },
+  {
+    name: "community_moderator",
+    description: "Manages the community directory",
+    permissions: ["communities:read", "communities:write"],
+  },
+];
+
+/** How long a user's permissions are cached in memory */
+const PERMISSION_CACHE_TTL_MS = 60 * 1000;
+
+export interface AdminRole {
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+}
+
+/** Permissions a user holds through their roles */
+export interface AdminPermissions {
+  roles: string[];
+  superAdmin: boolean;
+  permissions: Set<Permission>;
+}
+
+const roleColumns = {
+  name: adminRoles.name,
+  description: adminRoles.description,
+  permissions: adminRoles.permissions,
+};
+
+const permissionCache = new Map<
+  string,
+  { value: AdminPermissions; expiresAt: number }
+>();
+
+/**
+ * Drop cached permissions, of one user or of everyone. Call once a role
+ * change has committed: clearing inside the transaction would let a
+ * concurrent read cache the old permissions again until they expire.
+ */
+export function clearPermissionCache(userId?: string): void {
+  if (userId === undefined) {
+    permissionCache.clear();
+  } else {
+    permissionCache.delete(userId);
+  }
+}
+
+/**
+ * Get the roles and permissions of a user (cached briefly).
+ * @param userId - Firebase UID
+ */
+export async function getAdminPermissions(
+  userId: string
+): Promise<AdminPermissions> {
+  const cached = permissionCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const rows = await db
+    .select({ role: adminRoles.name, permissions: adminRoles.permissions })
+    .from(userRoles)
+    .innerJoin(adminRoles, eq(userRoles.role, adminRoles.name))
+    .where(eq(userRoles.userId, userId));
+
+  const value: AdminPermissions = {
+    roles: rows.map(row => row.role),
+    superAdmin: rows.some(row => row.role === SUPER_ADMIN_ROLE),
+    permissions: new Set(rows.flatMap(row => row.permissions)),
+  };
+  permissionCache.set(userId, {
+    value,
+    expiresAt: Date.now() + PERMISSION_CACHE_TTL_MS,
+  });
+  return value;
+}
+
+/**
+ * List all roles.
+ */
+export async function listRoles(): Promise<AdminRole[]> {
+  return db.select(roleColumns).from(adminRoles).orderBy(asc(adminRoles.name));
+}
+
+/**
+ * Get a role by name.
+ * @returns The role, or null if not found
+ */
+export async function getRole(
+  name: string,
+  executor: AuditTx | typeof db = db
+): Promise<AdminRole | null> {
+  const [role] = await executor
+    .select(roleColumns)
+    .from(adminRoles)
+    .where(eq(adminRoles.name, name));
+  return role ?? null;
+}
+
+/**
+ * Create a role.
+ * @returns The role, or null if a role with this name exists
+ */
+export async function createRole(
+  role: AdminRole,
+  executor: AuditTx | typeof db = db
+): Promise<AdminRole | null> {
+  const created = await executor
+    .insert(adminRoles)
+    .values(role)
+    .onConflictDoNothing()
+    .returning(roleColumns);
+  return created[0] ?? null;
+}
+
+/**
+ * Update a role's description or permissions.
+ * Call clearPermissionCache once the change has committed.
+ * @returns The updated role, or null if not found
+ */
+export async function updateRole(
+  name: string,
+  changes: { description?: string | null; permissions?: Permission[] },
+  executor: AuditTx | typeof db = db
+): Promise<AdminRole | null> {
+  const [role] = await executor
+    .update(adminRoles)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(adminRoles.name, name))
+    .returning(roleColumns);
+  return role ?? null;
+}
+
+/**
+ * Delete a role and its assignments.
+ * Call clearPermissionCache once the change has committed.
+ * @returns The deleted role, or null if not found
+ */
+export async function deleteRole(
+  name: string,
+  executor: AuditTx | typeof db = db
+): Promise<AdminRole | null> {
+  const [role] = await executor
+    .delete(adminRoles)
+    .where(eq(adminRoles.name, name))
+    .returning(roleColumns);
+  return role ?? null;
+}
+
+/**
+ * Get the roles assigned to a user.
+ */
+export async function getUserRoles(
+  userId: string,
+  executor: AuditTx | typeof db = db
+): Promise<string[]> {
+  const rows = await executor
+    .select({ role: userRoles.role })
+    .from(userRoles)
+    .where(eq(userRoles.userId, userId))
+    .orderBy(asc(userRoles.role));
+  return rows.map(row => row.role);
+}
+
+/**
+ * Assign a role to a user (no-op if already assigned).
+ * Call clearPermissionCache once the change has committed.
+ * @returns False if the role does not exist
+ */
+export async function assignRole(
+  userId: string,
+  role: string,
+  grantedBy: string,
+  executor: AuditTx | typeof db = db
+): Promise<boolean> {
+  const [existing] = await executor
+    .select({ name: adminRoles.name })
+    .from(adminRoles)
+    .where(eq(adminRoles.name, role));
+  if (!existing) {
+    return false;
+  }
+
+  await executor
+    .insert(userRoles)
+    .values({ userId, role, grantedBy })
+    .onConflictDoNothing();
+  return true;
+}
+
+/**
+ * Remove a role from a user.
+ * Call clearPermissionCache once the change has committed.
+ * @returns Whether the user had the role
+ */
+export async function revokeRole(
+  userId: string,
+  role: string,
+  executor: AuditTx | typeof db = db
+): Promise<boolean> {
+  const deleted = await executor
+    .delete(userRoles)
+    .where(and(eq(userRoles.userId, userId), eq(userRoles.role, role)))
+    .returning({ role: userRoles.role });
+  return deleted.length > 0;
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Purging of soft-deleted puzzle content
+ *
+ * Boards, dailies, challenges, technique examples and practices are
+ * soft-deleted: DELETE sets deleted_at, public queries skip those rows and
+ * admins can restore them. Rows deleted longer ago than the grace period
+ * (SOFT_DELETE_GRACE_DAYS, default 30) are removed for good by the purge
+ * job (db:purge-deleted).
+ */
+
+import { and, isNotNull, lt } from "drizzle-orm";
+import {
+  db,
+  boards,
+  dailies,
+  challenges,
+  techniqueExamples,
+  techniquePractices,
+} from "../db";
+
+/** Days a soft-deleted row can be restored before it is purged */
+export const DEFAULT_SOFT_DELETE_GRACE_DAYS = 30;
+
+/** Rows purged per table */
+export interface SoftDeletePurgeResult {
+  boards: number;
+  dailies: number;
+  challenges: number;
+  examples: number;
+  practices: number;
+}
+
+/**
+ * Permanently delete rows soft-deleted more than `graceDays` days ago.
+ * Purged boards leave NULL board_uuid/source_board_uuid references behind.
+ */
+export async function purgeSoftDeleted(
+  graceDays: number
+): Promise<SoftDeletePurgeResult> {
+  const cutoff = new Date(Date.now() - graceDays * 24 * 60 * 60 * 1000);
+
+  const practices = await db
+    .delete(techniquePractices)
+    .where(
+      and(
+        isNotNull(techniquePractices.deleted_at),
+        lt(techniquePractices.deleted_at, cutoff)
+      )
+    )
+    .returning({ uuid: techniquePractices.uuid });
+  const examples = await db
+    .delete(techniqueExamples)
+    .where(
+      and(
+        isNotNull(techniqueExamples.deleted_at),
+        lt(techniqueExamples.deleted_at, cutoff)
+      )
+    )
+    .returning({ uuid: techniqueExamples.uuid });
+  const purgedDailies = await db
+    .delete(dailies)
+    .where(and(isNotNull(dailies.deleted_at), lt(dailies.deleted_at, cutoff)))
+    .returning({ uuid: dailies.uuid });
+  const purgedChallenges = await db
+    .delete(challenges)
+    .where(
+      and(isNotNull(challenges.deleted_at), lt(challenges.deleted_at, cutoff))
+    )
+    .returning({ uuid: challenges.uuid });
+  const purgedBoards = await db
+    .delete(boards)
+    .where(and(isNotNull(boards.deleted_at), lt(boards.deleted_at, cutoff)))
+    .returning({ uuid: boards.uuid });
+
+  return {
+    boards: purgedBoards.length,
+    dailies: purgedDailies.length,
+    challenges: purgedChallenges.length,
+    examples: examples.length,
+    practices: practices.length,
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Solver response cache
+ *
+ * Responses of pure solver endpoints (solve, validate) are cached under a
+ * content-addressed key (see lib/solver-cache-key.ts) in two layers:
+ * - memory: a per-process LRU of SOLVER_CACHE_MAX_ENTRIES (default 5000)
+ * - postgres: the solver_cache table, shared by all instances; enabled with
+ *   SOLVER_CACHE_POSTGRES=true
+ *
+ * Entries expire after SOLVER_CACHE_TTL_MS (default 24 hours; 0 disables
+ * the cache). Concurrent misses for the same key share one solver call.
+ * Failures of the Postgres layer are logged and the layer is skipped.
+ *
+ * Invalidation clears this process's memory layer and the Postgres layer;
+ * the memory layers of other instances keep their entries until they
+ * expire.
+ */
+
+import { and, eq, gt, lte, type SQL } from "drizzle-orm";
+import { db, solverCache } from "../db";
+import { getEnv } from "../lib/env-helper";
+import { createLruCache } from "../lib/lru-cache";
+import { solverCacheKey } from "../lib/solver-cache-key";
+import { logger } from "../lib/logger";
+import {
+  metricsRegistry,
+  solverCacheEntries,
+  solverCacheRequestsTotal,
+} from "./metrics";
+import type { SolverResponse } from "./solver-proxy";
+import type { AuditTx } from "./audit";
+
+const SOLVER_CACHE_TTL_MS = parseInt(
+  getEnv("SOLVER_CACHE_TTL_MS", String(24 * 60 * 60 * 1000))!,
+  10
+);
+
+const SOLVER_CACHE_MAX_ENTRIES = parseInt(
+  getEnv("SOLVER_CACHE_MAX_ENTRIES", "5000")!,
+  10
+);
+
+const SOLVER_CACHE_POSTGRES = getEnv("SOLVER_CACHE_POSTGRES") === "true";
+
+interface CacheEntry {
+  endpoint: string;
+  original: string | null;
+  /** Serialized response; each reader parses its own copy */
+  json: string;
+}
+
+export interface SolverCacheFilter {
+  /** Only entries of this endpoint (e.g., "solve") */
+  endpoint?: string;
+  /** Only entries for this puzzle */
+  original?: string;
+}
+
+export interface SolverCacheInvalidation {
+  /** Entries deleted from this process's memory layer */
+  memory: number;
+  /** Entries deleted from the Postgres layer (0 when it is disabled) */
+  postgres: number;
+}
+
+const memory = createLruCache<CacheEntry>(SOLVER_CACHE_MAX_ENTRIES);
+
+/** Solver calls in progress, by cache key */
+const inflight = new Map<string, Promise<string>>();
+
+metricsRegistry.addCollector(() => {
+  solverCacheEntries.set(undefined, memory.size);
+});
+
+async function readPostgres(key: string, now: number): Promise<string | null> {
+  try {
+    const [row] = await db
+      .select({ response: solverCache.response })
+      .from(solverCache)
+      .where(
+        and(eq(solverCache.key, key), gt(solverCache.expiresAt, new Date(now)))
+      );
+    return row ? JSON.stringify(row.response) : null;
+  } catch (error) {
+    logger.warn("Solver cache read failed", { error });
+    return null;
+  }
+}
+
+async function writePostgres(
+  key: string,
+  entry: CacheEntry,
+  expiresAt: number
+): Promise<void> {
+  try {
+    const values = {
+      endpoint: entry.endpoint,
+      original: entry.original,
+      response: JSON.parse(entry.json) as unknown,
+      createdAt: new Date(),
+      expiresAt: new Date(expiresAt),
+    };
+    await db
+      .insert(solverCache)
+      .values({ key, ...values })
+      .onConflictDoUpdate({ target: solverCache.key, set: values });
+  } catch (error) {
+    logger.warn("Solver cache write failed", { error });
+  }
+}
+
+/**
+ * Look up a key in the Postgres layer, or call the solver and cache its
+ * response.
+ * @returns The serialized response
+ */
+async function load<T>(
+  key: string,
+  endpoint: string,
+  queryString: string,
+  callSolver: () => Promise<SolverResponse<T>>
+): Promise<string> {
+  const now = Date.now();
+  const original = new URLSearchParams(queryString).get("original");
+
+  if (SOLVER_CACHE_POSTGRES) {
+    const json = await readPostgres(key, now);
+    if (json !== null) {
+      solverCacheRequestsTotal.inc({ endpoint, result: "postgres_hit" });
+      memory.set(key, { endpoint, original, json }, now + SOLVER_CACHE_TTL_MS);
+      return json;
+    }
+  }
+
+  solverCacheRequestsTotal.inc({ endpoint, result: "miss" });
+  const entry: CacheEntry = {
+    endpoint,
+    original,
+    json: JSON.stringify(await callSolver()),
+  };
+  const expiresAt = Date.now() + SOLVER_CACHE_TTL_MS;
+  memory.set(key, entry, expiresAt);
+  if (SOLVER_CACHE_POSTGRES) {
+    await writePostgres(key, entry, expiresAt);
+  }
+  return entry.json;
+}
+
+/**
+ * Serve a pure solver request from the cache, calling the solver on a miss.
+ * Solver errors (thrown) are not cached; responses reporting an invalid
+ * puzzle are, as they are just as deterministic.
+ * @param endpoint - Solver endpoint (e.g., "solve")
+ * @param queryString - Encoded query parameters (the cache key source)
+ * @param callSolver - Makes the actual solver request
+ * @returns A copy of the response, safe to modify
+ */
+export async function withSolverCache<T>(
+  endpoint: string,
+  queryString: string,
+  callSolver: () => Promise<SolverResponse<T>>
+): Promise<SolverResponse<T>> {
+  if (SOLVER_CACHE_TTL_MS <= 0) {
+    return callSolver();
+  }
+
+  const key = solverCacheKey(endpoint, queryString);
+  const cached = memory.get(key, Date.now());
+  if (cached) {
+    solverCacheRequestsTotal.inc({ endpoint, result: "memory_hit" });
+    return JSON.parse(cached.json) as SolverResponse<T>;
+  }
+
+  let pending = inflight.get(key);
+  if (pending) {
+    solverCacheRequestsTotal.inc({ endpoint, result: "coalesced" });
+  } else {
+    pending = load(key, endpoint, queryString, callSolver).finally(() =>
+      inflight.delete(key)
+    );
+    inflight.set(key, pending);
+  }
+  return JSON.parse(await pending) as SolverResponse<T>;
+}
+
+/**
+ * Delete cached responses (all, or those matching the filter).
+ * @param executor - Database or transaction to delete Postgres rows with
+ */
+export async function invalidateSolverCache(
+  filter: SolverCacheFilter = {},
+  executor: AuditTx | typeof db = db
+): Promise<SolverCacheInvalidation> {
+  const memoryDeleted =
+    filter.endpoint === undefined && filter.original === undefined
+      ? memory.clear()
+      : memory.deleteWhere(
+          entry =>
+            (filter.endpoint === undefined ||
+              entry.endpoint === filter.endpoint) &&
+            (filter.original === undefined ||
+              entry.original === filter.original)
+        );
+
+  let postgresDeleted = 0;
+  if (SOLVER_CACHE_POSTGRES) {
+    const conditions: SQL[] = [];
+    if (filter.endpoint !== undefined) {
+      conditions.push(eq(solverCache.endpoint, filter.endpoint));
+    }
+    if (filter.original !== undefined) {
+      conditions.push(eq(solverCache.original, filter.original));
+    }
+    const deleted = await executor
+      .delete(solverCache)
+      .where(and(...conditions))
+      .returning({ key: solverCache.key });
+    postgresDeleted = deleted.length;
+  }
+
+  return { memory: memoryDeleted, postgres: postgresDeleted };
+}
+
+/**
+ * Delete expired rows of the Postgres layer.
+ * @returns Number of rows deleted
+ */
+export async function purgeExpiredSolverCache(): Promise<number> {
+  const deleted = await db
+    .delete(solverCache)
+    .where(lte(solverCache.expiresAt, new Date()))
+    .returning({ key: solverCache.key });
+  return deleted.length;
+}
@@ -3,71 +3,517 @@
  *
  * Shared helper for calling the external solver service.
  * Used by solver routes and practice routes.
+ *
+ * SOLVER_URL may list several solver instances (comma-separated); requests
+ * are spread over them round-robin and fail over between them:
+ * - Each instance has a circuit breaker: after SOLVER_CIRCUIT_FAILURES
+ *   consecutive failures (network errors, timeouts, 5xx) it is skipped for
+ *   SOLVER_CIRCUIT_COOLDOWN_MS. When every circuit is open, requests fail
+ *   immediately instead of waiting for a timeout.
+ * - Idempotent calls are retried up to SOLVER_RETRIES times on network
+ *   errors and 429/502/503/504, with jittered exponential backoff,
+ *   preferring an instance not yet tried
+ * - With SOLVER_HEDGE_DELAY_MS set, an idempotent call still unanswered
+ *   after that delay is also sent to another instance; the first answer
+ *   wins and the other request is cancelled
+ * - SOLVER_TIMEOUT_MS bounds the whole call, retries included
+ * - Requests carry the caller's X-Request-Id (from the log context)
  */
 
 import { getRequiredEnv, getEnv } from "../lib/env-helper";
+import { getLogContext, logger, redactUrl } from "../lib/logger";
+import { REQUEST_ID_HEADER } from "../middleware/requestContext";
+import { backoffDelay, type BackoffConfig } from "../lib/backoff";
+import {
+  CLOSED_CIRCUIT,
+  getCircuitStatus,
+  isRequestAllowed,
+  recordFailure,
+  recordSuccess,
+  type CircuitBreakerConfig,
+  type CircuitState,
+} from "../lib/circuit-breaker";
+import {
+  metricsRegistry,
+  solverCircuitOpen,
+  solverErrorsTotal,
+  solverHedgesTotal,
+  solverRequestDuration,
+  solverRetriesTotal,
+} from "./metrics";
+import { solverBodyToQueryString } from "../lib/solver-cache-key";
+import { withSolverCache } from "./solver-cache";
 import type { SolveData } from "@sudobility/sudojo_types";
 
-const SOLVER_URL = getRequiredEnv("SOLVER_URL");
+const SOLVER_URLS = getRequiredEnv("SOLVER_URL")
+  .split(",")
+  .map(url => url.trim())
+  .filter(Boolean);
 
-// Timeout for solver requests. Defaults to 60 seconds and can be overridden
-// with SOLVER_TIMEOUT_MS for environments that need a longer budget.
+// Timeout for a solver call, retries included. Defaults to 60 seconds and
+// can be overridden with SOLVER_TIMEOUT_MS for environments that need a
+// longer budget.
 const SOLVER_TIMEOUT_MS = parseInt(getEnv("SOLVER_TIMEOUT_MS", "60000")!, 10);
 
+const SOLVER_RETRIES = parseInt(getEnv("SOLVER_RETRIES", "2")!, 10);
+
+const SOLVER_BACKOFF: BackoffConfig = {
+  baseDelayMs: parseInt(getEnv("SOLVER_RETRY_BASE_DELAY_MS", "200")!, 10),
+  maxDelayMs: parseInt(getEnv("SOLVER_RETRY_MAX_DELAY_MS", "2000")!, 10),
+};
+
+const SOLVER_CIRCUIT: CircuitBreakerConfig = {
+  failureThreshold: parseInt(getEnv("SOLVER_CIRCUIT_FAILURES", "5")!, 10),
+  cooldownMs: parseInt(getEnv("SOLVER_CIRCUIT_COOLDOWN_MS", "30000")!, 10),
+};
+
+// 0 disables hedging
+const SOLVER_HEDGE_DELAY_MS = parseInt(
+  getEnv("SOLVER_HEDGE_DELAY_MS", "0")!,
+  10
+);
+
+/** Error statuses worth retrying (possibly on another instance) */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
 export interface SolverResponse<T> {
   success: boolean;
   error: { code: string; message: string } | null;
   data: T | null;
 }
 
-export async function proxySolverRequest<T>(
-  endpoint: string,
-  queryString: string
+/** Solver parameters sent as a JSON body (undefined values are left out) */
+export type SolverBody = Record<string, string | number | boolean | undefined>;
+
+/** How parameters reach the solver: query string (GET) or JSON body (POST) */
+export type SolverTransport = "query" | "body";
+
+export interface SolverRequestOptions {
+  /**
+   * Whether the request may be sent more than once (retries and hedging).
+   * Default: true, as every solver endpoint is a pure computation.
+   */
+  idempotent?: boolean;
+}
+
+/** One solver call: a GET with a query string or a POST with a JSON body */
+interface SolverCall {
+  endpoint: string;
+  queryString?: string;
+  body?: SolverBody;
+}
+
+interface SolverInstance {
+  url: string;
+  circuit: CircuitState;
+}
+
+const instances: SolverInstance[] = SOLVER_URLS.map(url => ({
+  url,
+  circuit: CLOSED_CIRCUIT,
+}));
+
+/** Index of the instance to try first on the next call (round-robin) */
+let nextInstance = 0;
+
+metricsRegistry.addCollector(() => {
+  const now = Date.now();
+  for (const instance of instances) {
+    const status = getCircuitStatus(instance.circuit, SOLVER_CIRCUIT, now);
+    solverCircuitOpen.set({ solver: instance.url }, status === "open" ? 1 : 0);
+  }
+});
+
+/** Failure of one attempt at a solver call */
+class SolverAttemptError extends Error {
+  constructor(
+    message: string,
+    /** Whether another attempt may succeed */
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "SolverAttemptError";
+  }
+}
+
+/**
+ * Pick the next instance whose circuit is not open, in round-robin order.
+ * Instances not yet tried for this call come first; tried ones are used
+ * only when `allowTried` is set.
+ */
+function pickInstance(
+  tried: Set<SolverInstance>,
+  allowTried: boolean
+): SolverInstance | null {
+  const now = Date.now();
+  let fallback: SolverInstance | null = null;
+  for (let i = 0; i < instances.length; i++) {
+    const index = (nextInstance + i) % instances.length;
+    const instance = instances[index]!;
+    if (!isRequestAllowed(instance.circuit, SOLVER_CIRCUIT, now)) {
+      continue;
+    }
+    if (!tried.has(instance)) {
+      nextInstance = (index + 1) % instances.length;
+      return instance;
+    }
+    fallback ??= instance;
+  }
+  return allowTried ? fallback : null;
+}
+
+/**
+ * Headers sent with every solver request: the current request ID, so the
+ * solver's logs can be correlated with ours.
+ */
+function forwardedHeaders(): Record<string, string> {
+  const { requestId } = getLogContext();
+  return typeof requestId === "string"
+    ? { [REQUEST_ID_HEADER]: requestId }
+    : {};
+}
+
+/**
+ * Send one request to one instance, updating its circuit.
+ * @param cancel - Aborts the request without counting it as a failure
+ *   (a hedged request that lost the race)
+ */
+async function sendToInstance<T>(
+  instance: SolverInstance,
+  call: SolverCall,
+  timeoutMs: number,
+  cancel?: AbortSignal
 ): Promise<SolverResponse<T>> {
-  const url = `${SOLVER_URL}/api/${endpoint}${queryString ? `?${queryString}` : ""}`;
-  console.log(`[proxySolverRequest] ${url}`);
+  const { endpoint, queryString, body } = call;
+  const url = `${instance.url}/api/${endpoint}${queryString ? `?${queryString}` : ""}`;
+  logger.debug("Solver request", {
+    endpoint,
+    method: body ? "POST" : "GET",
+    url: redactUrl(url),
+  });
   const startedAt = Date.now();
 
-  // Create abort controller for timeout
+  // Create abort controller for timeout and cancellation
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), SOLVER_TIMEOUT_MS);
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const onCancel = () => controller.abort();
+  cancel?.addEventListener("abort", onCancel);
 
+  let response: Response;
   try {
-    const response = await fetch(url, { signal: controller.signal });
+    response = await fetch(
+      url,
+      body
+        ? {
+            method: "POST",
+            headers: {
+              ...forwardedHeaders(),
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(body),
+            signal: controller.signal,
+          }
+        : { headers: forwardedHeaders(), signal: controller.signal }
+    );
+  } catch (err) {
+    if (cancel?.aborted) {
+      throw new SolverAttemptError("Solver request cancelled", false);
+    }
+    const elapsedMs = Date.now() - startedAt;
+    instance.circuit = recordFailure(
+      instance.circuit,
+      SOLVER_CIRCUIT,
+      Date.now()
+    );
+    if (err instanceof Error && err.name === "AbortError") {
+      solverErrorsTotal.inc({ endpoint, reason: "timeout" });
+      logger.warn("Solver request timed out", {
+        endpoint,
+        solver: instance.url,
+        elapsedMs,
+        timeoutMs,
+      });
+      // The call's time budget is spent, so this is never retried
+      throw new SolverAttemptError(
+        `Solver service timeout after ${Math.round(elapsedMs / 1000)}s`,
+        false
+      );
+    }
+    solverErrorsTotal.inc({ endpoint, reason: "network" });
+    logger.warn("Solver request failed", {
+      endpoint,
+      solver: instance.url,
+      elapsedMs,
+      error: err,
+    });
+    throw new SolverAttemptError(
+      `Solver service unreachable: ${err instanceof Error ? err.message : String(err)}`,
+      true
+    );
+  } finally {
     clearTimeout(timeoutId);
+    cancel?.removeEventListener("abort", onCancel);
+  }
 
-    if (!response.ok) {
-      console.error(
-        `[proxySolverRequest] Solver returned ${response.status} for ${endpoint}`
+  if (!response.ok) {
+    // 4xx means the instance is up (429 says nothing about its health)
+    if (response.status >= 500) {
+      instance.circuit = recordFailure(
+        instance.circuit,
+        SOLVER_CIRCUIT,
+        Date.now()
       );
-      throw new Error(`Solver service error: ${response.status}`);
+    } else if (response.status !== 429) {
+      instance.circuit = recordSuccess();
     }
+    solverErrorsTotal.inc({ endpoint, reason: "status" });
+    logger.warn("Solver returned an error status", {
+      endpoint,
+      solver: instance.url,
+      solverStatus: response.status,
+      elapsedMs: Date.now() - startedAt,
+    });
+    throw new SolverAttemptError(
+      `Solver service error: ${response.status}`,
+      RETRYABLE_STATUSES.has(response.status)
+    );
+  }
 
-    return response.json() as Promise<SolverResponse<T>>;
-  } catch (err) {
-    clearTimeout(timeoutId);
-    const elapsedMs = Date.now() - startedAt;
-    if (err instanceof Error && err.name === "AbortError") {
-      console.error(
-        `[proxySolverRequest] Solver request timed out after ${elapsedMs}ms (configured ${SOLVER_TIMEOUT_MS}ms) for ${endpoint}`
+  instance.circuit = recordSuccess();
+  return response.json() as Promise<SolverResponse<T>>;
+}
+
+/**
+ * One attempt at a solver call. When hedging, an instance still silent
+ * after SOLVER_HEDGE_DELAY_MS gets company from an untried instance; the
+ * attempt resolves with the first answer and rejects once all have failed.
+ */
+function attempt<T>(
+  call: SolverCall,
+  deadline: number,
+  tried: Set<SolverInstance>,
+  hedge: boolean
+): Promise<SolverResponse<T>> {
+  const { endpoint } = call;
+  const primary = pickInstance(tried, true);
+  if (!primary) {
+    solverErrorsTotal.inc({ endpoint, reason: "circuit_open" });
+    return Promise.reject(
+      new SolverAttemptError("Solver service unavailable: circuit open", false)
+    );
+  }
+  tried.add(primary);
+
+  if (!hedge || SOLVER_HEDGE_DELAY_MS <= 0 || instances.length < 2) {
+    return sendToInstance<T>(primary, call, deadline - Date.now());
+  }
+
+  return new Promise((resolve, reject) => {
+    const cancel = new AbortController();
+    let pending = 0;
+    let settled = false;
+
+    const settle = () => {
+      settled = true;
+      clearTimeout(hedgeTimer);
+      cancel.abort();
+    };
+
+    const launch = (instance: SolverInstance) => {
+      pending += 1;
+      sendToInstance<T>(
+        instance,
+        call,
+        deadline - Date.now(),
+        cancel.signal
+      ).then(
+        response => {
+          if (!settled) {
+            settle();
+            resolve(response);
+          }
+        },
+        error => {
+          pending -= 1;
+          if (!settled && pending === 0) {
+            settle();
+            reject(error);
+          }
+        }
       );
+    };
+
+    const hedgeTimer = setTimeout(() => {
+      const backup = pickInstance(tried, false);
+      if (backup && !settled) {
+        tried.add(backup);
+        solverHedgesTotal.inc({ endpoint });
+        launch(backup);
+      }
+    }, SOLVER_HEDGE_DELAY_MS);
+
+    launch(primary);
+  });
+}
+
+/**
+ * Make a solver call (see the file overview for retries, failover,
+ * circuit breaking and hedging).
+ * @throws Error when the solver is unreachable, times out, returns an
+ *   error status or every circuit is open
+ */
+async function requestSolver<T>(
+  call: SolverCall,
+  options: SolverRequestOptions
+): Promise<SolverResponse<T>> {
+  const { endpoint } = call;
+  const idempotent = options.idempotent ?? true;
+  const maxRetries = idempotent ? SOLVER_RETRIES : 0;
+  const deadline = Date.now() + SOLVER_TIMEOUT_MS;
+  const tried = new Set<SolverInstance>();
+  const endTimer = solverRequestDuration.startTimer();
+
+  for (let retry = 1; ; retry++) {
+    try {
+      const response = await attempt<T>(call, deadline, tried, idempotent);
+      endTimer({ endpoint });
+      return response;
+    } catch (err) {
+      const retryable = err instanceof SolverAttemptError && err.retryable;
+      const delayMs = backoffDelay(retry, SOLVER_BACKOFF);
+      if (
+        !retryable ||
+        retry > maxRetries ||
+        Date.now() + delayMs >= deadline
+      ) {
+        endTimer({ endpoint });
+        logger.error("Solver request failed", {
+          endpoint,
+          attempts: retry,
+          error: err,
+        });
+        throw err;
+      }
+      solverRetriesTotal.inc({ endpoint });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Check that the solver answers, for readiness probes. Sends one GET to
+ * each instance, without retries, hedging, caching or circuit breaking, so
+ * probes neither pile up nor affect real traffic.
+ * @param signal - Aborts the requests (e.g., AbortSignal.timeout)
+ * @throws Error when no instance answers with a 2xx status
+ */
+export async function probeSolver(
+  endpoint: string,
+  queryString: string,
+  signal: AbortSignal
+): Promise<void> {
+  try {
+    await Promise.any(
+      instances.map(async instance => {
+        const response = await fetch(
+          `${instance.url}/api/${endpoint}?${queryString}`,
+          { headers: forwardedHeaders(), signal }
+        );
+        await response.body?.cancel();
+        if (!response.ok) {
+          throw new Error(`Solver returned ${response.status}`);
+        }
+      })
+    );
+  } catch (error) {
+    if (error instanceof AggregateError) {
       throw new Error(
-        `Solver service timeout after ${Math.round(elapsedMs / 1000)}s`
+        error.errors
+          .map(cause => (cause instanceof Error ? cause.message : cause))
+          .join("; ")
       );
     }
-    console.error(`[proxySolverRequest] Failed to fetch ${endpoint}:`, err);
-    throw err;
+    throw error;
   }
 }
 
-/** Call the solver with given params */
+/**
+ * Call a solver endpoint with a GET query string.
+ * @param endpoint - Solver endpoint under /api (e.g., "solve")
+ * @param queryString - Encoded query parameters
+ * @throws Error when the solver call fails (see requestSolver)
+ */
+export function proxySolverRequest<T>(
+  endpoint: string,
+  queryString: string,
+  options: SolverRequestOptions = {}
+): Promise<SolverResponse<T>> {
+  return requestSolver<T>({ endpoint, queryString }, options);
+}
+
+/**
+ * Call a solver endpoint with a JSON POST body, keeping puzzles out of
+ * URLs (and so out of access logs and URL length limits).
+ * @param endpoint - Solver endpoint under /api (e.g., "solve")
+ * @throws Error when the solver call fails (see requestSolver)
+ */
+export function proxySolverPost<T>(
+  endpoint: string,
+  body: SolverBody,
+  options: SolverRequestOptions = {}
+): Promise<SolverResponse<T>> {
+  return requestSolver<T>({ endpoint, body }, options);
+}
+
+/**
+ * Call a pure solver endpoint (solve, validate) through the solver cache.
+ * @see solver-cache.ts
+ */
+export function cachedSolverRequest<T>(
+  endpoint: string,
+  queryString: string
+): Promise<SolverResponse<T>> {
+  return withSolverCache(endpoint, queryString, () =>
+    proxySolverRequest<T>(endpoint, queryString)
+  );
+}
+
+/**
+ * POST variant of cachedSolverRequest. Shares cache entries with GET
+ * requests carrying the same parameters.
+ */
+export function cachedSolverPost<T>(
+  endpoint: string,
+  body: SolverBody
+): Promise<SolverResponse<T>> {
+  return withSolverCache(endpoint, solverBodyToQueryString(body), () =>
+    proxySolverPost<T>(endpoint, body)
+  );
+}
+
+/**
+ * Call the solver with given params (cached)
+ * @param transport - Send them as a query string (GET, default) or as a
+ *   JSON body (POST)
+ */
 export async function callSolver(
   original: string,
   user: string,
   autopencilmarks: string,
   pencilmarks: string,
-  techniques?: string
+  techniques?: string,
+  transport: SolverTransport = "query"
 ): Promise<SolverResponse<SolveData>> {
+  if (transport === "body") {
+    return cachedSolverPost<SolveData>("solve", {
+      original,
+      user,
+      autopencilmarks: autopencilmarks.toLowerCase() === "true",
+      pencilmarks,
+      techniques: techniques || undefined,
+    });
+  }
+
   const params = new URLSearchParams();
   params.set("original", original);
   params.set("user", user);
@@ -76,5 +522,5 @@ export async function callSolver(
   if (techniques) {
     params.set("techniques", techniques);
   }
-  return proxySolverRequest<SolveData>("solve", params.toString());
+  return cachedSolverRequest<SolveData>("solve", params.toString());
 }
@@ -232,4 +232,62 @@ describe("Boards API", () => {
       expect(getRes.status).toBe(404);
     });
   });
+
+  describe("POST /api/v1/boards/:uuid/restore", () => {
+    it("should restore a deleted board", async () => {
+      const createRes = await app.request("/api/v1/boards", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${API_TOKEN}`,
+        },
+        body: JSON.stringify({
+          board: sampleBoard,
+          solution: sampleSolution,
+        }),
+      });
+      const created = (await createRes.json()) as ApiResponse<BoardData>;
+      const uuid = created.data!.uuid;
+
+      await app.request(`/api/v1/boards/${uuid}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${API_TOKEN}` },
+      });
+
+      const res = await app.request(`/api/v1/boards/${uuid}/restore`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${API_TOKEN}` },
+      });
+      expect(res.status).toBe(200);
+
+      const getRes = await app.request(`/api/v1/boards/${uuid}`, {
+        headers: getAuthHeaders(),
+      });
+      expect(getRes.status).toBe(200);
+    });
+
+    it("should return 404 for a board that is not deleted", async () => {
+      const createRes = await app.request("/api/v1/boards", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${API_TOKEN}`,
+        },
+        body: JSON.stringify({
+          board: sampleBoard,
+          solution: sampleSolution,
+        }),
+      });
+      const created = (await createRes.json()) as ApiResponse<BoardData>;
+
+      const res = await app.request(
+        `/api/v1/boards/${created.data!.uuid}/restore`,
+        {
+          method: "POST",
+          headers: { Authorization: `Bearer ${API_TOKEN}` },
+        }
+      );
+      expect(res.status).toBe(404);
+    });
+  });
 });
@@ -0,0 +1,307 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from "bun:test";
+import { and, eq, like } from "drizzle-orm";
+import { db, pointTransactions, userStats } from "../src/db";
+import {
+  ADMIN_CREDIT,
+  ADMIN_DEBIT,
+  LEDGER_RECONCILIATION,
+  adjustPoints,
+  lockUserStats,
+  postPoints,
+  reconcileLedgers,
+  verifyUserLedger,
+  withLedger,
+} from "../src/services/ledger";
+import { setupTestDatabase, closeTestDatabase } from "./setup";
+
+const USER_PREFIX = "ledger-test-";
+const USER_ID = `${USER_PREFIX}user`;
+
+async function clearLedgerUsers() {
+  await db
+    .delete(pointTransactions)
+    .where(like(pointTransactions.userId, `${USER_PREFIX}%`));
+  await db.delete(userStats).where(like(userStats.userId, `${USER_PREFIX}%`));
+}
+
+async function getTotal(userId: string): Promise<number | undefined> {
+  const rows = await db
+    .select({ totalPoints: userStats.totalPoints })
+    .from(userStats)
+    .where(eq(userStats.userId, userId));
+  return rows[0]?.totalPoints;
+}
+
+async function getTransactions(userId: string, transactionType?: string) {
+  return db
+    .select()
+    .from(pointTransactions)
+    .where(
+      transactionType
+        ? and(
+            eq(pointTransactions.userId, userId),
+            eq(pointTransactions.transactionType, transactionType)
+          )
+        : eq(pointTransactions.userId, userId)
+    );
+}
+
+describe("Point Ledger", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearLedgerUsers();
+  });
+
+  afterAll(async () => {
+    await clearLedgerUsers();
+    await closeTestDatabase();
+  });
+
+  describe("postPoints", () => {
+    it("should add points to the total and record a transaction", async () => {
+      const total = await withLedger(tx =>
+        postPoints(tx, {
+          userId: USER_ID,
+          points: 120,
+          transactionType: "puzzle_complete",
+          metadata: { level: 3 },
+        })
+      );
+
+      expect(total).toBe(120);
+      expect(await getTotal(USER_ID)).toBe(120);
+      const transactions = await getTransactions(USER_ID);
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]!.points).toBe(120);
+      expect(transactions[0]!.metadata).toEqual({ level: 3 });
+    });
+
+    it("should update stats in the same statement", async () => {
+      await withLedger(tx =>
+        postPoints(
+          tx,
+          { userId: USER_ID, points: 50, transactionType: "puzzle_complete" },
+          { gamesCompleted: 1, userLevel: 2 }
+        )
+      );
+
+      const rows = await db
+        .select()
+        .from(userStats)
+        .where(eq(userStats.userId, USER_ID));
+      expect(rows[0]!.gamesCompleted).toBe(1);
+      expect(rows[0]!.userLevel).toBe(2);
+    });
+
+    it("should keep the total equal to the transaction sum under concurrent posts", async () => {
+      await Promise.all(
+        [10, 20, 30, 40, 50].map(points =>
+          withLedger(tx =>
+            postPoints(tx, {
+              userId: USER_ID,
+              points,
+              transactionType: "puzzle_complete",
+            })
+          )
+        )
+      );
+
+      const verification = await verifyUserLedger(USER_ID);
+      expect(verification.storedTotal).toBe(150);
+      expect(verification.transactionTotal).toBe(150);
+      expect(verification.consistent).toBe(true);
+    });
+
+    it("should write nothing when the ledger transaction rolls back", async () => {
+      await expect(
+        withLedger(async tx => {
+          await postPoints(tx, {
+            userId: USER_ID,
+            points: 75,
+            transactionType: "puzzle_complete",
+          });
+          throw new Error("Badge evaluation failed");
+        })
+      ).rejects.toThrow("Badge evaluation failed");
+
+      expect(await getTotal(USER_ID)).toBeUndefined();
+      expect(await getTransactions(USER_ID)).toHaveLength(0);
+    });
+  });
+
+  describe("lockUserStats", () => {
+    it("should create an empty stats row for a new user", async () => {
+      const stats = await withLedger(tx => lockUserStats(tx, USER_ID));
+
+      expect(stats.userId).toBe(USER_ID);
+      expect(stats.totalPoints).toBe(0);
+      expect(await getTotal(USER_ID)).toBe(0);
+    });
+  });
+
+  describe("adjustPoints", () => {
+    it("should post a credit as admin_credit", async () => {
+      const total = await adjustPoints({
+        userId: USER_ID,
+        points: 200,
+        reason: "Compensation for outage",
+        adjustedBy: "admin-1",
+      });
+
+      expect(total).toBe(200);
+      const credits = await getTransactions(USER_ID, ADMIN_CREDIT);
+      expect(credits).toHaveLength(1);
+      expect(credits[0]!.metadata).toEqual({
+        reason: "Compensation for outage",
+        adjustedBy: "admin-1",
+      });
+    });
+
+    it("should post a debit within the total as admin_debit", async () => {
+      await adjustPoints({
+        userId: USER_ID,
+        points: 100,
+        reason: "Credit",
+        adjustedBy: "admin-1",
+      });
+
+      const total = await adjustPoints({
+        userId: USER_ID,
+        points: -100,
+        reason: "Revert duplicate credit",
+        adjustedBy: "admin-1",
+      });
+
+      expect(total).toBe(0);
+      expect(await getTransactions(USER_ID, ADMIN_DEBIT)).toHaveLength(1);
+      expect((await verifyUserLedger(USER_ID)).consistent).toBe(true);
+    });
+
+    it("should refuse a debit that would make the total negative", async () => {
+      await adjustPoints({
+        userId: USER_ID,
+        points: 30,
+        reason: "Credit",
+        adjustedBy: "admin-1",
+      });
+
+      const total = await adjustPoints({
+        userId: USER_ID,
+        points: -31,
+        reason: "Too large",
+        adjustedBy: "admin-1",
+      });
+
+      expect(total).toBeNull();
+      expect(await getTotal(USER_ID)).toBe(30);
+      expect(await getTransactions(USER_ID, ADMIN_DEBIT)).toHaveLength(0);
+    });
+  });
+
+  describe("reconcileLedgers", () => {
+    const DRIFTED_USER_ID = `${USER_PREFIX}drifted`;
+
+    beforeEach(async () => {
+      // Ledger holds 100 points but the stored total was bumped to 125
+      await withLedger(tx =>
+        postPoints(tx, {
+          userId: DRIFTED_USER_ID,
+          points: 100,
+          transactionType: "puzzle_complete",
+        })
+      );
+      await db
+        .update(userStats)
+        .set({ totalPoints: 125 })
+        .where(eq(userStats.userId, DRIFTED_USER_ID));
+    });
+
+    it("should report a drifted user without posting when not applied", async () => {
+      const report = await reconcileLedgers({
+        apply: false,
+        reconciledBy: "admin-1",
+      });
+
+      expect(report.applied).toBe(false);
+      const discrepancy = report.discrepancies.find(
+        d => d.userId === DRIFTED_USER_ID
+      );
+      expect(discrepancy).toEqual({
+        userId: DRIFTED_USER_ID,
+        storedTotal: 125,
+        transactionTotal: 100,
+        consistent: false,
+      });
+      expect(
+        await getTransactions(DRIFTED_USER_ID, LEDGER_RECONCILIATION)
+      ).toHaveLength(0);
+    });
+
+    it("should post the difference as a ledger_reconciliation transaction", async () => {
+      await reconcileLedgers({ apply: true, reconciledBy: "admin-1" });
+
+      const corrections = await getTransactions(
+        DRIFTED_USER_ID,
+        LEDGER_RECONCILIATION
+      );
+      expect(corrections).toHaveLength(1);
+      expect(corrections[0]!.points).toBe(25);
+      expect(corrections[0]!.metadata).toEqual({
+        storedTotal: 125,
+        transactionTotal: 100,
+        reconciledBy: "admin-1",
+      });
+
+      // The stored total is what the user sees and stays unchanged
+      const verification = await verifyUserLedger(DRIFTED_USER_ID);
+      expect(verification.storedTotal).toBe(125);
+      expect(verification.consistent).toBe(true);
+    });
+
+    it("should post a negative correction when the stored total is lower", async () => {
+      await db
+        .update(userStats)
+        .set({ totalPoints: 60 })
+        .where(eq(userStats.userId, DRIFTED_USER_ID));
+
+      await reconcileLedgers({ apply: true, reconciledBy: "admin-1" });
+
+      const corrections = await getTransactions(
+        DRIFTED_USER_ID,
+        LEDGER_RECONCILIATION
+      );
+      expect(corrections).toHaveLength(1);
+      expect(corrections[0]!.points).toBe(-40);
+      expect((await verifyUserLedger(DRIFTED_USER_ID)).consistent).toBe(true);
+    });
+
+    it("should leave consistent users alone", async () => {
+      await adjustPoints({
+        userId: USER_ID,
+        points: 10,
+        reason: "Credit",
+        adjustedBy: "admin-1",
+      });
+
+      const report = await reconcileLedgers({
+        apply: true,
+        reconciledBy: "admin-1",
+      });
+
+      expect(report.discrepancies.map(d => d.userId)).not.toContain(USER_ID);
+      expect(
+        await getTransactions(USER_ID, LEDGER_RECONCILIATION)
+      ).toHaveLength(0);
+    });
+  });
+});
@@ -12,7 +12,6 @@ if (!dbUrl.includes("_test")) {
 import { mock } from "bun:test";
 import {
   db,
-  initDatabase,
   levels,
   techniques,
   learning,
@@ -20,7 +19,10 @@ import {
   dailies,
   challenges,
   accessLogs,
+  accessCounters,
+  adminAuditLog,
 } from "../src/db";
+import { migrate } from "../src/db/migrator";
 
 export const API_TOKEN = "dev-secret-token-12345";
 export const TEST_FIREBASE_TOKEN = "test-firebase-token";
@@ -81,9 +83,11 @@ mock.module("../src/services/revenuecat", () => ({
 }));
 
 export async function setupTestDatabase() {
-  await initDatabase();
+  await migrate();
   // Clean up tables for fresh test runs
   await db.delete(accessLogs);
+  await db.delete(accessCounters);
+  await db.delete(adminAuditLog);
   await db.delete(learning);
   await db.delete(techniques);
   await db.delete(dailies);
@@ -94,6 +98,8 @@ export async function setupTestDatabase() {
 
 export async function cleanupTestDatabase() {
   await db.delete(accessLogs);
+  await db.delete(accessCounters);
+  await db.delete(adminAuditLog);
   await db.delete(learning);
   await db.delete(techniques);
   await db.delete(dailies);
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import {
+  API_KEY_PREFIX,
+  API_KEY_SCOPES,
+  generateApiKey,
+  hashApiKey,
+} from "../../src/lib/api-keys";
+
+describe("api keys", () => {
+  describe("generateApiKey", () => {
+    it("should generate distinct prefixed keys", () => {
+      const first = generateApiKey();
+      const second = generateApiKey();
+      expect(first.key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(first.key).not.toBe(second.key);
+    });
+
+    it("should return the hash and display prefix of the key", () => {
+      const { key, hash, prefix } = generateApiKey();
+      expect(hash).toBe(hashApiKey(key));
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(key.startsWith(prefix)).toBe(true);
+      expect(prefix.length).toBeLessThanOrEqual(16);
+    });
+  });
+
+  it("should offer read and write scopes", () => {
+    expect(API_KEY_SCOPES).toContain("boards:write");
+    expect(API_KEY_SCOPES).toContain("solver:read");
+  });
+});
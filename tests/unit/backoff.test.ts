@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { backoffDelay, type BackoffConfig } from "../../src/lib/backoff";
+
+const config: BackoffConfig = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+describe("backoffDelay", () => {
+  it("should double the ceiling with each retry", () => {
+    const max = () => 0.999999;
+    expect(backoffDelay(1, config, max)).toBe(100);
+    expect(backoffDelay(2, config, max)).toBe(200);
+    expect(backoffDelay(3, config, max)).toBe(400);
+  });
+
+  it("should cap the ceiling at maxDelayMs", () => {
+    expect(backoffDelay(10, config, () => 0.999999)).toBe(1000);
+  });
+
+  it("should draw the delay uniformly below the ceiling", () => {
+    expect(backoffDelay(2, config, () => 0)).toBe(0);
+    expect(backoffDelay(2, config, () => 0.5)).toBe(100);
+  });
+
+  it("should stay within bounds with real randomness", () => {
+    for (let retry = 1; retry <= 8; retry++) {
+      const delay = backoffDelay(retry, config);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(1000);
+    }
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import {
+  isRuleSatisfied,
+  resolveBadgeRule,
+  type BadgeProgress,
+} from "../../src/lib/badge-rules";
+
+function progress(overrides: Partial<BadgeProgress> = {}): BadgeProgress {
+  return {
+    totalPoints: 0,
+    gamesCompleted: 0,
+    currentStreak: 0,
+    hintFreeStreak: 0,
+    techniqueSolves: new Map(),
+    ...overrides,
+  };
+}
+
+const game = {
+  level: 3,
+  hintUsed: false,
+  perfectPlay: true,
+  verifiedSeconds: 240,
+};
+
+describe("badge rules", () => {
+  describe("resolveBadgeRule", () => {
+    it("should prefer the declared rule", () => {
+      const rule = { type: "points_threshold", points: 1000 } as const;
+      expect(
+        resolveBadgeRule({
+          badgeType: "games_played",
+          requirementValue: 5,
+          rule,
+        })
+      ).toBe(rule);
+    });
+
+    it("should derive rules for legacy badge types", () => {
+      expect(
+        resolveBadgeRule({
+          badgeType: "level_mastery",
+          requirementValue: 4,
+          rule: null,
+        })
+      ).toEqual({ type: "level_perfect", level: 4 });
+      expect(
+        resolveBadgeRule({
+          badgeType: "games_played",
+          requirementValue: 100,
+          rule: null,
+        })
+      ).toEqual({ type: "games_completed", count: 100 });
+      expect(
+        resolveBadgeRule({
+          badgeType: "daily_streak",
+          requirementValue: 7,
+          rule: null,
+        })
+      ).toEqual({ type: "daily_streak", days: 7 });
+    });
+
+    it("should return null for badges without a rule", () => {
+      expect(
+        resolveBadgeRule({
+          badgeType: "special",
+          requirementValue: 1,
+          rule: null,
+        })
+      ).toBeNull();
+      expect(
+        resolveBadgeRule({
+          badgeType: "games_played",
+          requirementValue: null,
+          rule: null,
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe("isRuleSatisfied", () => {
+    it("should check thresholds", () => {
+      const p = progress({
+        totalPoints: 500,
+        gamesCompleted: 10,
+        currentStreak: 7,
+        hintFreeStreak: 2,
+      });
+      expect(
+        isRuleSatisfied({ type: "points_threshold", points: 500 }, p)
+      ).toBe(true);
+      expect(
+        isRuleSatisfied({ type: "points_threshold", points: 501 }, p)
+      ).toBe(false);
+      expect(isRuleSatisfied({ type: "games_completed", count: 10 }, p)).toBe(
+        true
+      );
+      expect(isRuleSatisfied({ type: "daily_streak", days: 14 }, p)).toBe(
+        false
+      );
+      expect(isRuleSatisfied({ type: "hint_free_streak", count: 2 }, p)).toBe(
+        true
+      );
+    });
+
+    it("should require a perfect game on the level for level_perfect", () => {
+      const rule = { type: "level_perfect", level: 3 } as const;
+      expect(isRuleSatisfied(rule, progress({ game }))).toBe(true);
+      expect(
+        isRuleSatisfied(
+          rule,
+          progress({ game: { ...game, perfectPlay: false } })
+        )
+      ).toBe(false);
+      expect(
+        isRuleSatisfied(rule, progress({ game: { ...game, level: 4 } }))
+      ).toBe(false);
+      expect(isRuleSatisfied(rule, progress())).toBe(false);
+    });
+
+    it("should require a fast enough game on the level for solve_time", () => {
+      expect(
+        isRuleSatisfied(
+          { type: "solve_time", level: 3, seconds: 300 },
+          progress({ game })
+        )
+      ).toBe(true);
+      expect(
+        isRuleSatisfied(
+          { type: "solve_time", level: 3, seconds: 240 },
+          progress({ game })
+        )
+      ).toBe(false);
+      expect(
+        isRuleSatisfied(
+          { type: "solve_time", level: 2, seconds: 300 },
+          progress({ game })
+        )
+      ).toBe(false);
+    });
+
+    it("should count technique solves for technique_mastery", () => {
+      const rule = {
+        type: "technique_mastery",
+        technique: 5,
+        count: 3,
+      } as const;
+      expect(
+        isRuleSatisfied(rule, progress({ techniqueSolves: new Map([[5, 3]]) }))
+      ).toBe(true);
+      expect(
+        isRuleSatisfied(rule, progress({ techniqueSolves: new Map([[5, 2]]) }))
+      ).toBe(false);
+      expect(isRuleSatisfied(rule, progress())).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  CLOSED_CIRCUIT,
+  getCircuitStatus,
+  isRequestAllowed,
+  recordFailure,
+  recordSuccess,
+  type CircuitBreakerConfig,
+  type CircuitState,
+} from "../../src/lib/circuit-breaker";
+
+const config: CircuitBreakerConfig = { failureThreshold: 3, cooldownMs: 1000 };
+
+function fail(state: CircuitState, times: number, now: number): CircuitState {
+  for (let i = 0; i < times; i++) {
+    state = recordFailure(state, config, now);
+  }
+  return state;
+}
+
+describe("circuit breaker", () => {
+  it("should start closed", () => {
+    expect(getCircuitStatus(CLOSED_CIRCUIT, config, 0)).toBe("closed");
+    expect(isRequestAllowed(CLOSED_CIRCUIT, config, 0)).toBe(true);
+  });
+
+  it("should stay closed below the failure threshold", () => {
+    const state = fail(CLOSED_CIRCUIT, 2, 0);
+    expect(state.consecutiveFailures).toBe(2);
+    expect(getCircuitStatus(state, config, 0)).toBe("closed");
+  });
+
+  it("should open at the failure threshold and reject requests", () => {
+    const state = fail(CLOSED_CIRCUIT, 3, 500);
+    expect(state.openedAt).toBe(500);
+    expect(getCircuitStatus(state, config, 1499)).toBe("open");
+    expect(isRequestAllowed(state, config, 1499)).toBe(false);
+  });
+
+  it("should become half-open after the cooldown", () => {
+    const state = fail(CLOSED_CIRCUIT, 3, 0);
+    expect(getCircuitStatus(state, config, 1000)).toBe("half_open");
+    expect(isRequestAllowed(state, config, 1000)).toBe(true);
+  });
+
+  it("should reopen on a failure while half-open", () => {
+    let state = fail(CLOSED_CIRCUIT, 3, 0);
+    state = recordFailure(state, config, 1200);
+    expect(state.openedAt).toBe(1200);
+    expect(getCircuitStatus(state, config, 1500)).toBe("open");
+  });
+
+  it("should keep the cooldown for late failures while open", () => {
+    let state = fail(CLOSED_CIRCUIT, 3, 0);
+    state = recordFailure(state, config, 600);
+    expect(state.openedAt).toBe(0);
+  });
+
+  it("should close on success", () => {
+    const state = fail(CLOSED_CIRCUIT, 3, 0);
+    const closed = recordSuccess();
+    expect(getCircuitStatus(closed, config, 1000)).toBe("closed");
+    expect(closed.consecutiveFailures).toBe(0);
+    expect(state.consecutiveFailures).toBe(3);
+  });
+
+  it("should reset the failure count on success", () => {
+    let state = fail(CLOSED_CIRCUIT, 2, 0);
+    state = recordSuccess();
+    state = fail(state, 2, 0);
+    expect(getCircuitStatus(state, config, 0)).toBe("closed");
+  });
+});
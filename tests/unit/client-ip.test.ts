@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { resolveClientIp } from "../../src/lib/client-ip";
+
+describe("resolveClientIp", () => {
+  it("should use the socket address without trusted proxies", () => {
+    expect(resolveClientIp("1.1.1.1", "10.0.0.1", 0)).toBe("10.0.0.1");
+  });
+
+  it("should use the entry appended by the trusted proxy", () => {
+    expect(resolveClientIp("203.0.113.7", "10.0.0.1", 1)).toBe("203.0.113.7");
+  });
+
+  it("should count trusted proxies from the right", () => {
+    expect(resolveClientIp("203.0.113.7, 10.0.0.2", "10.0.0.1", 2)).toBe(
+      "203.0.113.7"
+    );
+  });
+
+  it("should ignore spoofed entries, keeping the same quota subject", () => {
+    const genuine = resolveClientIp("203.0.113.7", "10.0.0.1", 1);
+    expect(resolveClientIp("1.2.3.4, 203.0.113.7", "10.0.0.1", 1)).toBe(
+      genuine
+    );
+    expect(resolveClientIp("5.6.7.8, 203.0.113.7", "10.0.0.1", 1)).toBe(
+      genuine
+    );
+  });
+
+  it("should fall back to the farthest known hop when the header is short", () => {
+    expect(resolveClientIp(undefined, "10.0.0.1", 1)).toBe("10.0.0.1");
+    expect(resolveClientIp("203.0.113.7", "10.0.0.1", 3)).toBe("203.0.113.7");
+  });
+
+  it("should report an unknown address", () => {
+    expect(resolveClientIp(undefined, undefined, 1)).toBe("unknown");
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { preservesGivens, mergeGrid, isSolvedGrid } from "../../src/lib/grid";
+
+const board =
+  "530070000600195000098000060800060003400803001700020006060000280000419005000080079";
+const solution =
+  "534678912672195348198342567859761423426853791713924856961537284287419635345286179";
+
+describe("grid", () => {
+  describe("preservesGivens", () => {
+    it("should accept an empty user grid", () => {
+      expect(preservesGivens(board, "0".repeat(81))).toBe(true);
+    });
+
+    it("should accept a user grid that repeats the givens", () => {
+      expect(preservesGivens(board, solution)).toBe(true);
+    });
+
+    it("should reject a user grid that overwrites a given", () => {
+      const user = "6" + "0".repeat(80);
+      expect(preservesGivens(board, user)).toBe(false);
+    });
+
+    it("should reject grids of the wrong length", () => {
+      expect(preservesGivens(board, "0".repeat(80))).toBe(false);
+    });
+  });
+
+  describe("mergeGrid", () => {
+    it("should fill empty cells from user input", () => {
+      expect(mergeGrid(board, solution)).toBe(solution);
+    });
+
+    it("should keep givens when user input is empty", () => {
+      expect(mergeGrid(board, "")).toBe(board);
+    });
+  });
+
+  describe("isSolvedGrid", () => {
+    it("should accept the solution", () => {
+      expect(isSolvedGrid(solution, solution)).toBe(true);
+    });
+
+    it("should reject an incomplete grid", () => {
+      expect(isSolvedGrid(board, solution)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  getReadinessStatus,
+  runDependencyCheck,
+  type DependencyCheck,
+} from "../../src/lib/health";
+
+const check = (
+  status: DependencyCheck["status"],
+  critical: boolean
+): DependencyCheck => ({ status, critical, latencyMs: 1 });
+
+describe("runDependencyCheck", () => {
+  it("reports a passing check as up", async () => {
+    const result = await runDependencyCheck(async () => "up", {
+      critical: true,
+      timeoutMs: 1000,
+    });
+    expect(result.status).toBe("up");
+    expect(result.critical).toBe(true);
+    expect(result.error).toBeUndefined();
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reports an unconfigured dependency", async () => {
+    const result = await runDependencyCheck(async () => "not_configured", {
+      critical: false,
+      timeoutMs: 1000,
+    });
+    expect(result.status).toBe("not_configured");
+  });
+
+  it("reports a failing check as down with the error", async () => {
+    const result = await runDependencyCheck(
+      async () => {
+        throw new Error("connection refused");
+      },
+      { critical: true, timeoutMs: 1000 }
+    );
+    expect(result.status).toBe("down");
+    expect(result.error).toBe("connection refused");
+  });
+
+  it("reports a slow check as down after the timeout", async () => {
+    const result = await runDependencyCheck(
+      () => new Promise(resolve => setTimeout(() => resolve("up"), 200)),
+      { critical: true, timeoutMs: 10 }
+    );
+    expect(result.status).toBe("down");
+    expect(result.error).toBe("Timed out after 10ms");
+  });
+});
+
+describe("getReadinessStatus", () => {
+  it("is ready when everything is up or not configured", () => {
+    expect(
+      getReadinessStatus({
+        database: check("up", true),
+        revenuecat: check("not_configured", false),
+      })
+    ).toBe("ready");
+  });
+
+  it("is degraded when only a non-critical dependency is down", () => {
+    expect(
+      getReadinessStatus({
+        database: check("up", true),
+        ocr: check("down", false),
+      })
+    ).toBe("degraded");
+  });
+
+  it("is not ready when a critical dependency is down", () => {
+    expect(
+      getReadinessStatus({
+        solver: check("down", true),
+        ocr: check("down", false),
+      })
+    ).toBe("not_ready");
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  addLogContext,
+  createLogger,
+  getLogContext,
+  redact,
+  redactUrl,
+  withLogContext,
+  type LogLevel,
+} from "../../src/lib/logger";
+
+function capture(level: LogLevel = "debug") {
+  const lines: { level: LogLevel; entry: Record<string, unknown> }[] = [];
+  const logger = createLogger({
+    level,
+    write: (line, lineLevel) =>
+      lines.push({ level: lineLevel, entry: JSON.parse(line) }),
+  });
+  return { logger, lines };
+}
+
+describe("redact", () => {
+  it("redacts puzzle payloads and credentials at any depth", () => {
+    expect(
+      redact({
+        endpoint: "solve",
+        board: { original: "123", user: "456" },
+        nested: { pencilmarks: "1,2", Authorization: "Bearer x" },
+      })
+    ).toEqual({
+      endpoint: "solve",
+      board: "[REDACTED]",
+      nested: { pencilmarks: "[REDACTED]", Authorization: "[REDACTED]" },
+    });
+  });
+
+  it("serializes errors and dates", () => {
+    const error = new TypeError("boom");
+    const result = redact({
+      error,
+      at: new Date("2026-01-02T03:04:05.000Z"),
+    }) as Record<string, Record<string, unknown>>;
+    expect(result.error).toEqual({
+      name: "TypeError",
+      message: "boom",
+      stack: error.stack,
+    });
+    expect(result.at).toBe("2026-01-02T03:04:05.000Z");
+  });
+
+  it("truncates deeply nested values", () => {
+    const deep = { a: { b: { c: { d: { e: { f: { g: 1 } } } } } } };
+    expect(JSON.stringify(redact(deep))).toContain("[Truncated]");
+  });
+
+  it("leaves primitives unchanged", () => {
+    expect(redact("text")).toBe("text");
+    expect(redact(42)).toBe(42);
+    expect(redact(null)).toBeNull();
+  });
+});
+
+describe("redactUrl", () => {
+  it("redacts sensitive query parameters", () => {
+    expect(
+      redactUrl("http://solver/api/solve?original=123&user=456&techniques=3")
+    ).toBe(
+      "http://solver/api/solve?original=%5BREDACTED%5D&user=%5BREDACTED%5D&techniques=3"
+    );
+  });
+
+  it("returns URLs without a query unchanged", () => {
+    expect(redactUrl("/api/v1/boards")).toBe("/api/v1/boards");
+  });
+});
+
+describe("createLogger", () => {
+  it("writes one JSON entry with time, level, message and fields", () => {
+    const { logger, lines } = capture();
+    logger.info("Server running", { port: 3000 });
+    expect(lines).toHaveLength(1);
+    expect(lines[0]!.level).toBe("info");
+    expect(lines[0]!.entry).toMatchObject({
+      level: "info",
+      msg: "Server running",
+      port: 3000,
+    });
+    expect(typeof lines[0]!.entry.time).toBe("string");
+  });
+
+  it("drops entries below the minimum level", () => {
+    const { logger, lines } = capture("warn");
+    logger.debug("debug");
+    logger.info("info");
+    logger.warn("warn");
+    logger.error("error");
+    expect(lines.map(line => line.entry.msg)).toEqual(["warn", "error"]);
+  });
+
+  it("redacts fields", () => {
+    const { logger, lines } = capture();
+    logger.info("Solving", { board: "123" });
+    expect(lines[0]!.entry.board).toBe("[REDACTED]");
+  });
+
+  it("adds child fields to every entry", () => {
+    const { logger, lines } = capture();
+    const child = logger.child({ component: "solver" });
+    child.info("first");
+    child.child({ endpoint: "hint" }).info("second");
+    expect(lines[0]!.entry.component).toBe("solver");
+    expect(lines[1]!.entry).toMatchObject({
+      component: "solver",
+      endpoint: "hint",
+    });
+  });
+});
+
+describe("log context", () => {
+  it("adds context fields to entries logged within it", async () => {
+    const { logger, lines } = capture();
+    await withLogContext({ requestId: "req-1" }, async () => {
+      await Promise.resolve();
+      addLogContext({ userId: "user-1" });
+      logger.info("inside");
+    });
+    logger.info("outside");
+    expect(lines[0]!.entry).toMatchObject({
+      requestId: "req-1",
+      userId: "user-1",
+    });
+    expect(lines[1]!.entry.requestId).toBeUndefined();
+  });
+
+  it("keeps concurrent contexts apart", async () => {
+    const { logger, lines } = capture();
+    await Promise.all(
+      ["a", "b"].map(requestId =>
+        withLogContext({ requestId }, async () => {
+          await Promise.resolve();
+          logger.info(requestId);
+        })
+      )
+    );
+    for (const line of lines) {
+      expect(line.entry.requestId).toBe(line.entry.msg);
+    }
+  });
+
+  it("exposes the current context fields", async () => {
+    await withLogContext({ requestId: "req-1" }, async () => {
+      addLogContext({ userId: "user-1" });
+      expect(getLogContext()).toEqual({ requestId: "req-1", userId: "user-1" });
+    });
+    expect(getLogContext()).toEqual({});
+  });
+
+  it("ignores addLogContext outside a context", () => {
+    const { logger, lines } = capture();
+    addLogContext({ userId: "user-1" });
+    logger.info("entry");
+    expect(lines[0]!.entry.userId).toBeUndefined();
+  });
+});
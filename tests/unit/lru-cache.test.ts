@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { createLruCache } from "../../src/lib/lru-cache";
+
+describe("createLruCache", () => {
+  it("should return stored values until they expire", () => {
+    const cache = createLruCache<string>(10);
+    cache.set("a", "value", 1000);
+    expect(cache.get("a", 999)).toBe("value");
+    expect(cache.get("a", 1000)).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it("should evict the least recently used entry when full", () => {
+    const cache = createLruCache<number>(2);
+    cache.set("a", 1, 1000);
+    cache.set("b", 2, 1000);
+    cache.get("a", 0);
+    cache.set("c", 3, 1000);
+
+    expect(cache.get("a", 0)).toBe(1);
+    expect(cache.get("b", 0)).toBeUndefined();
+    expect(cache.get("c", 0)).toBe(3);
+  });
+
+  it("should replace an entry without evicting others", () => {
+    const cache = createLruCache<number>(2);
+    cache.set("a", 1, 1000);
+    cache.set("b", 2, 1000);
+    cache.set("a", 3, 1000);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get("a", 0)).toBe(3);
+    expect(cache.get("b", 0)).toBe(2);
+  });
+
+  it("should delete single and matching entries", () => {
+    const cache = createLruCache<{ endpoint: string }>(10);
+    cache.set("a", { endpoint: "solve" }, 1000);
+    cache.set("b", { endpoint: "validate" }, 1000);
+    cache.set("c", { endpoint: "solve" }, 1000);
+
+    expect(cache.delete("b")).toBe(true);
+    expect(cache.delete("b")).toBe(false);
+    expect(cache.deleteWhere(value => value.endpoint === "solve")).toBe(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it("should clear all entries", () => {
+    const cache = createLruCache<number>(10);
+    cache.set("a", 1, 1000);
+    cache.set("b", 2, 1000);
+    expect(cache.clear()).toBe(2);
+    expect(cache.get("a", 0)).toBeUndefined();
+  });
+});
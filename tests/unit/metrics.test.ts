@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { createMetricsRegistry } from "../../src/lib/metrics";
+
+describe("counter", () => {
+  it("should render help, type and one sample per label set", async () => {
+    const registry = createMetricsRegistry();
+    const counter = registry.counter("requests_total", "Requests served", [
+      "route",
+      "status",
+    ]);
+    counter.inc({ route: "/boards", status: 200 });
+    counter.inc({ route: "/boards", status: 200 });
+    counter.inc({ route: "/boards", status: 404 }, 3);
+
+    expect(await registry.render()).toBe(
+      [
+        "# HELP requests_total Requests served",
+        "# TYPE requests_total counter",
+        'requests_total{route="/boards",status="200"} 2',
+        'requests_total{route="/boards",status="404"} 3',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should render metrics without labels", async () => {
+    const registry = createMetricsRegistry();
+    registry.counter("events_total", "Events").inc();
+    expect(await registry.render()).toContain("events_total 1\n");
+  });
+
+  it("should reject negative increments", () => {
+    const registry = createMetricsRegistry();
+    const counter = registry.counter("events_total", "Events");
+    expect(() => counter.inc(undefined, -1)).toThrow("cannot decrease");
+  });
+
+  it("should reject missing and undeclared labels", () => {
+    const registry = createMetricsRegistry();
+    const counter = registry.counter("events_total", "Events", ["type"]);
+    expect(() => counter.inc()).toThrow('missing label "type"');
+    expect(() => counter.inc({ type: "a", other: "b" })).toThrow(
+      'no label "other"'
+    );
+  });
+
+  it("should escape label values and help text", async () => {
+    const registry = createMetricsRegistry();
+    registry
+      .counter("events_total", "Line one\nline two \\ end", ["name"])
+      .inc({ name: 'say "hi"\\\n' });
+    const text = await registry.render();
+    expect(text).toContain("# HELP events_total Line one\\nline two \\\\ end");
+    expect(text).toContain('events_total{name="say \\"hi\\"\\\\\\n"} 1');
+  });
+});
+
+describe("gauge", () => {
+  it("should keep the last value and clear on reset", async () => {
+    const registry = createMetricsRegistry();
+    const gauge = registry.gauge("connections", "Connections", ["state"]);
+    gauge.set({ state: "idle" }, 4);
+    gauge.set({ state: "idle" }, 2);
+    expect(await registry.render()).toContain('connections{state="idle"} 2');
+
+    gauge.reset();
+    expect(await registry.render()).not.toContain("connections{");
+  });
+});
+
+describe("histogram", () => {
+  it("should render cumulative buckets, sum and count", async () => {
+    const registry = createMetricsRegistry();
+    const histogram = registry.histogram(
+      "latency_seconds",
+      "Latency",
+      ["endpoint"],
+      [1, 0.1, 0.5]
+    );
+    histogram.observe({ endpoint: "solve" }, 0.05);
+    histogram.observe({ endpoint: "solve" }, 0.3);
+    histogram.observe({ endpoint: "solve" }, 2);
+
+    expect(await registry.render()).toBe(
+      [
+        "# HELP latency_seconds Latency",
+        "# TYPE latency_seconds histogram",
+        'latency_seconds_bucket{endpoint="solve",le="0.1"} 1',
+        'latency_seconds_bucket{endpoint="solve",le="0.5"} 2',
+        'latency_seconds_bucket{endpoint="solve",le="1"} 2',
+        'latency_seconds_bucket{endpoint="solve",le="+Inf"} 3',
+        'latency_seconds_sum{endpoint="solve"} 2.35',
+        'latency_seconds_count{endpoint="solve"} 3',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should observe elapsed seconds with a timer", async () => {
+    const registry = createMetricsRegistry();
+    const histogram = registry.histogram("work_seconds", "Work", ["outcome"]);
+    const end = histogram.startTimer();
+    const seconds = end({ outcome: "success" });
+
+    expect(seconds).toBeGreaterThanOrEqual(0);
+    expect(await registry.render()).toContain(
+      'work_seconds_count{outcome="success"} 1'
+    );
+  });
+
+  it("should reserve the le label", () => {
+    const registry = createMetricsRegistry();
+    expect(() => registry.histogram("work_seconds", "Work", ["le"])).toThrow(
+      "Invalid label name"
+    );
+  });
+});
+
+describe("registry", () => {
+  it("should reject invalid and duplicate metric names", () => {
+    const registry = createMetricsRegistry();
+    registry.counter("events_total", "Events");
+    expect(() => registry.counter("events_total", "Events")).toThrow(
+      "already registered"
+    );
+    expect(() => registry.gauge("bad-name", "Bad")).toThrow(
+      "Invalid metric name"
+    );
+  });
+
+  it("should run collectors before rendering", async () => {
+    const registry = createMetricsRegistry();
+    const gauge = registry.gauge("pool_size", "Pool size");
+    let size = 0;
+    registry.addCollector(async () => {
+      size += 5;
+      gauge.set(undefined, size);
+    });
+
+    expect(await registry.render()).toContain("pool_size 5");
+    expect(await registry.render()).toContain("pool_size 10");
+  });
+});
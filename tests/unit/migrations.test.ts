@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  planMigrations,
+  planRollback,
+  validateMigrations,
+} from "../../src/lib/migrations";
+
+const migrations = [{ version: 1 }, { version: 2 }, { version: 3 }];
+
+describe("validateMigrations", () => {
+  it("accepts ascending versions", () => {
+    expect(() => validateMigrations(migrations)).not.toThrow();
+  });
+
+  it("rejects duplicates and out-of-order versions", () => {
+    expect(() => validateMigrations([{ version: 1 }, { version: 1 }])).toThrow(
+      "Migration 1 is out of order or duplicated"
+    );
+    expect(() => validateMigrations([{ version: 2 }, { version: 1 }])).toThrow(
+      "Migration 1 is out of order or duplicated"
+    );
+  });
+
+  it("rejects non-positive versions", () => {
+    expect(() => validateMigrations([{ version: 0 }])).toThrow(
+      "Invalid migration version: 0"
+    );
+  });
+});
+
+describe("planMigrations", () => {
+  it("returns every migration for a fresh database", () => {
+    expect(planMigrations(migrations, [])).toEqual(migrations);
+  });
+
+  it("skips applied migrations", () => {
+    expect(planMigrations(migrations, [1, 2])).toEqual([{ version: 3 }]);
+  });
+
+  it("stops at the target version", () => {
+    expect(planMigrations(migrations, [1], 2)).toEqual([{ version: 2 }]);
+  });
+
+  it("returns nothing when up to date", () => {
+    expect(planMigrations(migrations, [1, 2, 3])).toEqual([]);
+  });
+
+  it("rejects versions the release does not know about", () => {
+    expect(() => planMigrations(migrations, [1, 4])).toThrow(
+      "Database has migrations this release does not know about: 4"
+    );
+  });
+});
+
+describe("planRollback", () => {
+  it("reverts the newest applied migrations first", () => {
+    expect(planRollback(migrations, [1, 2, 3], 2)).toEqual([
+      { version: 3 },
+      { version: 2 },
+    ]);
+  });
+
+  it("ignores migrations that were never applied", () => {
+    expect(planRollback(migrations, [1], 5)).toEqual([{ version: 1 }]);
+  });
+
+  it("returns nothing for zero steps", () => {
+    expect(planRollback(migrations, [1, 2], 0)).toEqual([]);
+  });
+
+  it("refuses to reach an irreversible migration", () => {
+    const withBaseline = [
+      { version: 1, irreversible: true },
+      { version: 2 },
+      { version: 3 },
+    ];
+    expect(planRollback(withBaseline, [1, 2, 3], 2)).toEqual([
+      { version: 3 },
+      { version: 2 },
+    ]);
+    expect(() => planRollback(withBaseline, [1, 2, 3], 3)).toThrow(
+      "Migration 1 cannot be rolled back; revert at most 2 migration(s)"
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { permissionForRequest } from "../../src/lib/permissions";
+
+describe("permissionForRequest", () => {
+  it("should map reads to the read permission", () => {
+    expect(permissionForRequest("/api/v1/boards", "GET")).toBe("boards:read");
+    expect(permissionForRequest("/api/v1/solver/solve", "GET")).toBe(
+      "solver:read"
+    );
+  });
+
+  it("should map other methods to the write permission", () => {
+    expect(permissionForRequest("/api/v1/boards/123", "PUT")).toBe(
+      "boards:write"
+    );
+    expect(permissionForRequest("/api/v1/gamification/badges", "POST")).toBe(
+      "gamification:write"
+    );
+  });
+
+  it("should not grant unknown route modules", () => {
+    expect(permissionForRequest("/api/v1/api-keys", "GET")).toBeNull();
+    expect(permissionForRequest("/api/v1/admin/roles", "GET")).toBeNull();
+    expect(permissionForRequest("/health", "GET")).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import { Hono } from "hono";
+
+// Firebase, RevenueCat and the database are not reachable from unit tests
+vi.mock("../../src/services/firebase", () => ({
+  verifyIdToken: async (token: string) => {
+    if (token === "user-token") {
+      return { uid: "user-1", firebase: { sign_in_provider: "password" } };
+    }
+    if (token === "anonymous-token") {
+      return { uid: "anon-1", firebase: { sign_in_provider: "anonymous" } };
+    }
+    throw new Error("Invalid token");
+  },
+  isAnonymousUser: (decodedToken: {
+    firebase?: { sign_in_provider?: string };
+  }) => decodedToken.firebase?.sign_in_provider === "anonymous",
+  isSiteAdmin: () => false,
+}));
+vi.mock("../../src/services/roles", () => ({
+  getAdminPermissions: async () => ({
+    roles: [],
+    superAdmin: false,
+    permissions: new Set(),
+  }),
+}));
+// The Bun adapter needs the Bun runtime; requests here have no socket
+vi.mock("hono/bun", () => ({
+  getConnInfo: () => {
+    throw new Error("Not served by Bun.serve");
+  },
+}));
+vi.mock("../../src/middleware/subscription", () => ({
+  getSubscriptionHelper: () => null,
+  getTestMode: () => false,
+}));
+
+const { createRateLimitMiddleware } =
+  await import("../../src/middleware/rateLimit");
+const { createMemoryRateLimitStore } =
+  await import("../../src/services/rate-limit-store");
+
+const config = {
+  ip: { capacity: 2, refillPerSecond: 1 },
+  user: { capacity: 3, refillPerSecond: 1 },
+  apiKey: { capacity: 10, refillPerSecond: 1 },
+};
+
+function createApp() {
+  const app = new Hono();
+  app.use(
+    "*",
+    createRateLimitMiddleware("solver", {
+      store: createMemoryRateLimitStore(),
+      config,
+    })
+  );
+  app.get("/", c => c.text("ok"));
+  return app;
+}
+
+function request(
+  app: Hono,
+  headers: Record<string, string> = { "X-Forwarded-For": "203.0.113.7" }
+) {
+  return app.request("/", { headers });
+}
+
+describe("createRateLimitMiddleware", () => {
+  it("sets the rate limit headers on allowed requests", async () => {
+    const app = createApp();
+    const res = await request(app);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-RateLimit-Limit")).toBe("2");
+    expect(res.headers.get("X-RateLimit-Remaining")).toBe("1");
+    expect(res.headers.get("X-RateLimit-Reset")).toBe("1");
+    expect(res.headers.get("Retry-After")).toBeNull();
+  });
+
+  it("returns 429 with Retry-After once the bucket is empty", async () => {
+    const app = createApp();
+    await request(app);
+    await request(app);
+    const res = await request(app);
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("1");
+    expect(res.headers.get("X-RateLimit-Remaining")).toBe("0");
+    const body = (await res.json()) as { success: boolean; error: string };
+    expect(body.success).toBe(false);
+    expect(body.error).toContain("Too many requests");
+  });
+
+  it("keeps separate buckets per client IP", async () => {
+    const app = createApp();
+    await request(app);
+    await request(app);
+    const res = await request(app, { "X-Forwarded-For": "198.51.100.1" });
+    expect(res.status).toBe(200);
+  });
+
+  it("gives signed-in users their own bucket size", async () => {
+    const app = createApp();
+    const res = await request(app, { Authorization: "Bearer user-token" });
+    expect(res.headers.get("X-RateLimit-Limit")).toBe("3");
+  });
+
+  it("counts anonymous sign-ins against their IP", async () => {
+    const app = createApp();
+    await request(app);
+    await request(app);
+    const res = await request(app, {
+      Authorization: "Bearer anonymous-token",
+      "X-Forwarded-For": "203.0.113.7",
+    });
+    expect(res.status).toBe(429);
+  });
+});
+
+describe("createMemoryRateLimitStore", () => {
+  const bucket = { capacity: 1, refillPerSecond: 0.001 };
+
+  it("evicts the least recently used bucket when full", async () => {
+    const store = createMemoryRateLimitStore(2);
+    await store.consume("a", bucket, 0);
+    await store.consume("b", bucket, 0);
+    await store.consume("c", bucket, 0);
+    // "a" was evicted, so it starts full again; "c" is still empty
+    expect((await store.consume("a", bucket, 0)).allowed).toBe(true);
+    expect((await store.consume("c", bucket, 0)).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  diffSchema,
+  formatSchemaDifference,
+  normalizeSqlType,
+} from "../../src/lib/schema-diff";
+
+describe("normalizeSqlType", () => {
+  it("maps Postgres spellings to Drizzle spellings", () => {
+    expect(normalizeSqlType("character varying(81)")).toBe("varchar(81)");
+    expect(normalizeSqlType("timestamp without time zone")).toBe("timestamp");
+    expect(normalizeSqlType("int8")).toBe("bigint");
+  });
+
+  it("treats serial columns as integers", () => {
+    expect(normalizeSqlType("serial")).toBe("integer");
+  });
+
+  it("leaves other types unchanged", () => {
+    expect(normalizeSqlType("jsonb")).toBe("jsonb");
+    expect(normalizeSqlType("double precision")).toBe("double precision");
+  });
+});
+
+describe("diffSchema", () => {
+  const expected = {
+    boards: {
+      uuid: { type: "uuid", notNull: true },
+      board: { type: "varchar(81)", notNull: true },
+      techniques: { type: "bigint", notNull: false },
+    },
+  };
+
+  it("reports no differences for matching schemas", () => {
+    const actual = {
+      boards: {
+        uuid: { type: "uuid", notNull: true },
+        board: { type: "character varying(81)", notNull: true },
+        techniques: { type: "bigint", notNull: false },
+      },
+    };
+    expect(diffSchema(expected, actual)).toEqual([]);
+  });
+
+  it("reports type and nullability mismatches", () => {
+    const actual = {
+      boards: {
+        uuid: { type: "uuid", notNull: true },
+        board: { type: "character varying(81)", notNull: false },
+        techniques: { type: "integer", notNull: false },
+      },
+    };
+    expect(diffSchema(expected, actual)).toEqual([
+      {
+        table: "boards",
+        column: "board",
+        issue: "nullability",
+        expected: "NOT NULL",
+        actual: "NULL",
+      },
+      {
+        table: "boards",
+        column: "techniques",
+        issue: "type",
+        expected: "bigint",
+        actual: "integer",
+      },
+    ]);
+  });
+
+  it("reports missing and extra tables and columns", () => {
+    const actual = {
+      boards: {
+        uuid: { type: "uuid", notNull: true },
+        board: { type: "varchar(81)", notNull: true },
+        legacy: { type: "text", notNull: false },
+      },
+      old_table: {},
+      schema_migrations: {},
+    };
+    expect(diffSchema(expected, actual, ["schema_migrations"])).toEqual([
+      { table: "boards", column: "legacy", issue: "extra_column" },
+      { table: "boards", column: "techniques", issue: "missing_column" },
+      { table: "old_table", issue: "extra_table" },
+    ]);
+    expect(diffSchema(expected, {})).toEqual([
+      { table: "boards", issue: "missing_table" },
+    ]);
+  });
+});
+
+describe("formatSchemaDifference", () => {
+  it("describes a type mismatch", () => {
+    expect(
+      formatSchemaDifference({
+        table: "boards",
+        column: "techniques",
+        issue: "type",
+        expected: "bigint",
+        actual: "integer",
+      })
+    ).toBe("boards.techniques: type is integer, schema.ts declares bigint");
+  });
+});
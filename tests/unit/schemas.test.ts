@@ -23,9 +23,29 @@ import {
   techniquePracticeCreateSchema,
   gameStartSchema,
   gameFinishSchema,
+  gameProgressSchema,
+  gameSessionQuerySchema,
+  gamePauseSchema,
   badgeDefinitionCreateSchema,
+  badgeBackfillSchema,
   badgeDefinitionUpdateSchema,
   badgeKeyParamSchema,
+  leaderboardQuerySchema,
+  dailyLeaderboardQuerySchema,
+  ledgerQuerySchema,
+  accessQuotaParamSchema,
+  accessQuotaUpdateSchema,
+  pointAdjustmentSchema,
+  ledgerReconcileSchema,
+  apiKeyCreateSchema,
+  apiKeyUpdateSchema,
+  roleCreateSchema,
+  roleUpdateSchema,
+  userRoleParamSchema,
+  auditQuerySchema,
+  solverSolveBodySchema,
+  solverValidateBodySchema,
+  solverGenerateBodySchema,
 } from "../../src/schemas";
 
 const validBoard = "0".repeat(81);
@@ -244,7 +264,9 @@ describe("Schema Validation", () => {
 
   describe("techniquePathParamSchema", () => {
     it("should accept valid path", () => {
-      const result = techniquePathParamSchema.safeParse({ path: "naked-single" });
+      const result = techniquePathParamSchema.safeParse({
+        path: "naked-single",
+      });
       expect(result.success).toBe(true);
     });
 
@@ -795,6 +817,136 @@ describe("Schema Validation", () => {
       });
       expect(result.success).toBe(false);
     });
+
+    it("should accept a session ID", () => {
+      const result = gameFinishSchema.safeParse({
+        sessionId: validUuid,
+        elapsedTime: 120,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a completed grid", () => {
+      const result = gameFinishSchema.safeParse({
+        elapsedTime: 120,
+        grid: validSolution,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept an IANA timezone", () => {
+      const result = gameFinishSchema.safeParse({
+        elapsedTime: 120,
+        timezone: "America/New_York",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an unknown timezone", () => {
+      const result = gameFinishSchema.safeParse({
+        elapsedTime: 120,
+        timezone: "Mars/Olympus_Mons",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a grid with empty cells", () => {
+      const result = gameFinishSchema.safeParse({
+        elapsedTime: 120,
+        grid: "0" + "1".repeat(80),
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("gamePauseSchema", () => {
+    it("should accept an empty body", () => {
+      const result = gamePauseSchema.safeParse({});
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a session ID", () => {
+      const result = gamePauseSchema.safeParse({ sessionId: validUuid });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an invalid session ID", () => {
+      const result = gamePauseSchema.safeParse({ sessionId: "abc" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("gameSessionQuerySchema", () => {
+    it("should accept an empty selector", () => {
+      const result = gameSessionQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a session ID", () => {
+      const result = gameSessionQuerySchema.safeParse({ sessionId: validUuid });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a puzzle type and ID", () => {
+      const result = gameSessionQuerySchema.safeParse({
+        puzzleType: "daily",
+        puzzleId: "2024-01-15",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an invalid session ID", () => {
+      const result = gameSessionQuerySchema.safeParse({
+        sessionId: "not-a-uuid",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an invalid puzzle type", () => {
+      const result = gameSessionQuerySchema.safeParse({ puzzleType: "other" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("gameProgressSchema", () => {
+    it("should accept user entries with pencilmarks", () => {
+      const result = gameProgressSchema.safeParse({
+        user: validBoard,
+        pencilmarks: ",".repeat(80),
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept elapsed active time", () => {
+      const result = gameProgressSchema.safeParse({
+        user: validBoard,
+        elapsedTime: 300,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject negative elapsed active time", () => {
+      const result = gameProgressSchema.safeParse({
+        user: validBoard,
+        elapsedTime: -5,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should accept user entries without pencilmarks", () => {
+      const result = gameProgressSchema.safeParse({ user: validBoard });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject user entries of wrong length", () => {
+      const result = gameProgressSchema.safeParse({ user: "0".repeat(80) });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject non-digit user entries", () => {
+      const result = gameProgressSchema.safeParse({ user: ".".repeat(81) });
+      expect(result.success).toBe(false);
+    });
   });
 
   // =========================================================================
@@ -823,6 +975,36 @@ describe("Schema Validation", () => {
       expect(result.success).toBe(true);
     });
 
+    it("should accept a badge rule", () => {
+      const result = badgeDefinitionCreateSchema.safeParse({
+        badgeType: "speed",
+        badgeKey: "speed_level_3",
+        title: "Quick Thinker",
+        rule: { type: "solve_time", level: 3, seconds: 300 },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a rule with an unknown type", () => {
+      const result = badgeDefinitionCreateSchema.safeParse({
+        badgeType: "speed",
+        badgeKey: "speed_level_3",
+        title: "Quick Thinker",
+        rule: { type: "moon_phase", phase: 1 },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a rule missing its parameters", () => {
+      const result = badgeDefinitionCreateSchema.safeParse({
+        badgeType: "technique",
+        badgeKey: "technique_5_10",
+        title: "Wing Master",
+        rule: { type: "technique_mastery", technique: 5 },
+      });
+      expect(result.success).toBe(false);
+    });
+
     it("should reject empty badgeKey", () => {
       const result = badgeDefinitionCreateSchema.safeParse({
         badgeType: "level_mastery",
@@ -847,6 +1029,30 @@ describe("Schema Validation", () => {
     });
   });
 
+  describe("badgeBackfillSchema", () => {
+    it("should default to a dry run of all badges", () => {
+      const result = badgeBackfillSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.dryRun).toBe(true);
+        expect(result.data.badgeKeys).toBeUndefined();
+      }
+    });
+
+    it("should accept selected badges", () => {
+      const result = badgeBackfillSchema.safeParse({
+        dryRun: false,
+        badgeKeys: ["games_5", "streak_7"],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an empty badge list", () => {
+      const result = badgeBackfillSchema.safeParse({ badgeKeys: [] });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe("badgeKeyParamSchema", () => {
     it("should accept valid badge key", () => {
       const result = badgeKeyParamSchema.safeParse({
@@ -862,4 +1068,404 @@ describe("Schema Validation", () => {
       expect(result.success).toBe(false);
     });
   });
+
+  // =========================================================================
+  // Leaderboard schemas
+  // =========================================================================
+
+  describe("leaderboardQuerySchema", () => {
+    it("should apply defaults", () => {
+      const result = leaderboardQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.scope).toBe("all_time");
+        expect(result.data.limit).toBe(20);
+        expect(result.data.offset).toBe(0);
+      }
+    });
+
+    it("should coerce query string numbers", () => {
+      const result = leaderboardQuerySchema.safeParse({
+        scope: "level",
+        level: "5",
+        limit: "50",
+        offset: "10",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.level).toBe(5);
+        expect(result.data.limit).toBe(50);
+        expect(result.data.offset).toBe(10);
+      }
+    });
+
+    it("should accept periodic scopes", () => {
+      expect(
+        leaderboardQuerySchema.safeParse({ scope: "weekly" }).success
+      ).toBe(true);
+      expect(
+        leaderboardQuerySchema.safeParse({ scope: "monthly" }).success
+      ).toBe(true);
+    });
+
+    it("should require a level for the level scope", () => {
+      const result = leaderboardQuerySchema.safeParse({ scope: "level" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an unknown scope", () => {
+      const result = leaderboardQuerySchema.safeParse({ scope: "daily" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject limit above 100", () => {
+      const result = leaderboardQuerySchema.safeParse({ limit: "101" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("dailyLeaderboardQuerySchema", () => {
+    it("should apply defaults", () => {
+      const result = dailyLeaderboardQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.limit).toBe(20);
+        expect(result.data.offset).toBe(0);
+      }
+    });
+
+    it("should reject negative offset", () => {
+      const result = dailyLeaderboardQuerySchema.safeParse({ offset: "-1" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  // =========================================================================
+  // Point ledger schemas
+  // =========================================================================
+
+  describe("ledgerQuerySchema", () => {
+    it("should apply defaults", () => {
+      const result = ledgerQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.limit).toBe(50);
+        expect(result.data.offset).toBe(0);
+      }
+    });
+  });
+
+  describe("pointAdjustmentSchema", () => {
+    it("should accept a credit with a reason", () => {
+      const result = pointAdjustmentSchema.safeParse({
+        points: 500,
+        reason: "Compensation for lost progress",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a debit", () => {
+      const result = pointAdjustmentSchema.safeParse({
+        points: -200,
+        reason: "Reverting duplicate award",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a missing reason", () => {
+      const result = pointAdjustmentSchema.safeParse({ points: 100 });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a blank reason", () => {
+      const result = pointAdjustmentSchema.safeParse({
+        points: 100,
+        reason: "   ",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject zero points", () => {
+      const result = pointAdjustmentSchema.safeParse({
+        points: 0,
+        reason: "No-op",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("ledgerReconcileSchema", () => {
+    it("should default to a report only", () => {
+      const result = ledgerReconcileSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.apply).toBe(false);
+      }
+    });
+  });
+
+  // =========================================================================
+  // Access quota schemas
+  // =========================================================================
+
+  describe("accessQuotaParamSchema", () => {
+    it("should accept a tier and gated endpoint", () => {
+      const result = accessQuotaParamSchema.safeParse({
+        tier: "blue_belt",
+        endpoint: "solve",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an ungated endpoint", () => {
+      const result = accessQuotaParamSchema.safeParse({
+        tier: "anonymous",
+        endpoint: "levels",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a tier with invalid characters", () => {
+      const result = accessQuotaParamSchema.safeParse({
+        tier: "Blue Belt",
+        endpoint: "boards",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("accessQuotaUpdateSchema", () => {
+    it("should accept a limit", () => {
+      const result = accessQuotaUpdateSchema.safeParse({ dailyLimit: 5 });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept null for unlimited", () => {
+      const result = accessQuotaUpdateSchema.safeParse({ dailyLimit: null });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a negative limit", () => {
+      const result = accessQuotaUpdateSchema.safeParse({ dailyLimit: -1 });
+      expect(result.success).toBe(false);
+    });
+
+    it("should require dailyLimit", () => {
+      const result = accessQuotaUpdateSchema.safeParse({});
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("apiKeyCreateSchema", () => {
+    it("should accept a name, scopes and expiry", () => {
+      const result = apiKeyCreateSchema.safeParse({
+        name: "Board importer",
+        scopes: ["boards:write", "boards:read", "boards:write"],
+        expiresAt: "2027-01-01T00:00:00Z",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.scopes).toEqual(["boards:write", "boards:read"]);
+        expect(result.data.expiresAt).toBeInstanceOf(Date);
+      }
+    });
+
+    it("should reject unknown scopes", () => {
+      const result = apiKeyCreateSchema.safeParse({
+        name: "Key",
+        scopes: ["api-keys:write"],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should require at least one scope", () => {
+      const result = apiKeyCreateSchema.safeParse({ name: "Key", scopes: [] });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an invalid expiry", () => {
+      const result = apiKeyCreateSchema.safeParse({
+        name: "Key",
+        scopes: ["solver:read"],
+        expiresAt: "next week",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("apiKeyUpdateSchema", () => {
+    it("should accept null expiry to remove it", () => {
+      const result = apiKeyUpdateSchema.safeParse({ expiresAt: null });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.expiresAt).toBeNull();
+      }
+    });
+
+    it("should accept an empty update", () => {
+      const result = apiKeyUpdateSchema.safeParse({});
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("roleCreateSchema", () => {
+    it("should accept a role with permissions", () => {
+      const result = roleCreateSchema.safeParse({
+        name: "translator",
+        description: "Translates learning content",
+        permissions: ["learning:read", "learning:write"],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a role without permissions", () => {
+      const result = roleCreateSchema.safeParse({
+        name: "viewer",
+        permissions: [],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject unknown permissions", () => {
+      const result = roleCreateSchema.safeParse({
+        name: "translator",
+        permissions: ["boards:delete"],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject invalid role names", () => {
+      const result = roleCreateSchema.safeParse({
+        name: "Content Editor",
+        permissions: [],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("roleUpdateSchema", () => {
+    it("should deduplicate permissions", () => {
+      const result = roleUpdateSchema.safeParse({
+        permissions: ["boards:write", "boards:write"],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.permissions).toEqual(["boards:write"]);
+      }
+    });
+  });
+
+  describe("userRoleParamSchema", () => {
+    it("should accept a user and role", () => {
+      const result = userRoleParamSchema.safeParse({
+        userId: "firebase-uid",
+        role: "puzzle_curator",
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("auditQuerySchema", () => {
+    it("should apply pagination defaults", () => {
+      const result = auditQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.limit).toBe(50);
+        expect(result.data.offset).toBe(0);
+      }
+    });
+
+    it("should accept filters", () => {
+      const result = auditQuerySchema.safeParse({
+        actorId: "admin-uid",
+        entityType: "board",
+        method: "DELETE",
+        from: "2026-01-01T00:00:00Z",
+        to: "2026-02-01T00:00:00Z",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.from).toBeInstanceOf(Date);
+      }
+    });
+
+    it("should reject a range that ends before it starts", () => {
+      const result = auditQuerySchema.safeParse({
+        from: "2026-02-01T00:00:00Z",
+        to: "2026-01-01T00:00:00Z",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject GET as a method", () => {
+      const result = auditQuerySchema.safeParse({ method: "GET" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("solverSolveBodySchema", () => {
+    it("should accept a board alone", () => {
+      const result = solverSolveBodySchema.safeParse({ original: validBoard });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept all parameters", () => {
+      const result = solverSolveBodySchema.safeParse({
+        original: validBoard,
+        user: validBoard,
+        autopencilmarks: true,
+        pencilmarks: ",".repeat(80),
+        techniques: "1,2,3",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a short board", () => {
+      const result = solverSolveBodySchema.safeParse({ original: "0" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject string booleans", () => {
+      const result = solverSolveBodySchema.safeParse({
+        original: validBoard,
+        autopencilmarks: "true",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject malformed techniques", () => {
+      const result = solverSolveBodySchema.safeParse({
+        original: validBoard,
+        techniques: "1,,x",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("solverValidateBodySchema", () => {
+    it("should accept a board with brutalForce", () => {
+      const result = solverValidateBodySchema.safeParse({
+        original: validBoard,
+        brutalForce: false,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a missing board", () => {
+      const result = solverValidateBodySchema.safeParse({});
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("solverGenerateBodySchema", () => {
+    it("should accept an empty body", () => {
+      const result = solverGenerateBodySchema.safeParse({});
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a non-boolean symmetrical", () => {
+      const result = solverGenerateBodySchema.safeParse({ symmetrical: 1 });
+      expect(result.success).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeSolverParams,
+  solverBodyToQueryString,
+  solverCacheKey,
+} from "../../src/lib/solver-cache-key";
+
+describe("normalizeSolverParams", () => {
+  it("should sort parameters by name", () => {
+    expect(
+      normalizeSolverParams("user=2&original=1&autopencilmarks=false")
+    ).toBe("autopencilmarks=false&original=1&user=2");
+  });
+
+  it("should lowercase boolean values", () => {
+    expect(normalizeSolverParams("brutalForce=TRUE&original=1")).toBe(
+      "brutalForce=true&original=1"
+    );
+  });
+
+  it("should keep repeated parameters, sorted by value", () => {
+    expect(normalizeSolverParams("t=2&t=1")).toBe("t=1&t=2");
+  });
+
+  it("should keep other values unchanged", () => {
+    expect(normalizeSolverParams("pencilmarks=12%2C3&original=Abc")).toBe(
+      "original=Abc&pencilmarks=12%2C3"
+    );
+  });
+});
+
+describe("solverCacheKey", () => {
+  it("should give equivalent requests the same key", () => {
+    expect(solverCacheKey("solve", "original=1&user=2")).toBe(
+      solverCacheKey("solve", "user=2&original=1")
+    );
+  });
+
+  it("should give different endpoints and parameters different keys", () => {
+    const key = solverCacheKey("solve", "original=1");
+    expect(solverCacheKey("validate", "original=1")).not.toBe(key);
+    expect(solverCacheKey("solve", "original=2")).not.toBe(key);
+  });
+
+  it("should be a SHA-256 hex digest", () => {
+    expect(solverCacheKey("solve", "original=1")).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("solverBodyToQueryString", () => {
+  it("should encode values as strings and skip undefined ones", () => {
+    expect(
+      solverBodyToQueryString({
+        original: "1",
+        autopencilmarks: false,
+        user: undefined,
+      })
+    ).toBe("original=1&autopencilmarks=false");
+  });
+
+  it("should give a body the same key as the equivalent query string", () => {
+    expect(
+      solverCacheKey(
+        "validate",
+        solverBodyToQueryString({ original: "1", brutalForce: true })
+      )
+    ).toBe(solverCacheKey("validate", "brutalForce=TRUE&original=1"));
+  });
+});
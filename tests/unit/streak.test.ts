@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  canChangeTimezone,
+  isValidTimeZone,
+  localDate,
+  advanceStreak,
+  visibleStreak,
+  TIMEZONE_CHANGE_INTERVAL_MS,
+  type StreakState,
+} from "../../src/lib/streak";
+
+const fresh: StreakState = {
+  currentStreak: 0,
+  longestStreak: 0,
+  lastStreakDate: null,
+};
+
+describe("streak", () => {
+  describe("isValidTimeZone", () => {
+    it("should accept IANA timezones", () => {
+      expect(isValidTimeZone("Europe/Paris")).toBe(true);
+      expect(isValidTimeZone("UTC")).toBe(true);
+    });
+
+    it("should reject unknown timezones", () => {
+      expect(isValidTimeZone("Nowhere/Special")).toBe(false);
+    });
+  });
+
+  describe("localDate", () => {
+    const lateUtc = new Date("2024-03-10T23:30:00Z");
+
+    it("should use the UTC date for UTC", () => {
+      expect(localDate(lateUtc, "UTC")).toBe("2024-03-10");
+    });
+
+    it("should use the local date east of UTC", () => {
+      expect(localDate(lateUtc, "Asia/Tokyo")).toBe("2024-03-11");
+    });
+
+    it("should fall back to UTC for unknown timezones", () => {
+      expect(localDate(lateUtc, "Nowhere/Special")).toBe("2024-03-10");
+    });
+  });
+
+  describe("advanceStreak", () => {
+    it("should start a streak", () => {
+      expect(advanceStreak(fresh, "2024-03-10")).toEqual({
+        currentStreak: 1,
+        longestStreak: 1,
+        lastStreakDate: "2024-03-10",
+      });
+    });
+
+    it("should continue on the next day", () => {
+      const state = {
+        currentStreak: 4,
+        longestStreak: 4,
+        lastStreakDate: "2024-02-29",
+      };
+      expect(advanceStreak(state, "2024-03-01").currentStreak).toBe(5);
+      expect(advanceStreak(state, "2024-03-01").longestStreak).toBe(5);
+    });
+
+    it("should not change on the same day", () => {
+      const state = {
+        currentStreak: 2,
+        longestStreak: 3,
+        lastStreakDate: "2024-03-10",
+      };
+      expect(advanceStreak(state, "2024-03-10")).toBe(state);
+    });
+
+    it("should restart after a missed day and keep the longest streak", () => {
+      const state = {
+        currentStreak: 6,
+        longestStreak: 9,
+        lastStreakDate: "2024-03-08",
+      };
+      expect(advanceStreak(state, "2024-03-10")).toEqual({
+        currentStreak: 1,
+        longestStreak: 9,
+        lastStreakDate: "2024-03-10",
+      });
+    });
+  });
+
+  describe("visibleStreak", () => {
+    const state = {
+      currentStreak: 3,
+      longestStreak: 3,
+      lastStreakDate: "2024-03-10",
+    };
+
+    it("should show the streak through the following day", () => {
+      expect(visibleStreak(state, "2024-03-10")).toBe(3);
+      expect(visibleStreak(state, "2024-03-11")).toBe(3);
+    });
+
+    it("should show 0 once the streak lapses", () => {
+      expect(visibleStreak(state, "2024-03-12")).toBe(0);
+      expect(visibleStreak(fresh, "2024-03-12")).toBe(0);
+    });
+  });
+
+  describe("canChangeTimezone", () => {
+    const now = new Date("2024-03-10T12:00:00Z");
+
+    it("should accept the first reported timezone", () => {
+      expect(
+        canChangeTimezone({ timezone: null, timezoneUpdatedAt: null }, now)
+      ).toBe(true);
+    });
+
+    it("should accept a change to a timezone stored before tracking", () => {
+      expect(
+        canChangeTimezone({ timezone: "UTC", timezoneUpdatedAt: null }, now)
+      ).toBe(true);
+    });
+
+    it("should refuse a change within the interval", () => {
+      const timezoneUpdatedAt = new Date(
+        now.getTime() - TIMEZONE_CHANGE_INTERVAL_MS + 1000
+      );
+      expect(
+        canChangeTimezone({ timezone: "Asia/Tokyo", timezoneUpdatedAt }, now)
+      ).toBe(false);
+    });
+
+    it("should accept a change once the interval has passed", () => {
+      const timezoneUpdatedAt = new Date(
+        now.getTime() - TIMEZONE_CHANGE_INTERVAL_MS
+      );
+      expect(
+        canChangeTimezone({ timezone: "Asia/Tokyo", timezoneUpdatedAt }, now)
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { takeToken, type TokenBucketConfig } from "../../src/lib/token-bucket";
+
+const config: TokenBucketConfig = { capacity: 3, refillPerSecond: 1 };
+
+describe("takeToken", () => {
+  it("should start new buckets full", () => {
+    const result = takeToken(null, config, 0);
+    expect(result.allowed).toBe(true);
+    expect(result.remaining).toBe(2);
+    expect(result.retryAfterSeconds).toBe(0);
+    expect(result.resetSeconds).toBe(1);
+  });
+
+  it("should reject once the bucket is empty", () => {
+    let state = takeToken(null, config, 0).state;
+    state = takeToken(state, config, 0).state;
+    state = takeToken(state, config, 0).state;
+
+    const result = takeToken(state, config, 0);
+    expect(result.allowed).toBe(false);
+    expect(result.remaining).toBe(0);
+    expect(result.retryAfterSeconds).toBe(1);
+    expect(result.resetSeconds).toBe(3);
+  });
+
+  it("should refill over time", () => {
+    const empty = { tokens: 0, updatedAt: 0 };
+    expect(takeToken(empty, config, 500).allowed).toBe(false);
+    expect(takeToken(empty, config, 1000).allowed).toBe(true);
+  });
+
+  it("should not refill beyond capacity", () => {
+    const result = takeToken({ tokens: 0, updatedAt: 0 }, config, 60_000);
+    expect(result.remaining).toBe(2);
+  });
+
+  it("should ignore clock skew", () => {
+    const result = takeToken({ tokens: 0.5, updatedAt: 1000 }, config, 0);
+    expect(result.allowed).toBe(false);
+    expect(result.state.tokens).toBe(0.5);
+  });
+});